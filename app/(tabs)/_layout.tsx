@@ -1,18 +1,37 @@
 import { Tabs } from 'expo-router';
+import { BottomTabBar } from '@react-navigation/bottom-tabs';
 import { 
   Play, 
   Library, 
   Settings, 
   Headphones 
 } from 'lucide-react-native';
-import { StyleSheet } from 'react-native';
+import { StyleSheet, View } from 'react-native';
+import { useIsFullscreen } from '@/hooks/useFullscreen';
+import { useSleepTimer } from '@/hooks/useSleepTimer';
+import { useShake } from '@/hooks/useShake';
+import { extendSleepTimer } from '@/lib/sleepTimer';
+import MiniPlayer from '@/components/MiniPlayer';
 
 export default function TabLayout() {
+  const isFullscreen = useIsFullscreen();
+  const sleepTimer = useSleepTimer();
+  // Here rather than in the players, which both stay mounted, so one shake extends it once.
+  useShake(extendSleepTimer, sleepTimer !== null);
+
   return (
     <Tabs
+      tabBar={(props) => (
+        <View>
+          {!isFullscreen && (
+            <MiniPlayer activeRoute={props.state.routes[props.state.index].name} />
+          )}
+          <BottomTabBar {...props} />
+        </View>
+      )}
       screenOptions={{
         headerShown: false,
-        tabBarStyle: styles.tabBar,
+        tabBarStyle: isFullscreen ? styles.tabBarHidden : styles.tabBar,
         tabBarActiveTintColor: '#3B82F6',
         tabBarInactiveTintColor: '#6B7280',
         tabBarLabelStyle: styles.tabLabel,
@@ -66,6 +85,9 @@ const styles = StyleSheet.create({
     paddingBottom: 8,
     height: 70,
   },
+  tabBarHidden: {
+    display: 'none',
+  },
   tabLabel: {
     fontFamily: 'Inter-Medium',
     fontSize: 12,
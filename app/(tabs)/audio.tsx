@@ -1,50 +1,198 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
   Dimensions,
+  Image,
   Animated,
+  ActivityIndicator,
 } from 'react-native';
-import { Audio } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import * as DocumentPicker from 'expo-document-picker';
+import { useLocalSearchParams } from 'expo-router';
 import {
   Play,
   Pause,
   SkipBack,
   SkipForward,
   Volume2,
+  SlidersHorizontal,
   Repeat,
+  Repeat1,
   Shuffle,
+  ListMusic,
+  ChartColumn,
+  Disc3,
+  RotateCcw,
+  RotateCw,
   Music,
   Heart,
+  Bookmark as BookmarkIcon,
+  Globe,
+  WifiOff,
+  Moon,
 } from 'lucide-react-native';
+import {
+  addMediaFile,
+  addMediaFiles,
+  getDisplayTitle,
+  MediaFile,
+  NewMediaFile,
+  toggleFavorite,
+} from '@/lib/mediaLibrary';
+import { loadTagsForFiles } from '@/lib/tags';
+import { describePlaybackError, needsSignIn } from '@/lib/remoteMedia';
+import { getSoundBackend, playbackEngine } from '@/lib/playback';
+import {
+  clearQueue,
+  cycleRepeatMode,
+  enqueueFiles,
+  getNextItemId,
+  jumpToQueueItem,
+  moveQueueItem,
+  playFileInQueue,
+  removeFromQueue,
+  skipToNext,
+  skipToPrevious,
+  toggleShuffle,
+  PREVIOUS_RESTART_THRESHOLD,
+} from '@/lib/queue';
+import { formatTime } from '@/lib/format';
+import { useMediaFile } from '@/hooks/useMediaLibrary';
+import { useResumePosition } from '@/hooks/useResumePosition';
+import { usePlaybackSpeed } from '@/hooks/usePlaybackSpeed';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { useMediaPlayback, usePlaybackEvent } from '@/hooks/usePlayback';
+import { useQueue } from '@/hooks/useQueue';
+import { useMediaTags } from '@/hooks/useMediaTags';
+import { useSkipIntervals } from '@/hooks/useSkipIntervals';
+import { useWaveform } from '@/hooks/useWaveform';
+import { useMediaElementGraph } from '@/hooks/useWebAudio';
+import { useEqualizer } from '@/hooks/useEqualizer';
+import { useCrossfade } from '@/hooks/useCrossfade';
+import { useNormalizationVolume } from '@/hooks/useNormalization';
+import { useSleepTimer } from '@/hooks/useSleepTimer';
+import { useChapters } from '@/hooks/useChapters';
+import { useLyrics } from '@/hooks/useLyrics';
+import { useArtwork } from '@/hooks/useArtwork';
+import { formatSkipInterval } from '@/lib/skipIntervals';
+import { getCrossfadeMillis } from '@/lib/crossfade';
+import {
+  getSleepTimer,
+  getSleepTimerVolume,
+  stopsAtEndOfTrack,
+} from '@/lib/sleepTimer';
+import { findChapterIndex, getChapterEnd } from '@/lib/chapters';
+import { formatSpeed } from '@/lib/playbackSpeed';
+import ResumePrompt from '@/components/ResumePrompt';
+import SpeedPanel from '@/components/SpeedPanel';
+import BookmarkPanel from '@/components/BookmarkPanel';
+import OpenUrlModal from '@/components/OpenUrlModal';
+import QueuePanel from '@/components/QueuePanel';
+import SeekBar from '@/components/SeekBar';
+import WaveformSeekBar from '@/components/WaveformSeekBar';
+import SpectrumView from '@/components/SpectrumView';
+import EqualizerPanel from '@/components/EqualizerPanel';
+import SleepTimerPanel from '@/components/SleepTimerPanel';
+import SleepTimerCountdown from '@/components/SleepTimerCountdown';
+import LyricsView from '@/components/LyricsView';
 
 const { width } = Dimensions.get('window');
+const ALBUM_ART_SIZE = 240;
 
 export default function AudioScreen() {
-  const [sound, setSound] = useState<Audio.Sound | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTrack, setCurrentTrack] = useState<string | null>(null);
-  const [trackName, setTrackName] = useState<string>('');
-  const [position, setPosition] = useState(0);
-  const [duration, setDuration] = useState(0);
+  const { fileId } = useLocalSearchParams<{ fileId?: string }>();
   const [isLoading, setIsLoading] = useState(false);
+  const [showOpenUrl, setShowOpenUrl] = useState(false);
+  // Set to reopen a stream whose sign-in wasn't kept.
+  const [signInFile, setSignInFile] = useState<MediaFile | undefined>();
 
   // Animation values
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const rotateAnim = useRef(new Animated.Value(0)).current;
 
+  const queue = useQueue();
+  const [showQueue, setShowQueue] = useState(false);
+  const currentFileId = queue.currentItem?.fileId ?? null;
+  const currentFile = useMediaFile(currentFileId);
+  const currentTrack = currentFile?.uri ?? null;
+  const trackName = currentFile ? getDisplayTitle(currentFile) : '';
+  const tags = currentFile?.tags;
+  const trackArtist = tags?.artist ?? tags?.albumArtist;
+  useMediaTags(currentFile);
+  const resume = useResumePosition(currentFile);
+  const playbackSpeed = usePlaybackSpeed(currentFile);
+  const [showSpeedPanel, setShowSpeedPanel] = useState(false);
+  const bookmarks = useBookmarks(currentFile);
+  const skipIntervals = useSkipIntervals();
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const normalizationVolume = useNormalizationVolume(currentFile);
+  const sleepTimer = useSleepTimer();
+  const [showSleepTimer, setShowSleepTimer] = useState(false);
+
+  const playback = useMediaPlayback('audio', currentFile, getSoundBackend, {
+    rate: playbackSpeed.speed,
+    shouldCorrectPitch: playbackSpeed.pitchCorrection,
+    volume: normalizationVolume * getSleepTimerVolume(sleepTimer),
+    isLooping: queue.repeat === 'one',
+  });
+  const { isPlaying, positionMillis: position, durationMillis: duration } = playback;
+  const chapters = useChapters(currentFile);
+  const chapterIndex = findChapterIndex(chapters, position);
+  const chapterEnd = chapterIndex >= 0 ? getChapterEnd(chapters, chapterIndex, duration) : null;
+  const lyrics = useLyrics(currentFile);
+  const artwork = useArtwork(currentFile);
+  const waveform = useWaveform(currentFile);
+  // Live analysis needs Web Audio; elsewhere only the waveform overview is shown.
+  const graph = useMediaElementGraph('audio');
+  const [visualizer, setVisualizer] = useState<'artwork' | 'spectrum'>('artwork');
+  const showSpectrum = visualizer === 'spectrum' && graph !== null;
+  const equalizer = useEqualizer(currentFile, graph);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const loadError = playback.error && describePlaybackError(currentFile, playback.error);
+
+  // Picked once per track, so the preloaded shuffle pick is the one skipped to.
+  const shuffleSeed = useMemo(() => Math.random(), [queue.currentId]);
+  const nextFileId = useMemo(() => {
+    const nextId = getNextItemId(queue, true, () => shuffleSeed);
+    return queue.items.find((item) => item.id === nextId)?.fileId ?? null;
+  }, [queue, shuffleSeed]);
+  const nextFile = useMediaFile(nextFileId);
+  const nextVolume = useNormalizationVolume(nextFile);
+  const crossfadeMillis = useCrossfade();
+  const isLoaded = playback.isCurrent && playback.state !== 'loading' && playback.state !== 'error';
+
   useEffect(() => {
-    return sound
-      ? () => {
-          sound.unloadAsync();
-        }
-      : undefined;
-  }, [sound]);
+    if (!isLoaded || !currentFile) return;
+    // Repeat-one loops the current track instead, and a repeated file can't play over itself.
+    // Nothing follows a track the sleep timer is waiting to finish.
+    const upcoming =
+      nextFile && nextFile.id !== currentFile.id && !stopsAtEndOfTrack(sleepTimer) ? nextFile : null;
+    playbackEngine.preloadNext(upcoming, {
+      crossfadeMillis: upcoming ? getCrossfadeMillis(currentFile, upcoming, crossfadeMillis) : 0,
+      volume: nextVolume,
+    });
+  }, [isLoaded, currentFile, nextFile, nextVolume, crossfadeMillis, sleepTimer?.mode]);
+
+  useEffect(() => {
+    if (fileId) {
+      playFileInQueue(fileId);
+    }
+  }, [fileId]);
+
+  usePlaybackEvent('ended', ({ file }) => {
+    if (playbackEngine.getState().owner !== 'audio') return;
+    // The sleep timer stops here instead.
+    if (stopsAtEndOfTrack(getSleepTimer())) return;
+    const next = skipToNext(true, () => shuffleSeed);
+    // The same file again (a one-track queue on repeat) won't reload, so restart it here.
+    if (next?.fileId === file.id) {
+      playbackEngine.play();
+    }
+  });
 
   useEffect(() => {
     if (isPlaying) {
@@ -93,28 +241,20 @@ export default function AudioScreen() {
       const result = await DocumentPicker.getDocumentAsync({
         type: 'audio/*',
         copyToCacheDirectory: true,
+        multiple: true,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        
-        if (sound) {
-          await sound.unloadAsync();
-        }
-
-        const { sound: newSound } = await Audio.Sound.createAsync(
-          { uri: asset.uri },
-          { shouldPlay: false }
+      if (!result.canceled && result.assets.length > 0) {
+        const files = await addMediaFiles(
+          result.assets.map((asset) => ({
+            name: asset.name || 'Unknown Track',
+            uri: asset.uri,
+            type: 'audio' as const,
+            size: asset.size || 0,
+          }))
         );
-        
-        setSound(newSound);
-        setCurrentTrack(asset.uri);
-        setTrackName(asset.name || 'Unknown Track');
-        
-        const status = await newSound.getStatusAsync();
-        if (status.isLoaded) {
-          setDuration(status.durationMillis || 0);
-        }
+        await enqueueFiles(files.map((file) => file.id));
+        loadTagsForFiles(files);
       }
     } catch (error) {
       console.error('Error picking audio:', error);
@@ -123,25 +263,69 @@ export default function AudioScreen() {
     }
   };
 
-  const togglePlayPause = async () => {
-    if (!sound) return;
+  const openUrl = async (media: NewMediaFile) => {
+    setShowOpenUrl(false);
+    setSignInFile(undefined);
+    const file = await addMediaFile(media);
+    await playFileInQueue(file.id);
+  };
 
-    const status = await sound.getStatusAsync();
-    if (status.isLoaded) {
-      if (isPlaying) {
-        await sound.pauseAsync();
-      } else {
-        await sound.playAsync();
-      }
-      setIsPlaying(!isPlaying);
+  // Past the first few seconds "previous" restarts the track, like most players.
+  const previousTrack = () => {
+    const previous = position > PREVIOUS_RESTART_THRESHOLD ? null : skipToPrevious();
+    if (!previous || previous.fileId === currentFileId) {
+      playback.seek(0);
+    }
+  };
+
+  const skipBy = (offsetMillis: number) => {
+    playback.seek(position + offsetMillis);
+  };
+
+  const nextTrack = () => {
+    const next = skipToNext();
+    if (next?.fileId === currentFileId) {
+      playback.seek(0);
     }
   };
 
-  const formatTime = (millis: number) => {
-    const totalSeconds = Math.floor(millis / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const resumePlayback = async () => {
+    if (resume.resumePosition !== null) {
+      await playback.seek(resume.resumePosition);
+    }
+    resume.dismissResume();
+  };
+
+  const openBookmarks = () => {
+    setShowSpeedPanel(false);
+    setShowQueue(false);
+    setShowEqualizer(false);
+    setShowSleepTimer(false);
+    setShowBookmarks(true);
+  };
+
+  const toggleQueue = () => {
+    setShowSpeedPanel(false);
+    setShowBookmarks(false);
+    setShowEqualizer(false);
+    setShowSleepTimer(false);
+    setShowQueue(!showQueue);
+  };
+
+  const toggleEqualizer = () => {
+    setShowSpeedPanel(false);
+    setShowBookmarks(false);
+    setShowQueue(false);
+    setShowSleepTimer(false);
+    setShowEqualizer(!showEqualizer);
+  };
+
+  const toggleSleepTimer = () => {
+    setShowSpeedPanel(false);
+    setShowBookmarks(false);
+    setShowQueue(false);
+    setShowEqualizer(false);
+    setShowSleepTimer(!showSleepTimer);
   };
 
   const spin = rotateAnim.interpolate({
@@ -173,33 +357,66 @@ export default function AudioScreen() {
               disabled={isLoading}
             >
               <Text style={styles.selectButtonText}>
-                {isLoading ? 'Loading...' : 'Select Audio File'}
+                {isLoading ? 'Loading...' : 'Select Audio Files'}
               </Text>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.urlButton} onPress={() => setShowOpenUrl(true)}>
+              <Globe size={16} color="#E2E8F0" />
+              <Text style={styles.urlButtonText}>Open URL</Text>
+            </TouchableOpacity>
           </LinearGradient>
         </View>
       ) : (
         <View style={styles.playerContainer}>
           {/* Audio Visualizer */}
           <View style={styles.visualizerContainer}>
-            <Animated.View
-              style={[
-                styles.albumArt,
-                {
-                  transform: [
-                    { scale: pulseAnim },
-                    { rotate: spin }
-                  ]
-                }
-              ]}
-            >
-              <LinearGradient
-                colors={['#10B981', '#059669', '#047857']}
-                style={styles.albumArtGradient}
+            {showSpectrum ? (
+              <SpectrumView
+                analyser={graph.analyser}
+                isActive={isPlaying}
+                height={ALBUM_ART_SIZE}
+                accentColor="#10B981"
+              />
+            ) : (
+              <Animated.View
+                style={[
+                  styles.albumArt,
+                  {
+                    transform: [
+                      { scale: pulseAnim },
+                      { rotate: spin }
+                    ]
+                  }
+                ]}
               >
-                <Music size={80} color="#FFFFFF" />
-              </LinearGradient>
-            </Animated.View>
+                <LinearGradient
+                  colors={['#10B981', '#059669', '#047857']}
+                  style={styles.albumArtGradient}
+                >
+                  {artwork ? (
+                    <Image source={{ uri: artwork }} style={styles.albumArtImage} />
+                  ) : (
+                    <Music size={80} color="#FFFFFF" />
+                  )}
+                </LinearGradient>
+              </Animated.View>
+            )}
+            {graph && (
+              <View style={styles.visualizerToggle}>
+                <TouchableOpacity
+                  style={[styles.visualizerOption, !showSpectrum && styles.visualizerOptionActive]}
+                  onPress={() => setVisualizer('artwork')}
+                >
+                  <Disc3 size={16} color={showSpectrum ? '#94A3B8' : '#FFFFFF'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.visualizerOption, showSpectrum && styles.visualizerOptionActive]}
+                  onPress={() => setVisualizer('spectrum')}
+                >
+                  <ChartColumn size={16} color={showSpectrum ? '#FFFFFF' : '#94A3B8'} />
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
 
           {/* Track Info */}
@@ -207,38 +424,114 @@ export default function AudioScreen() {
             <Text style={styles.trackName} numberOfLines={2}>
               {trackName}
             </Text>
-            <Text style={styles.artistName}>Unknown Artist</Text>
+            <Text style={styles.artistName} numberOfLines={1}>
+              {trackArtist ?? 'Unknown Artist'}
+            </Text>
+            {tags?.album && (
+              <Text style={styles.albumName} numberOfLines={1}>
+                {tags.album}
+              </Text>
+            )}
           </View>
 
+          <LyricsView
+            lyrics={lyrics.lyrics}
+            positionMillis={position}
+            offset={lyrics.offset}
+            accentColor="#10B981"
+            canRemove={lyrics.origin?.kind === 'file'}
+            error={lyrics.error}
+            onSeek={playback.seek}
+            onOffsetChange={lyrics.setOffset}
+            onPick={lyrics.pickLyrics}
+            onRemove={lyrics.clearLyrics}
+          />
+
+          {(isLoading || playback.isBuffering) && !loadError && (
+            <View style={styles.statusRow}>
+              <ActivityIndicator size="small" color="#10B981" />
+              <Text style={styles.statusText}>
+                {isLoading || playback.state === 'loading' ? 'Loading…' : 'Buffering…'}
+              </Text>
+            </View>
+          )}
+
+          {loadError && currentFile && (
+            <View style={styles.statusRow}>
+              <WifiOff size={18} color="#F87171" />
+              <Text style={[styles.statusText, styles.errorText]}>{loadError}</Text>
+              {needsSignIn(currentFile) ? (
+                <TouchableOpacity onPress={() => setSignInFile(currentFile)}>
+                  <Text style={styles.retryText}>Sign In</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity onPress={playback.reload}>
+                  <Text style={styles.retryText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {resume.resumePosition !== null && (
+            <ResumePrompt
+              position={resume.resumePosition}
+              accentColor="#10B981"
+              onResume={resumePlayback}
+              onStartOver={resume.startOver}
+            />
+          )}
+
           {/* Progress Bar */}
           <View style={styles.progressContainer}>
-            <View style={styles.progressBar}>
-              <View 
-                style={[
-                  styles.progress, 
-                  { width: `${duration > 0 ? (position / duration) * 100 : 0}%` }
-                ]} 
+            {waveform ? (
+              <WaveformSeekBar
+                peaks={waveform}
+                positionMillis={position}
+                durationMillis={duration}
+                accentColor="#10B981"
+                markers={bookmarks.bookmarks.map((bookmark) => bookmark.position)}
+                onSeek={playback.seek}
               />
-            </View>
+            ) : (
+              <SeekBar
+                positionMillis={position}
+                durationMillis={duration}
+                bufferedMillis={playback.bufferedMillis}
+                accentColor="#10B981"
+                markers={bookmarks.bookmarks.map((bookmark) => bookmark.position)}
+                onSeek={playback.seek}
+              />
+            )}
             <View style={styles.timeContainer}>
               <Text style={styles.timeText}>{formatTime(position)}</Text>
               <Text style={styles.timeText}>{formatTime(duration)}</Text>
             </View>
           </View>
 
+          <View style={styles.skipControls}>
+            <TouchableOpacity style={styles.skipButton} onPress={() => skipBy(-skipIntervals.back)}>
+              <RotateCcw size={18} color="#E2E8F0" />
+              <Text style={styles.skipText}>{formatSkipInterval(skipIntervals.back)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.skipButton} onPress={() => skipBy(skipIntervals.forward)}>
+              <Text style={styles.skipText}>{formatSkipInterval(skipIntervals.forward)}</Text>
+              <RotateCw size={18} color="#E2E8F0" />
+            </TouchableOpacity>
+          </View>
+
           {/* Controls */}
           <View style={styles.controlsContainer}>
-            <TouchableOpacity style={styles.controlButton}>
-              <Shuffle size={24} color="#94A3B8" />
+            <TouchableOpacity style={styles.controlButton} onPress={toggleShuffle}>
+              <Shuffle size={24} color={queue.shuffle ? '#10B981' : '#94A3B8'} />
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.controlButton}>
+            <TouchableOpacity style={styles.controlButton} onPress={previousTrack}>
               <SkipBack size={32} color="#FFFFFF" />
             </TouchableOpacity>
 
             <TouchableOpacity 
               style={styles.playButton} 
-              onPress={togglePlayPause}
+              onPress={playback.togglePlayPause}
             >
               {isPlaying ? (
                 <Pause size={32} color="#FFFFFF" />
@@ -247,35 +540,162 @@ export default function AudioScreen() {
               )}
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.controlButton}>
-              <SkipForward size={32} color="#FFFFFF" />
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={nextTrack}
+              disabled={!queue.hasNext}
+            >
+              <SkipForward size={32} color={queue.hasNext ? '#FFFFFF' : '#64748B'} />
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.controlButton}>
-              <Repeat size={24} color="#94A3B8" />
+            <TouchableOpacity style={styles.controlButton} onPress={cycleRepeatMode}>
+              {queue.repeat === 'one' ? (
+                <Repeat1 size={24} color="#10B981" />
+              ) : (
+                <Repeat size={24} color={queue.repeat === 'all' ? '#10B981' : '#94A3B8'} />
+              )}
             </TouchableOpacity>
           </View>
 
           {/* Secondary Controls */}
           <View style={styles.secondaryControls}>
-            <TouchableOpacity style={styles.secondaryButton}>
-              <Heart size={20} color="#94A3B8" />
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => currentFile && toggleFavorite(currentFile.id)}
+            >
+              <Heart
+                size={20}
+                color={currentFile?.favorite ? '#10B981' : '#94A3B8'}
+                fill={currentFile?.favorite ? '#10B981' : 'transparent'}
+              />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => {
+                setShowBookmarks(false);
+                setShowQueue(false);
+                setShowEqualizer(false);
+                setShowSleepTimer(false);
+                setShowSpeedPanel(!showSpeedPanel);
+              }}
+            >
+              <Text style={styles.speedText}>{formatSpeed(playbackSpeed.speed)}</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={openBookmarks}>
+              <BookmarkIcon size={20} color="#94A3B8" />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={toggleQueue}>
+              <ListMusic size={20} color={showQueue ? '#10B981' : '#94A3B8'} />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={toggleEqualizer}>
+              <SlidersHorizontal
+                size={20}
+                color={showEqualizer || equalizer.enabled ? '#10B981' : '#94A3B8'}
+              />
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={toggleSleepTimer}>
+              <Moon size={20} color={showSleepTimer || sleepTimer ? '#10B981' : '#94A3B8'} />
             </TouchableOpacity>
 
             <TouchableOpacity style={styles.secondaryButton}>
               <Volume2 size={20} color="#94A3B8" />
             </TouchableOpacity>
           </View>
+
+          {sleepTimer && <SleepTimerCountdown timer={sleepTimer} accentColor="#10B981" />}
         </View>
       )}
 
+      {currentTrack && showSpeedPanel && (
+        <SpeedPanel
+          speed={playbackSpeed.speed}
+          presets={playbackSpeed.presets}
+          pitchCorrection={playbackSpeed.pitchCorrection}
+          accentColor="#10B981"
+          onSpeedChange={playbackSpeed.setSpeed}
+          onClose={() => setShowSpeedPanel(false)}
+        />
+      )}
+
+      {currentTrack && showBookmarks && (
+        <BookmarkPanel
+          bookmarks={bookmarks.bookmarks}
+          positionMillis={position}
+          accentColor="#10B981"
+          onAdd={bookmarks.add}
+          onJump={(bookmark) => playback.seek(bookmark.position)}
+          onUpdateNote={bookmarks.updateNote}
+          onDelete={bookmarks.remove}
+          onExport={(format) =>
+            bookmarks
+              .share(format)
+              .catch((error) => console.error('Error exporting bookmarks:', error))
+          }
+          onClose={() => setShowBookmarks(false)}
+        />
+      )}
+
+      {currentTrack && showQueue && (
+        <QueuePanel
+          entries={queue.entries}
+          currentId={queue.currentId}
+          onSelect={jumpToQueueItem}
+          onRemove={removeFromQueue}
+          onMove={moveQueueItem}
+          onClear={clearQueue}
+          onClose={() => setShowQueue(false)}
+        />
+      )}
+
+      {currentTrack && showEqualizer && (
+        <EqualizerPanel
+          enabled={equalizer.enabled}
+          settings={equalizer.settings}
+          presets={equalizer.presets}
+          isTrackOverride={equalizer.isTrackOverride}
+          onTrackOverrideChange={equalizer.setTrackOverride}
+          accentColor="#10B981"
+          onChange={equalizer.setSettings}
+          onClose={() => setShowEqualizer(false)}
+        />
+      )}
+
+      {currentTrack && showSleepTimer && (
+        <SleepTimerPanel
+          timer={sleepTimer}
+          chapterEndMillis={chapterEnd}
+          accentColor="#10B981"
+          onClose={() => setShowSleepTimer(false)}
+        />
+      )}
+
       {/* Bottom Action */}
       <View style={styles.actionContainer}>
         <TouchableOpacity style={styles.changeTrackButton} onPress={pickAudio}>
           <Music size={20} color="#10B981" />
-          <Text style={styles.changeTrackText}>Change Track</Text>
+          <Text style={styles.changeTrackText}>Add Tracks</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.changeTrackButton} onPress={() => setShowOpenUrl(true)}>
+          <Globe size={20} color="#10B981" />
+          <Text style={styles.changeTrackText}>Open URL</Text>
         </TouchableOpacity>
       </View>
+
+      <OpenUrlModal
+        visible={showOpenUrl || signInFile !== undefined}
+        accentColor="#10B981"
+        onOpen={openUrl}
+        signInTo={signInFile}
+        onClose={() => {
+          setShowOpenUrl(false);
+          setSignInFile(undefined);
+        }}
+      />
     </View>
   );
 }
@@ -336,6 +756,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#FFFFFF',
   },
+  urlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  urlButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
   playerContainer: {
     flex: 1,
     padding: 20,
@@ -347,9 +778,9 @@ const styles = StyleSheet.create({
     marginVertical: 40,
   },
   albumArt: {
-    width: 240,
-    height: 240,
-    borderRadius: 120,
+    width: ALBUM_ART_SIZE,
+    height: ALBUM_ART_SIZE,
+    borderRadius: ALBUM_ART_SIZE / 2,
     overflow: 'hidden',
     elevation: 20,
     shadowColor: '#10B981',
@@ -362,6 +793,25 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  albumArtImage: {
+    width: '100%',
+    height: '100%',
+  },
+  visualizerToggle: {
+    flexDirection: 'row',
+    marginTop: 16,
+    padding: 3,
+    borderRadius: 16,
+    backgroundColor: 'rgba(148, 163, 184, 0.15)',
+  },
+  visualizerOption: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 13,
+  },
+  visualizerOptionActive: {
+    backgroundColor: '#10B981',
+  },
   trackInfo: {
     alignItems: 'center',
     marginVertical: 30,
@@ -378,30 +828,66 @@ const styles = StyleSheet.create({
     fontFamily: 'Inter-Medium',
     fontSize: 16,
     color: '#94A3B8',
+    paddingHorizontal: 20,
   },
-  progressContainer: {
-    marginVertical: 20,
+  albumName: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#64748B',
+    marginTop: 4,
+    paddingHorizontal: 20,
   },
-  progressBar: {
-    height: 4,
-    backgroundColor: 'rgba(148, 163, 184, 0.3)',
-    borderRadius: 2,
-    marginBottom: 12,
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
   },
-  progress: {
-    height: '100%',
-    backgroundColor: '#10B981',
-    borderRadius: 2,
+  statusText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#94A3B8',
+    flexShrink: 1,
+  },
+  errorText: {
+    color: '#F87171',
+  },
+  retryText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#10B981',
+  },
+  progressContainer: {
+    marginVertical: 20,
   },
   timeContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
+    marginTop: 8,
   },
   timeText: {
     fontFamily: 'Inter-Medium',
     fontSize: 12,
     color: '#94A3B8',
   },
+  skipControls: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  skipButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(148, 163, 184, 0.15)',
+  },
+  skipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#E2E8F0',
+  },
   controlsContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
@@ -427,18 +913,25 @@ const styles = StyleSheet.create({
   },
   secondaryControls: {
     flexDirection: 'row',
-    justifyContent: 'center',
-    gap: 40,
+    justifyContent: 'space-evenly',
     marginBottom: 20,
   },
   secondaryButton: {
     padding: 12,
   },
+  speedText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#94A3B8',
+  },
   actionContainer: {
+    flexDirection: 'row',
+    gap: 12,
     padding: 20,
     paddingBottom: 90,
   },
   changeTrackButton: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
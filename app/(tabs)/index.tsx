@@ -1,18 +1,22 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  Dimensions,
   Platform,
   Alert,
+  ActivityIndicator,
+  BackHandler,
+  useWindowDimensions,
+  LayoutChangeEvent,
 } from 'react-native';
-import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import { Video, VideoReadyForDisplayEvent } from 'expo-av';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
 import * as DocumentPicker from 'expo-document-picker';
 import * as Haptics from 'expo-haptics';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
 import {
   Play,
   Pause,
@@ -20,63 +24,200 @@ import {
   SkipForward,
   Volume2,
   Maximize,
+  Minimize,
   RotateCcw,
   RotateCw,
-  Settings as SettingsIcon,
+  SlidersHorizontal,
   FileVideo,
+  Library,
+  Captions,
+  Repeat,
+  Repeat1,
+  Bookmark as BookmarkIcon,
+  Globe,
+  WifiOff,
+  Moon,
+  Heart,
 } from 'lucide-react-native';
+import { addMediaFile, MediaFile, NewMediaFile, toggleFavorite } from '@/lib/mediaLibrary';
+import { useMediaFile } from '@/hooks/useMediaLibrary';
+import { useSubtitleAppearance, useSubtitles } from '@/hooks/useSubtitles';
+import { useResumePosition } from '@/hooks/useResumePosition';
+import { useIsFullscreen } from '@/hooks/useFullscreen';
+import { useFilePreferences } from '@/hooks/useFilePreferences';
+import { usePlaybackSpeed } from '@/hooks/usePlaybackSpeed';
+import { useLoop } from '@/hooks/useLoop';
+import { useBookmarks } from '@/hooks/useBookmarks';
+import { useChapters } from '@/hooks/useChapters';
+import { useMediaPlayback, usePlaybackEvent } from '@/hooks/usePlayback';
+import { useMediaElementGraph } from '@/hooks/useWebAudio';
+import { useEqualizer } from '@/hooks/useEqualizer';
+import { useNormalizationVolume } from '@/hooks/useNormalization';
+import { useSleepTimer } from '@/hooks/useSleepTimer';
+import { enterFullscreen, exitFullscreen } from '@/lib/fullscreen';
+import { ASPECT_MODE_LABELS, getVideoFrame, nextAspectMode } from '@/lib/aspectRatio';
+import { formatSpeed } from '@/lib/playbackSpeed';
+import { describePlaybackError, needsSignIn } from '@/lib/remoteMedia';
+import { createAVBackend, playbackEngine } from '@/lib/playback';
+import { formatTime } from '@/lib/format';
+import {
+  findChapterIndex,
+  getChapterEnd,
+  getNextChapterStart,
+  getPreviousChapterStart,
+} from '@/lib/chapters';
+import { getSleepTimerVolume } from '@/lib/sleepTimer';
+import SubtitleOverlay from '@/components/SubtitleOverlay';
+import SubtitlePanel from '@/components/SubtitlePanel';
+import ResumePrompt from '@/components/ResumePrompt';
+import GestureLayer, { DEFAULT_ZOOM, ZoomState } from '@/components/GestureLayer';
+import SeekBar from '@/components/SeekBar';
+import SpeedPanel from '@/components/SpeedPanel';
+import LoopPanel from '@/components/LoopPanel';
+import BookmarkPanel from '@/components/BookmarkPanel';
+import ChapterPanel from '@/components/ChapterPanel';
+import EqualizerPanel from '@/components/EqualizerPanel';
+import SleepTimerPanel from '@/components/SleepTimerPanel';
+import SleepTimerCountdown from '@/components/SleepTimerCountdown';
+import OpenUrlModal from '@/components/OpenUrlModal';
 
-const { width, height } = Dimensions.get('window');
-
-interface PlaybackSpeeds {
-  [key: string]: number;
-}
-
-const PLAYBACK_SPEEDS: PlaybackSpeeds = {
-  '0.5x': 0.5,
-  '0.75x': 0.75,
-  '1x': 1.0,
-  '1.25x': 1.25,
-  '1.5x': 1.5,
-  '2x': 2.0,
-  '3x': 3.0,
-  '4x': 4.0,
-};
+type PlayerPanel =
+  | 'speed'
+  | 'loop'
+  | 'subtitles'
+  | 'bookmarks'
+  | 'chapters'
+  | 'equalizer'
+  | 'sleepTimer';
 
 export default function PlayerScreen() {
+  const { fileId } = useLocalSearchParams<{ fileId?: string }>();
   const videoRef = useRef<Video>(null);
-  const [status, setStatus] = useState<AVPlaybackStatus>({} as AVPlaybackStatus);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentSpeed, setCurrentSpeed] = useState('1x');
-  const [videoUri, setVideoUri] = useState<string | null>(null);
+  const [currentFileId, setCurrentFileId] = useState<string | null>(null);
   const [showControls, setShowControls] = useState(true);
-  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number }>();
+  const isFullscreen = useIsFullscreen();
+  const { width, height } = useWindowDimensions();
+  const isLandscape = width > height;
   const [volume, setVolume] = useState(1.0);
-  const [currentFileName, setCurrentFileName] = useState<string>('');
+  const [brightness, setBrightness] = useState(1.0);
+  const [zoom, setZoom] = useState<ZoomState>(DEFAULT_ZOOM);
+  const [videoArea, setVideoArea] = useState({ width: 0, height: 0 });
+  const [activePanel, setActivePanel] = useState<PlayerPanel | null>(null);
+  const [showOpenUrl, setShowOpenUrl] = useState(false);
+  // Set to reopen a stream whose sign-in wasn't kept.
+  const [signInFile, setSignInFile] = useState<MediaFile | undefined>();
+
+  const currentFile = useMediaFile(currentFileId);
+  const videoUri = currentFile?.uri ?? null;
+  const currentFileName = currentFile?.name ?? '';
+
+  const subtitles = useSubtitles(currentFile);
+  const subtitleAppearance = useSubtitleAppearance();
+  const resume = useResumePosition(currentFile);
+  const [filePreferences, updateFilePreferences] = useFilePreferences(currentFile);
+  const aspectMode = filePreferences.aspectMode ?? 'fit';
+  const videoFrame = getVideoFrame(aspectMode, videoArea);
+  const playbackSpeed = usePlaybackSpeed(currentFile);
+  // The engine records the duration in the library once the file has loaded.
+  const loop = useLoop(currentFile, currentFile?.duration ?? 0);
+  const normalizationVolume = useNormalizationVolume(currentFile);
+  const sleepTimer = useSleepTimer();
+
+  const playback = useMediaPlayback(
+    'player',
+    currentFile,
+    () => videoRef.current && createAVBackend(videoRef.current),
+    {
+      rate: playbackSpeed.speed,
+      shouldCorrectPitch: playbackSpeed.pitchCorrection,
+      volume: volume * normalizationVolume * getSleepTimerVolume(sleepTimer),
+      isLooping: loop.mode === 'one',
+      progressUpdateIntervalMillis: loop.mode === 'ab' ? 100 : 500,
+    }
+  );
+  const { isPlaying, positionMillis, durationMillis, bufferedMillis } = playback;
+  const audioGraph = useMediaElementGraph('player');
+  const equalizer = useEqualizer(currentFile, audioGraph);
+  const playbackError = playback.error && describePlaybackError(currentFile, playback.error);
+
+  const bookmarks = useBookmarks(currentFile);
+  const chapters = useChapters(currentFile);
+  const chapterIndex = findChapterIndex(chapters, positionMillis);
+  const isLoopSeekingRef = useRef(false);
 
   const controlsTimeoutRef = useRef<NodeJS.Timeout>();
+  const isScrubbingRef = useRef(false);
+
+  useEffect(() => {
+    if (fileId) {
+      setCurrentFileId(fileId);
+    }
+  }, [fileId]);
 
   useEffect(() => {
     resetControlsTimeout();
   }, [showControls]);
 
+  useEffect(() => {
+    setZoom(DEFAULT_ZOOM);
+  }, [currentFileId]);
+
+  // Leaving the tab (or unmounting) must not strand the app in landscape.
+  useFocusEffect(
+    useCallback(() => {
+      return () => {
+        exitFullscreen();
+      };
+    }, [])
+  );
+
+  useEffect(() => {
+    if (!isFullscreen) return;
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      exitFullscreen();
+      return true;
+    });
+    return () => subscription.remove();
+  }, [isFullscreen]);
+
   const resetControlsTimeout = () => {
     if (controlsTimeoutRef.current) {
       clearTimeout(controlsTimeoutRef.current);
     }
     controlsTimeoutRef.current = setTimeout(() => {
-      if (isPlaying) {
+      if (isPlaying && !isScrubbingRef.current) {
         setShowControls(false);
       }
     }, 3000);
   };
 
+  const startScrubbing = () => {
+    isScrubbingRef.current = true;
+    if (controlsTimeoutRef.current) {
+      clearTimeout(controlsTimeoutRef.current);
+    }
+  };
+
+  const stopScrubbing = () => {
+    isScrubbingRef.current = false;
+    resetControlsTimeout();
+  };
+
   const triggerHaptic = () => {
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
   };
 
+  const openUrl = async (media: NewMediaFile) => {
+    setShowOpenUrl(false);
+    setSignInFile(undefined);
+    const file = await addMediaFile(media);
+    setCurrentFileId(file.id);
+    triggerHaptic();
+  };
+
   const pickVideo = async () => {
     try {
       const result = await DocumentPicker.getDocumentAsync({
@@ -86,8 +227,13 @@ export default function PlayerScreen() {
 
       if (!result.canceled && result.assets[0]) {
         const asset = result.assets[0];
-        setVideoUri(asset.uri);
-        setCurrentFileName(asset.name || 'Unknown');
+        const file = await addMediaFile({
+          name: asset.name || 'Unknown',
+          uri: asset.uri,
+          type: asset.mimeType?.startsWith('audio/') ? 'audio' : 'video',
+          size: asset.size || 0,
+        });
+        setCurrentFileId(file.id);
         triggerHaptic();
       }
     } catch (error) {
@@ -97,68 +243,99 @@ export default function PlayerScreen() {
 
   const togglePlayPause = async () => {
     triggerHaptic();
-    if (videoRef.current) {
-      if (isPlaying) {
-        await videoRef.current.pauseAsync();
-      } else {
-        await videoRef.current.playAsync();
-      }
-    }
+    await playback.togglePlayPause();
     setShowControls(true);
     resetControlsTimeout();
   };
 
-  const changeSpeed = () => {
+  const togglePanel = (panel: PlayerPanel) => {
     triggerHaptic();
-    const speeds = Object.keys(PLAYBACK_SPEEDS);
-    const currentIndex = speeds.indexOf(currentSpeed);
-    const nextIndex = (currentIndex + 1) % speeds.length;
-    const nextSpeed = speeds[nextIndex];
-    
-    setCurrentSpeed(nextSpeed);
-    
-    if (videoRef.current) {
-      videoRef.current.setRateAsync(PLAYBACK_SPEEDS[nextSpeed], true);
-    }
+    setActivePanel(activePanel === panel ? null : panel);
     setShowControls(true);
     resetControlsTimeout();
   };
 
+  const closePanel = () => setActivePanel(null);
+
   const seekBackward = async () => {
     triggerHaptic();
-    if (videoRef.current && 'positionMillis' in status) {
-      const newPosition = Math.max(0, (status.positionMillis || 0) - 10000);
-      await videoRef.current.setPositionAsync(newPosition);
-    }
+    await playback.seek(positionMillis - 10000);
     setShowControls(true);
     resetControlsTimeout();
   };
 
   const seekForward = async () => {
     triggerHaptic();
-    if (videoRef.current && 'positionMillis' in status && 'durationMillis' in status) {
-      const newPosition = Math.min(
-        status.durationMillis || 0,
-        (status.positionMillis || 0) + 10000
-      );
-      await videoRef.current.setPositionAsync(newPosition);
-    }
+    await playback.seek(positionMillis + 10000);
     setShowControls(true);
     resetControlsTimeout();
   };
 
+  const previousChapter = () => {
+    triggerHaptic();
+    seekTo(getPreviousChapterStart(chapters, positionMillis));
+  };
+
+  const nextChapter = () => {
+    const start = getNextChapterStart(chapters, positionMillis);
+    if (start === null) return;
+    triggerHaptic();
+    seekTo(start);
+  };
+
+  const seekTo = async (positionMillis: number) => {
+    await playback.seek(positionMillis);
+    if (showControls) {
+      resetControlsTimeout();
+    }
+  };
+
   const toggleFullscreen = () => {
     triggerHaptic();
-    setIsFullscreen(!isFullscreen);
+    if (isFullscreen) {
+      exitFullscreen();
+    } else {
+      enterFullscreen(naturalSize);
+    }
     setShowControls(true);
     resetControlsTimeout();
   };
 
-  const formatTime = (millis: number) => {
-    const totalSeconds = Math.floor(millis / 1000);
-    const minutes = Math.floor(totalSeconds / 60);
-    const seconds = totalSeconds % 60;
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const cycleAspectMode = () => {
+    triggerHaptic();
+    updateFilePreferences({ aspectMode: nextAspectMode(aspectMode) });
+    setZoom(DEFAULT_ZOOM);
+    setShowControls(true);
+    resetControlsTimeout();
+  };
+
+  const onVideoAreaLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setVideoArea({ width, height });
+  };
+
+  // First press marks A, second marks B and starts looping, third clears.
+  const handleABPress = () => {
+    triggerHaptic();
+    if (loop.range) {
+      loop.clearRange();
+    } else if (loop.pointA !== null) {
+      if (!loop.markB(positionMillis)) {
+        Alert.alert('A–B Repeat', 'Point B must come after point A');
+      }
+    } else {
+      loop.markA(positionMillis);
+    }
+    setShowControls(true);
+    resetControlsTimeout();
+  };
+
+  const resumePlayback = async () => {
+    triggerHaptic();
+    if (resume.resumePosition !== null) {
+      await playback.seek(resume.resumePosition);
+    }
+    resume.dismissResume();
   };
 
   const handleVideoTap = () => {
@@ -168,13 +345,29 @@ export default function PlayerScreen() {
     }
   };
 
-  const onPlaybackStatusUpdate = (playbackStatus: AVPlaybackStatus) => {
-    setStatus(playbackStatus);
-    if ('isLoaded' in playbackStatus) {
-      setIsPlaying(playbackStatus.isPlaying || false);
-    }
+  const onReadyForDisplay = (event: VideoReadyForDisplayEvent) => {
+    setNaturalSize(event.naturalSize);
   };
 
+  usePlaybackEvent('progress', (snapshot) => {
+    if (snapshot.file?.id !== currentFile?.id) return;
+    // Status updates keep arriving while the seek is in flight; only jump once.
+    const loopBackTo = loop.getLoopBackPosition(snapshot.positionMillis);
+    if (loopBackTo !== null && !isLoopSeekingRef.current) {
+      isLoopSeekingRef.current = true;
+      seekTo(loopBackTo).finally(() => {
+        isLoopSeekingRef.current = false;
+      });
+    }
+  });
+
+  // A loop that ends where the file does sees `ended` first; seeking back alone leaves it paused.
+  usePlaybackEvent('ended', async ({ file }) => {
+    if (file.id !== currentFile?.id || loop.mode !== 'ab' || !loop.range) return;
+    await seekTo(loop.range.start);
+    await playbackEngine.play();
+  });
+
   return (
     <View style={styles.container}>
       <LinearGradient
@@ -196,45 +389,88 @@ export default function PlayerScreen() {
             <TouchableOpacity style={styles.selectButton} onPress={pickVideo}>
               <Text style={styles.selectButtonText}>Select Media File</Text>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.urlButton} onPress={() => setShowOpenUrl(true)}>
+              <Globe size={16} color="#E2E8F0" />
+              <Text style={styles.urlButtonText}>Open URL</Text>
+            </TouchableOpacity>
           </LinearGradient>
         </View>
       ) : (
         <View style={[styles.videoContainer, isFullscreen && styles.fullscreenContainer]}>
-          <TouchableOpacity 
-            style={styles.videoTouchArea} 
-            onPress={handleVideoTap}
-            activeOpacity={1}
+          <GestureLayer
+            positionMillis={positionMillis}
+            durationMillis={durationMillis}
+            volume={volume}
+            brightness={brightness}
+            onSeek={seekTo}
+            onVolumeChange={setVolume}
+            onBrightnessChange={setBrightness}
+            zoom={zoom}
+            onZoomChange={setZoom}
+            onTap={handleVideoTap}
           >
-            <Video
-              ref={videoRef}
-              source={{ uri: videoUri }}
-              style={styles.video}
-              useNativeControls={false}
-              resizeMode={ResizeMode.CONTAIN}
-              isLooping={false}
-              volume={volume}
-              onPlaybackStatusUpdate={onPlaybackStatusUpdate}
-            />
-          </TouchableOpacity>
+            <View style={styles.videoArea} onLayout={onVideoAreaLayout}>
+              <Video
+                ref={videoRef}
+                style={
+                  videoFrame.width
+                    ? { width: videoFrame.width, height: videoFrame.height }
+                    : styles.video
+                }
+                useNativeControls={false}
+                resizeMode={videoFrame.resizeMode}
+                onReadyForDisplay={onReadyForDisplay}
+              />
+            </View>
+          </GestureLayer>
+
+          {playback.isBuffering && (
+            <View style={styles.statusOverlay} pointerEvents="none">
+              <ActivityIndicator size="large" color="#FFFFFF" />
+              <Text style={styles.statusText}>
+                {playback.state === 'loading' ? 'Loading…' : 'Buffering…'}
+              </Text>
+            </View>
+          )}
+
+          <SubtitleOverlay
+            cues={subtitles.cues}
+            positionMillis={positionMillis}
+            appearance={subtitleAppearance}
+          />
 
           {showControls && (
-            <BlurView intensity={20} style={styles.controlsOverlay}>
+            <BlurView intensity={20} style={styles.controlsOverlay} pointerEvents="box-none">
               <LinearGradient
                 colors={['rgba(0,0,0,0.3)', 'rgba(0,0,0,0.7)']}
                 style={styles.controlsGradient}
+                pointerEvents="box-none"
               >
                 {/* Top Controls */}
-                <View style={styles.topControls}>
+                <View
+                  style={[styles.topControls, isLandscape && styles.topControlsLandscape]}
+                  pointerEvents="box-none"
+                >
                   <Text style={styles.fileName} numberOfLines={1}>
                     {currentFileName}
                   </Text>
                   <TouchableOpacity onPress={toggleFullscreen}>
-                    <Maximize size={24} color="#FFFFFF" />
+                    {isFullscreen ? (
+                      <Minimize size={24} color="#FFFFFF" />
+                    ) : (
+                      <Maximize size={24} color="#FFFFFF" />
+                    )}
                   </TouchableOpacity>
                 </View>
 
                 {/* Center Controls */}
-                <View style={styles.centerControls}>
+                <View style={styles.centerControls} pointerEvents="box-none">
+                  {chapters.length > 0 && (
+                    <TouchableOpacity style={styles.controlButton} onPress={previousChapter}>
+                      <SkipBack size={28} color="#FFFFFF" />
+                    </TouchableOpacity>
+                  )}
+
                   <TouchableOpacity style={styles.controlButton} onPress={seekBackward}>
                     <RotateCcw size={32} color="#FFFFFF" />
                     <Text style={styles.controlLabel}>-10s</Text>
@@ -252,36 +488,226 @@ export default function PlayerScreen() {
                     <RotateCw size={32} color="#FFFFFF" />
                     <Text style={styles.controlLabel}>+10s</Text>
                   </TouchableOpacity>
+
+                  {chapters.length > 0 && (
+                    <TouchableOpacity
+                      style={styles.controlButton}
+                      onPress={nextChapter}
+                      disabled={chapterIndex >= chapters.length - 1}
+                    >
+                      <SkipForward
+                        size={28}
+                        color={chapterIndex >= chapters.length - 1 ? '#64748B' : '#FFFFFF'}
+                      />
+                    </TouchableOpacity>
+                  )}
                 </View>
 
                 {/* Bottom Controls */}
-                <View style={styles.bottomControls}>
-                  <View style={styles.timeContainer}>
-                    <Text style={styles.timeText}>
-                      {'positionMillis' in status ? formatTime(status.positionMillis || 0) : '0:00'}
-                    </Text>
-                    <Text style={styles.timeText}>
-                      {'durationMillis' in status ? formatTime(status.durationMillis || 0) : '0:00'}
-                    </Text>
+                <View style={styles.bottomControls} pointerEvents="box-none">
+                  {sleepTimer && <SleepTimerCountdown timer={sleepTimer} />}
+
+                  <SeekBar
+                    positionMillis={positionMillis}
+                    durationMillis={durationMillis}
+                    bufferedMillis={bufferedMillis}
+                    loopRange={loop.range}
+                    loopStart={loop.pointA}
+                    onSeek={seekTo}
+                    onScrubStart={startScrubbing}
+                    onScrubEnd={stopScrubbing}
+                    onLoopRangeChange={loop.setRange}
+                    markers={bookmarks.bookmarks.map((bookmark) => bookmark.position)}
+                    chapters={chapters}
+                  />
+
+                  <View style={styles.timeContainer} pointerEvents="box-none">
+                    <Text style={styles.timeText}>{formatTime(positionMillis)}</Text>
+                    {chapterIndex >= 0 && (
+                      <TouchableOpacity
+                        style={styles.chapterButton}
+                        onPress={() => togglePanel('chapters')}
+                      >
+                        <Text style={styles.chapterText} numberOfLines={1}>
+                          {chapters[chapterIndex].title}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    <Text style={styles.timeText}>{formatTime(durationMillis)}</Text>
                   </View>
 
-                  <View style={styles.bottomButtonsContainer}>
-                    <TouchableOpacity style={styles.speedButton} onPress={changeSpeed}>
-                      <Text style={styles.speedText}>{currentSpeed}</Text>
+                  <View style={styles.bottomButtonsContainer} pointerEvents="box-none">
+                    <TouchableOpacity style={styles.speedButton} onPress={() => togglePanel('speed')}>
+                      <Text style={styles.speedText}>{formatSpeed(playbackSpeed.speed)}</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.speedButton} onPress={cycleAspectMode}>
+                      <Text style={styles.speedText}>{ASPECT_MODE_LABELS[aspectMode]}</Text>
                     </TouchableOpacity>
 
                     <TouchableOpacity style={styles.iconButton}>
                       <Volume2 size={20} color="#FFFFFF" />
                     </TouchableOpacity>
 
-                    <TouchableOpacity style={styles.iconButton}>
-                      <SettingsIcon size={20} color="#FFFFFF" />
+                    <TouchableOpacity
+                      style={[styles.speedButton, (loop.range || loop.pointA !== null) && styles.activeButton]}
+                      onPress={handleABPress}
+                      onLongPress={() => togglePanel('loop')}
+                    >
+                      <Text style={styles.speedText}>{loop.pointA !== null ? 'A…' : 'A–B'}</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.iconButton} onPress={() => togglePanel('loop')}>
+                      {loop.mode === 'one' ? (
+                        <Repeat1 size={20} color="#3B82F6" />
+                      ) : (
+                        <Repeat size={20} color={loop.mode === 'ab' ? '#FACC15' : '#FFFFFF'} />
+                      )}
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.iconButton} onPress={() => togglePanel('bookmarks')}>
+                      <BookmarkIcon size={20} color="#FFFFFF" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => currentFile && toggleFavorite(currentFile.id)}
+                    >
+                      <Heart
+                        size={20}
+                        color={currentFile?.favorite ? '#3B82F6' : '#FFFFFF'}
+                        fill={currentFile?.favorite ? '#3B82F6' : 'transparent'}
+                      />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.iconButton} onPress={() => togglePanel('subtitles')}>
+                      <Captions size={20} color="#FFFFFF" />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.iconButton} onPress={() => togglePanel('equalizer')}>
+                      <SlidersHorizontal size={20} color={equalizer.enabled ? '#3B82F6' : '#FFFFFF'} />
+                    </TouchableOpacity>
+
+                    <TouchableOpacity style={styles.iconButton} onPress={() => togglePanel('sleepTimer')}>
+                      <Moon size={20} color={sleepTimer ? '#3B82F6' : '#FFFFFF'} />
                     </TouchableOpacity>
                   </View>
                 </View>
               </LinearGradient>
             </BlurView>
           )}
+
+          {/* Drawn over the controls so Retry stays reachable. */}
+          {playbackError && (
+            <View style={styles.statusOverlay}>
+              <WifiOff size={40} color="#F87171" />
+              <Text style={styles.statusText}>{playbackError}</Text>
+              {currentFile && needsSignIn(currentFile) ? (
+                <TouchableOpacity
+                  style={styles.retryButton}
+                  onPress={() => setSignInFile(currentFile)}
+                >
+                  <Text style={styles.retryText}>Sign In</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity style={styles.retryButton} onPress={playback.reload}>
+                  <Text style={styles.retryText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {resume.resumePosition !== null && (
+            <View style={styles.resumeContainer}>
+              <ResumePrompt
+                position={resume.resumePosition}
+                onResume={resumePlayback}
+                onStartOver={resume.startOver}
+              />
+            </View>
+          )}
+
+          {activePanel === 'speed' && (
+            <SpeedPanel
+              speed={playbackSpeed.speed}
+              presets={playbackSpeed.presets}
+              pitchCorrection={playbackSpeed.pitchCorrection}
+              onSpeedChange={playbackSpeed.setSpeed}
+              onClose={closePanel}
+            />
+          )}
+
+          {activePanel === 'loop' && (
+            <LoopPanel
+              mode={loop.mode}
+              range={loop.range}
+              savedLoops={loop.savedLoops}
+              onModeChange={loop.setMode}
+              onSave={loop.saveLoop}
+              onClearRange={loop.clearRange}
+              onRecall={loop.recallLoop}
+              onDelete={loop.deleteLoop}
+              onClose={closePanel}
+            />
+          )}
+
+          {activePanel === 'bookmarks' && (
+            <BookmarkPanel
+              bookmarks={bookmarks.bookmarks}
+              positionMillis={positionMillis}
+              onAdd={bookmarks.add}
+              onJump={(bookmark) => seekTo(bookmark.position)}
+              onUpdateNote={bookmarks.updateNote}
+              onDelete={bookmarks.remove}
+              onExport={(format) =>
+                bookmarks.share(format).catch((error) => console.error('Error exporting bookmarks:', error))
+              }
+              onClose={closePanel}
+            />
+          )}
+
+          {activePanel === 'equalizer' && (
+            <EqualizerPanel
+              enabled={equalizer.enabled}
+              settings={equalizer.settings}
+              presets={equalizer.presets}
+              isTrackOverride={equalizer.isTrackOverride}
+              onTrackOverrideChange={equalizer.setTrackOverride}
+              onChange={equalizer.setSettings}
+              onClose={closePanel}
+            />
+          )}
+
+          {activePanel === 'sleepTimer' && (
+            <SleepTimerPanel
+              timer={sleepTimer}
+              chapterEndMillis={
+                chapterIndex >= 0 ? getChapterEnd(chapters, chapterIndex, durationMillis) : null
+              }
+              onClose={closePanel}
+            />
+          )}
+
+          {activePanel === 'chapters' && (
+            <ChapterPanel
+              chapters={chapters}
+              currentIndex={chapterIndex}
+              onSelect={(chapter) => seekTo(chapter.start)}
+              onClose={closePanel}
+            />
+          )}
+
+          {activePanel === 'subtitles' && (
+            <SubtitlePanel
+              enabled={subtitles.enabled}
+              source={subtitles.source}
+              error={subtitles.error}
+              appearance={subtitleAppearance}
+              onPick={subtitles.pickSubtitle}
+              onClear={subtitles.clearSubtitle}
+              onClose={closePanel}
+            />
+          )}
         </View>
       )}
 
@@ -293,12 +719,27 @@ export default function PlayerScreen() {
             <Text style={styles.actionButtonText}>Select File</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.actionButton}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setShowOpenUrl(true)}>
+            <Globe size={20} color="#3B82F6" />
+            <Text style={styles.actionButtonText}>Open URL</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.push('/library')}>
             <Library size={20} color="#3B82F6" />
             <Text style={styles.actionButtonText}>Recent</Text>
           </TouchableOpacity>
         </View>
       )}
+
+      <OpenUrlModal
+        visible={showOpenUrl || signInFile !== undefined}
+        onOpen={openUrl}
+        signInTo={signInFile}
+        onClose={() => {
+          setShowOpenUrl(false);
+          setSignInFile(undefined);
+        }}
+      />
     </View>
   );
 }
@@ -359,6 +800,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#FFFFFF',
   },
+  urlButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  urlButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
   videoContainer: {
     flex: 1,
     position: 'relative',
@@ -371,12 +823,51 @@ const styles = StyleSheet.create({
     bottom: 0,
     zIndex: 1000,
   },
-  videoTouchArea: {
+  videoArea: {
     flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
   },
   video: {
+    alignSelf: 'stretch',
     flex: 1,
   },
+  statusOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+    padding: 32,
+  },
+  statusText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+    textAlign: 'center',
+  },
+  retryButton: {
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  retryText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  resumeContainer: {
+    position: 'absolute',
+    top: 100,
+    left: 20,
+    right: 20,
+  },
   controlsOverlay: {
     position: 'absolute',
     top: 0,
@@ -395,6 +886,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 40,
   },
+  topControlsLandscape: {
+    marginTop: 0,
+  },
   fileName: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 16,
@@ -436,6 +930,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#E2E8F0',
   },
+  chapterButton: {
+    flex: 1,
+    alignItems: 'center',
+    marginHorizontal: 12,
+  },
+  chapterText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
   bottomButtonsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -454,6 +958,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#FFFFFF',
   },
+  activeButton: {
+    backgroundColor: 'rgba(250, 204, 21, 0.4)',
+    borderColor: '#FACC15',
+  },
   iconButton: {
     padding: 8,
   },
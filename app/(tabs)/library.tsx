@@ -1,16 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
+  ScrollView,
   TouchableOpacity,
   Image,
   Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system';
+import { router } from 'expo-router';
 import {
   Play,
   FileVideo,
@@ -19,32 +20,67 @@ import {
   MoreVertical,
   Clock,
   Trash2,
+  Globe,
+  Heart,
+  ListFilter,
+  Pencil,
 } from 'lucide-react-native';
-
-interface MediaFile {
-  id: string;
-  name: string;
-  uri: string;
-  type: 'video' | 'audio';
-  size: number;
-  duration?: number;
-  thumbnail?: string;
-  addedAt: Date;
-}
+import {
+  MediaFile,
+  addMediaFiles,
+  getDisplayTitle,
+  removeMediaFile as removeFromLibrary,
+  toggleFavorite,
+} from '@/lib/mediaLibrary';
+import { loadTagsForFiles } from '@/lib/tags';
+import { replaceQueue } from '@/lib/queue';
+import { clearHistory, removeSession } from '@/lib/playHistory';
+import { getWeekStart } from '@/lib/playStats';
+import { formatDuration } from '@/lib/format';
+import {
+  deleteSmartPlaylist,
+  describeSmartPlaylist,
+  getSmartPlaylistFiles,
+  saveSmartPlaylist,
+  SmartPlaylist,
+} from '@/lib/smartPlaylists';
+import { useMediaFiles } from '@/hooks/useMediaLibrary';
+import { useSmartPlaylistFiles, useSmartPlaylists } from '@/hooks/useSmartPlaylists';
+import { usePlayHistory } from '@/hooks/usePlayHistory';
+import { useArtworkResolver } from '@/hooks/useArtwork';
+import SmartPlaylistEditor from '@/components/SmartPlaylistEditor';
+import StatsDashboard from '@/components/StatsDashboard';
 
 export default function LibraryScreen() {
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const mediaFiles = useMediaFiles();
+  const resolveArtwork = useArtworkResolver();
   const [selectedType, setSelectedType] = useState<'all' | 'video' | 'audio'>('all');
+  const playlists = useSmartPlaylists();
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
+  const selectedPlaylist = playlists.find((playlist) => playlist.id === selectedPlaylistId);
+  const playlistFiles = useSmartPlaylistFiles(selectedPlaylist);
+  const [editingPlaylist, setEditingPlaylist] = useState<SmartPlaylist | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const sessions = usePlayHistory();
+  const [showStats, setShowStats] = useState(false);
 
-  useEffect(() => {
-    loadSavedFiles();
-  }, []);
+  const timeThisWeek = useMemo(() => {
+    const weekStart = getWeekStart(Date.now());
+    return sessions
+      .filter((session) => session.startedAt >= weekStart)
+      .reduce((total, session) => total + session.listenedMillis, 0);
+  }, [sessions]);
 
-  const loadSavedFiles = async () => {
-    // In a real app, you'd load from AsyncStorage or a database
-    // For demo purposes, we'll start with an empty array
-    setMediaFiles([]);
-  };
+  const playlistCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        playlists.map((playlist) => [
+          playlist.id,
+          getSmartPlaylistFiles(mediaFiles, playlist).length,
+        ])
+      ),
+    [playlists, mediaFiles]
+  );
 
   const addMediaFile = async () => {
     try {
@@ -55,16 +91,15 @@ export default function LibraryScreen() {
       });
 
       if (!result.canceled) {
-        const newFiles: MediaFile[] = result.assets.map((asset, index) => ({
-          id: `${Date.now()}-${index}`,
-          name: asset.name || 'Unknown',
-          uri: asset.uri,
-          type: asset.mimeType?.startsWith('video/') ? 'video' : 'audio',
-          size: asset.size || 0,
-          addedAt: new Date(),
-        }));
-
-        setMediaFiles(prev => [...prev, ...newFiles]);
+        const files = await addMediaFiles(
+          result.assets.map((asset) => ({
+            name: asset.name || 'Unknown',
+            uri: asset.uri,
+            type: asset.mimeType?.startsWith('video/') ? 'video' : 'audio',
+            size: asset.size || 0,
+          }))
+        );
+        loadTagsForFiles(files);
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to add media files');
@@ -81,13 +116,62 @@ export default function LibraryScreen() {
           text: 'Remove',
           style: 'destructive',
           onPress: () => {
-            setMediaFiles(prev => prev.filter(file => file.id !== id));
+            removeFromLibrary(id);
           },
         },
       ]
     );
   };
 
+  const openMediaFile = (file: MediaFile) => {
+    router.push({
+      pathname: file.type === 'video' ? '/' : '/audio',
+      params: { fileId: file.id },
+    });
+  };
+
+  const confirmClearHistory = () => {
+    Alert.alert('Clear History', 'Forget everything you have played? Stats start over.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: clearHistory },
+    ]);
+  };
+
+  const openEditor = (playlist: SmartPlaylist | null) => {
+    setEditingPlaylist(playlist);
+    setShowEditor(true);
+  };
+
+  const savePlaylist = (playlist: Omit<SmartPlaylist, 'id'> & { id?: string }) => {
+    setSelectedPlaylistId(saveSmartPlaylist(playlist));
+    setShowEditor(false);
+  };
+
+  const removePlaylist = (playlist: SmartPlaylist) => {
+    Alert.alert('Delete Playlist', `Delete "${playlist.name}"? Its files stay in your library.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          setSelectedPlaylistId(null);
+          deleteSmartPlaylist(playlist.id);
+        },
+      },
+    ]);
+  };
+
+  // The queue belongs to the audio player, so only the playlist's audio goes into it.
+  const playPlaylist = async (files: MediaFile[]) => {
+    const audio = files.filter((file) => file.type === 'audio');
+    if (audio.length === 0) {
+      if (files[0]) openMediaFile(files[0]);
+      return;
+    }
+    await replaceQueue(audio.map((file) => file.id));
+    router.push('/audio');
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 B';
     const k = 1024;
@@ -96,46 +180,77 @@ export default function LibraryScreen() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const filteredFiles = mediaFiles.filter(file => {
+  const sourceFiles = selectedPlaylist ? playlistFiles : mediaFiles;
+  const filteredFiles = sourceFiles.filter(file => {
     if (selectedType === 'all') return true;
     return file.type === selectedType;
   });
 
-  const renderMediaFile = ({ item }: { item: MediaFile }) => (
-    <TouchableOpacity style={styles.mediaItem}>
-      <View style={styles.mediaIcon}>
-        {item.type === 'video' ? (
-          <FileVideo size={24} color="#3B82F6" />
-        ) : (
-          <Music size={24} color="#10B981" />
-        )}
-      </View>
+  const renderMediaFile = ({ item }: { item: MediaFile }) => {
+    const artwork = resolveArtwork(item.thumbnail);
+    return (
+      <TouchableOpacity style={styles.mediaItem} onPress={() => openMediaFile(item)}>
+        <View style={styles.mediaIcon}>
+          {artwork ? (
+            <Image source={{ uri: artwork }} style={styles.mediaThumbnail} />
+          ) : item.remote ? (
+            <Globe size={24} color={item.type === 'video' ? '#3B82F6' : '#10B981'} />
+          ) : item.type === 'video' ? (
+            <FileVideo size={24} color="#3B82F6" />
+          ) : (
+            <Music size={24} color="#10B981" />
+          )}
+        </View>
       
-      <View style={styles.mediaInfo}>
-        <Text style={styles.mediaName} numberOfLines={1}>
-          {item.name}
-        </Text>
-        <View style={styles.mediaDetails}>
-          <Text style={styles.mediaSize}>{formatFileSize(item.size)}</Text>
-          <Text style={styles.mediaDot}>•</Text>
-          <Text style={styles.mediaDate}>
-            {item.addedAt.toLocaleDateString()}
+        <View style={styles.mediaInfo}>
+          <Text style={styles.mediaName} numberOfLines={1}>
+            {getDisplayTitle(item)}
           </Text>
+          <View style={styles.mediaDetails}>
+            {item.tags?.artist && (
+              <>
+                <Text style={styles.mediaSize} numberOfLines={1}>
+                  {item.tags.artist}
+                </Text>
+                <Text style={styles.mediaDot}>•</Text>
+              </>
+            )}
+            <Text style={styles.mediaSize}>
+              {item.remote ? (item.remote.format === 'hls' ? 'HLS Stream' : 'Stream') : formatFileSize(item.size)}
+            </Text>
+            <Text style={styles.mediaDot}>•</Text>
+            <Text style={styles.mediaDate}>
+              {item.addedAt.toLocaleDateString()}
+            </Text>
+          </View>
         </View>
-      </View>
 
-      <View style={styles.mediaActions}>
-        <TouchableOpacity style={styles.playButton}>
-          <Play size={16} color="#FFFFFF" />
-        </TouchableOpacity>
-        <TouchableOpacity 
-          style={styles.moreButton}
-          onPress={() => removeMediaFile(item.id)}
-        >
-          <MoreVertical size={16} color="#6B7280" />
-        </TouchableOpacity>
-      </View>
-    </TouchableOpacity>
+        <View style={styles.mediaActions}>
+          <TouchableOpacity style={styles.favoriteButton} onPress={() => toggleFavorite(item.id)}>
+            <Heart
+              size={16}
+              color={item.favorite ? '#F43F5E' : '#6B7280'}
+              fill={item.favorite ? '#F43F5E' : 'transparent'}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.playButton} onPress={() => openMediaFile(item)}>
+            <Play size={16} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.moreButton}
+            onPress={() => removeMediaFile(item.id)}
+          >
+            <MoreVertical size={16} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyPlaylist = () => (
+    <View style={styles.emptyContainer}>
+      <Text style={styles.emptySubtitle}>Nothing in your library matches these rules yet</Text>
+    </View>
   );
 
   const renderEmptyState = () => (
@@ -200,19 +315,80 @@ export default function LibraryScreen() {
         ))}
       </View>
 
+      {/* Smart Playlists */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.playlistScroll}
+        contentContainerStyle={styles.playlistRow}
+      >
+        {playlists.map((playlist) => {
+          const isSelected = playlist.id === selectedPlaylistId;
+          return (
+            <TouchableOpacity
+              key={playlist.id}
+              style={[styles.playlistChip, isSelected && styles.playlistChipActive]}
+              onPress={() => setSelectedPlaylistId(isSelected ? null : playlist.id)}
+            >
+              <ListFilter size={14} color={isSelected ? '#FFFFFF' : '#94A3B8'} />
+              <Text style={[styles.playlistChipText, isSelected && styles.filterTabTextActive]}>
+                {playlist.name}
+                <Text style={styles.filterCount}> ({playlistCounts[playlist.id] ?? 0})</Text>
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity style={styles.playlistChip} onPress={() => openEditor(null)}>
+          <Plus size={14} color="#94A3B8" />
+          <Text style={styles.playlistChipText}>New</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {selectedPlaylist && (
+        <View style={styles.playlistHeader}>
+          <View style={styles.playlistInfo}>
+            <Text style={styles.playlistName} numberOfLines={1}>
+              {selectedPlaylist.name}
+            </Text>
+            <Text style={styles.playlistRules} numberOfLines={2}>
+              {describeSmartPlaylist(selectedPlaylist)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.playButton, filteredFiles.length === 0 && styles.disabled]}
+            onPress={() => playPlaylist(filteredFiles)}
+            disabled={filteredFiles.length === 0}
+          >
+            <Play size={16} color="#FFFFFF" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.moreButton} onPress={() => openEditor(selectedPlaylist)}>
+            <Pencil size={16} color="#94A3B8" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.moreButton}
+            onPress={() => removePlaylist(selectedPlaylist)}
+          >
+            <Trash2 size={16} color="#94A3B8" />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Media List */}
       <FlatList
         data={filteredFiles}
         renderItem={renderMediaFile}
+        extraData={resolveArtwork}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.listContainer}
-        ListEmptyComponent={renderEmptyState}
+        ListEmptyComponent={
+          selectedPlaylist && mediaFiles.length > 0 ? renderEmptyPlaylist : renderEmptyState
+        }
         showsVerticalScrollIndicator={false}
       />
 
       {/* Stats Bar */}
       {mediaFiles.length > 0 && (
-        <View style={styles.statsBar}>
+        <TouchableOpacity style={styles.statsBar} onPress={() => setShowStats(true)}>
           <View style={styles.statItem}>
             <FileVideo size={16} color="#6B7280" />
             <Text style={styles.statText}>
@@ -225,8 +401,27 @@ export default function LibraryScreen() {
               {mediaFiles.filter(f => f.type === 'audio').length} Audio
             </Text>
           </View>
-        </View>
+          <View style={styles.statItem}>
+            <Clock size={16} color="#6B7280" />
+            <Text style={styles.statText}>{formatDuration(timeThisWeek)} this week</Text>
+          </View>
+        </TouchableOpacity>
       )}
+
+      <StatsDashboard
+        visible={showStats}
+        sessions={sessions}
+        onRemoveSession={removeSession}
+        onClearHistory={confirmClearHistory}
+        onClose={() => setShowStats(false)}
+      />
+
+      <SmartPlaylistEditor
+        visible={showEditor}
+        playlist={editingPlaylist}
+        onSave={savePlaylist}
+        onClose={() => setShowEditor(false)}
+      />
     </View>
   );
 }
@@ -286,6 +481,57 @@ const styles = StyleSheet.create({
   filterCount: {
     opacity: 0.7,
   },
+  playlistScroll: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  playlistRow: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  playlistChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(75, 85, 99, 0.6)',
+  },
+  playlistChipActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  playlistChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#94A3B8',
+  },
+  playlistHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginBottom: 16,
+  },
+  playlistInfo: {
+    flex: 1,
+  },
+  playlistName: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  playlistRules: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
   listContainer: {
     padding: 20,
     paddingTop: 0,
@@ -309,6 +555,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
     marginRight: 12,
+    overflow: 'hidden',
+  },
+  mediaThumbnail: {
+    width: '100%',
+    height: '100%',
   },
   mediaInfo: {
     flex: 1,
@@ -349,6 +600,9 @@ const styles = StyleSheet.create({
     padding: 8,
     borderRadius: 8,
   },
+  favoriteButton: {
+    padding: 8,
+  },
   moreButton: {
     padding: 8,
   },
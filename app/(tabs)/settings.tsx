@@ -20,7 +20,25 @@ import {
   Headphones,
   Eye,
   Battery,
+  RotateCcw,
+  RotateCw,
+  SlidersHorizontal,
+  Blend,
+  AudioLines,
 } from 'lucide-react-native';
+import { cycleSkipInterval, formatSkipInterval } from '@/lib/skipIntervals';
+import { findMatchingPreset } from '@/lib/equalizer';
+import { cycleCrossfade, formatCrossfade } from '@/lib/crossfade';
+import {
+  cycleNormalizationMode,
+  formatNormalizationMode,
+  formatUnleveledTracks,
+} from '@/lib/loudness';
+import { useSkipIntervals } from '@/hooks/useSkipIntervals';
+import { useEqualizer } from '@/hooks/useEqualizer';
+import { useCrossfade } from '@/hooks/useCrossfade';
+import { useNormalizationMode, useUnleveledTrackCount } from '@/hooks/useNormalization';
+import EqualizerPanel from '@/components/EqualizerPanel';
 
 interface SettingItem {
   id: string;
@@ -42,6 +60,12 @@ export default function SettingsScreen() {
     backgroundPlayback: true,
     autoQualityAdjust: true,
   });
+  const skipIntervals = useSkipIntervals();
+  const equalizer = useEqualizer(undefined, null);
+  const [showEqualizer, setShowEqualizer] = useState(false);
+  const crossfadeMillis = useCrossfade();
+  const normalizationMode = useNormalizationMode();
+  const unleveledTracks = formatUnleveledTracks(useUnleveledTrackCount());
 
   const updateSetting = (key: string, value: boolean) => {
     setSettings(prev => ({
@@ -78,6 +102,60 @@ export default function SettingsScreen() {
       value: settings.autoQualityAdjust,
       onToggle: (value) => updateSetting('autoQualityAdjust', value),
     },
+    {
+      id: 'skipBack',
+      title: 'Skip Back',
+      subtitle: `Jump back ${formatSkipInterval(skipIntervals.back)} in audio · tap to change`,
+      icon: <RotateCcw size={20} color="#10B981" />,
+      type: 'navigation',
+      onPress: () => cycleSkipInterval('back'),
+    },
+    {
+      id: 'skipForward',
+      title: 'Skip Forward',
+      subtitle: `Jump forward ${formatSkipInterval(skipIntervals.forward)} in audio · tap to change`,
+      icon: <RotateCw size={20} color="#10B981" />,
+      type: 'navigation',
+      onPress: () => cycleSkipInterval('forward'),
+    },
+  ];
+
+  const equalizerPreset = findMatchingPreset(equalizer.settings, equalizer.presets);
+  const audioSettings: SettingItem[] = [
+    {
+      id: 'equalizer',
+      title: 'Equalizer',
+      subtitle: equalizer.enabled
+        ? `${equalizerPreset?.name ?? 'Custom'} · applies to web playback`
+        : 'Off',
+      icon: <SlidersHorizontal size={20} color="#10B981" />,
+      type: 'navigation',
+      onPress: () => setShowEqualizer(true),
+    },
+    {
+      id: 'crossfade',
+      title: 'Crossfade',
+      subtitle:
+        crossfadeMillis === 0
+          ? 'Gapless · queued tracks follow on without a pause · tap to change'
+          : `Fade ${formatCrossfade(crossfadeMillis)} into the next track, except within an album · tap to change`,
+      icon: <Blend size={20} color="#10B981" />,
+      type: 'navigation',
+      onPress: cycleCrossfade,
+    },
+    {
+      id: 'normalization',
+      title: 'Volume Normalization',
+      subtitle:
+        normalizationMode === 'off'
+          ? 'Off · tap to level tracks by ReplayGain or measured loudness'
+          : [`${formatNormalizationMode(normalizationMode)} gain`, unleveledTracks, 'tap to change']
+              .filter(Boolean)
+              .join(' · '),
+      icon: <AudioLines size={20} color="#10B981" />,
+      type: 'navigation',
+      onPress: cycleNormalizationMode,
+    },
   ];
 
   const interfaceSettings: SettingItem[] = [
@@ -196,6 +274,7 @@ export default function SettingsScreen() {
         showsVerticalScrollIndicator={false}
       >
         {renderSection('Playback', playbackSettings)}
+        {renderSection('Audio', audioSettings)}
         {renderSection('Interface', interfaceSettings)}
         {renderSection('Performance', performanceSettings)}
         {renderSection('App', appSettings)}
@@ -209,7 +288,7 @@ export default function SettingsScreen() {
             <Text style={styles.featureTitle}>Professional Features</Text>
             <Text style={styles.featureSubtitle}>
               • Support for 4K, 2K video playback{'\n'}
-              • Variable speed control (0.5x - 4x){'\n'}
+              • Variable speed control (0.25x - 4x){'\n'}
               • Multiple format support (MP4, MKV, MP3){'\n'}
               • Advanced audio visualization{'\n'}
               • Gesture-based controls
@@ -217,6 +296,17 @@ export default function SettingsScreen() {
           </LinearGradient>
         </View>
       </ScrollView>
+
+      {showEqualizer && (
+        <EqualizerPanel
+          enabled={equalizer.enabled}
+          settings={equalizer.settings}
+          presets={equalizer.presets}
+          accentColor="#10B981"
+          onChange={equalizer.setSettings}
+          onClose={() => setShowEqualizer(false)}
+        />
+      )}
     </View>
   );
 }
@@ -1,7 +1,12 @@
 import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useFrameworkReady } from '@/hooks/useFrameworkReady';
+import { useIsFullscreen } from '@/hooks/useFullscreen';
+import { lockPortrait } from '@/lib/fullscreen';
+import { startCountingPlays } from '@/lib/playCounts';
+import { startRecordingHistory } from '@/lib/playHistory';
 import { useFonts } from 'expo-font';
 import {
   Inter_400Regular,
@@ -15,6 +20,7 @@ SplashScreen.preventAutoHideAsync();
 
 export default function RootLayout() {
   useFrameworkReady();
+  const isFullscreen = useIsFullscreen();
 
   const [fontsLoaded, fontError] = useFonts({
     'Inter-Regular': Inter_400Regular,
@@ -23,6 +29,14 @@ export default function RootLayout() {
     'Inter-Bold': Inter_700Bold,
   });
 
+  useEffect(() => {
+    lockPortrait();
+  }, []);
+
+  useEffect(() => startCountingPlays(), []);
+
+  useEffect(() => startRecordingHistory(), []);
+
   useEffect(() => {
     if (fontsLoaded || fontError) {
       SplashScreen.hideAsync();
@@ -34,12 +48,12 @@ export default function RootLayout() {
   }
 
   return (
-    <>
+    <GestureHandlerRootView style={{ flex: 1 }}>
       <Stack screenOptions={{ headerShown: false }}>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
         <Stack.Screen name="+not-found" />
       </Stack>
-      <StatusBar style="light" />
-    </>
+      <StatusBar style="light" hidden={isFullscreen} animated />
+    </GestureHandlerRootView>
   );
 }
\ No newline at end of file
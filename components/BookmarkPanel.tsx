@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Bookmark as BookmarkIcon, Pencil, Trash2, X } from 'lucide-react-native';
+import { formatTime } from '@/lib/format';
+import { Bookmark, BookmarkExportFormat } from '@/lib/bookmarks';
+
+interface BookmarkPanelProps {
+  bookmarks: Bookmark[];
+  positionMillis: number;
+  accentColor?: string;
+  onAdd: (position: number, note: string) => void;
+  onJump: (bookmark: Bookmark) => void;
+  onUpdateNote: (id: string, note: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (format: BookmarkExportFormat) => void;
+  onClose: () => void;
+}
+
+const EXPORT_OPTIONS: { format: BookmarkExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'chapters', label: 'Chapters' },
+];
+
+export default function BookmarkPanel({
+  bookmarks,
+  positionMillis,
+  accentColor = '#3B82F6',
+  onAdd,
+  onJump,
+  onUpdateNote,
+  onDelete,
+  onExport,
+  onClose,
+}: BookmarkPanelProps) {
+  const [note, setNote] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingNote, setEditingNote] = useState('');
+
+  const addBookmark = () => {
+    onAdd(positionMillis, note);
+    setNote('');
+  };
+
+  const startEditing = (bookmark: Bookmark) => {
+    setEditingId(bookmark.id);
+    setEditingNote(bookmark.note);
+  };
+
+  const finishEditing = () => {
+    if (editingId) onUpdateNote(editingId, editingNote);
+    setEditingId(null);
+  };
+
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <BookmarkIcon size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Bookmarks</Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={styles.input}
+          value={note}
+          onChangeText={setNote}
+          placeholder="Note (optional)"
+          placeholderTextColor="#64748B"
+          onSubmitEditing={addBookmark}
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.addButton, { backgroundColor: accentColor }]}
+          onPress={addBookmark}
+        >
+          <Text style={styles.addButtonText}>Add at {formatTime(positionMillis)}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {bookmarks.length === 0 ? (
+        <Text style={styles.hint}>No bookmarks for this file yet</Text>
+      ) : (
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          {bookmarks.map((bookmark, index) => (
+            <View key={bookmark.id} style={styles.item}>
+              <TouchableOpacity style={styles.itemMain} onPress={() => onJump(bookmark)}>
+                <Text style={[styles.itemTime, { color: accentColor }]}>
+                  {formatTime(bookmark.position)}
+                </Text>
+                {editingId === bookmark.id ? (
+                  <TextInput
+                    style={[styles.input, styles.itemInput]}
+                    value={editingNote}
+                    onChangeText={setEditingNote}
+                    onSubmitEditing={finishEditing}
+                    onBlur={finishEditing}
+                    autoFocus
+                    returnKeyType="done"
+                  />
+                ) : (
+                  <Text style={styles.itemNote} numberOfLines={2}>
+                    {bookmark.note || `Bookmark ${index + 1}`}
+                  </Text>
+                )}
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.itemAction} onPress={() => startEditing(bookmark)}>
+                <Pencil size={16} color="#94A3B8" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.itemAction} onPress={() => onDelete(bookmark.id)}>
+                <Trash2 size={16} color="#94A3B8" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      )}
+
+      {bookmarks.length > 0 && (
+        <View style={styles.exportRow}>
+          <Text style={styles.hint}>Export</Text>
+          {EXPORT_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.format}
+              style={styles.exportButton}
+              onPress={() => onExport(option.format)}
+            >
+              <Text style={styles.exportText}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#FFFFFF',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  addButton: {
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+    borderRadius: 8,
+  },
+  addButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  list: {
+    maxHeight: 200,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(75, 85, 99, 0.3)',
+  },
+  itemMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  itemTime: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    minWidth: 48,
+  },
+  itemNote: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  itemInput: {
+    paddingVertical: 4,
+  },
+  itemAction: {
+    padding: 8,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  exportButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  exportText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,125 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { ListVideo, X } from 'lucide-react-native';
+import { formatTime } from '@/lib/format';
+import { Chapter } from '@/lib/chapters';
+
+interface ChapterPanelProps {
+  chapters: Chapter[];
+  currentIndex: number;
+  accentColor?: string;
+  onSelect: (chapter: Chapter) => void;
+  onClose: () => void;
+}
+
+export default function ChapterPanel({
+  chapters,
+  currentIndex,
+  accentColor = '#3B82F6',
+  onSelect,
+  onClose,
+}: ChapterPanelProps) {
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <ListVideo size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Chapters</Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {chapters.length === 0 ? (
+        <Text style={styles.hint}>This file has no chapters</Text>
+      ) : (
+        <ScrollView style={styles.list}>
+          {chapters.map((chapter, index) => (
+            <TouchableOpacity
+              key={`${chapter.start}-${index}`}
+              style={styles.item}
+              onPress={() => onSelect(chapter)}
+            >
+              <Text
+                style={[styles.itemTime, index === currentIndex && { color: accentColor }]}
+              >
+                {formatTime(chapter.start)}
+              </Text>
+              <Text
+                style={[styles.itemTitle, index === currentIndex && styles.itemTitleActive]}
+                numberOfLines={1}
+              >
+                {chapter.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  list: {
+    maxHeight: 240,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(75, 85, 99, 0.3)',
+  },
+  itemTime: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#94A3B8',
+    minWidth: 56,
+  },
+  itemTitle: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  itemTitleActive: {
+    fontFamily: 'Inter-SemiBold',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,368 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Switch,
+  ScrollView,
+  TextInput,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { SlidersHorizontal, X } from 'lucide-react-native';
+import {
+  BUILT_IN_PRESETS,
+  clampGain,
+  deleteEqualizerPreset,
+  EQ_FREQUENCIES,
+  EqualizerPreset,
+  EqualizerSettings,
+  findMatchingPreset,
+  formatFrequency,
+  formatGain,
+  MAX_GAIN,
+  MIN_GAIN,
+  saveEqualizerPreset,
+  setEqualizerEnabled,
+  withBandGain,
+  withPreamp,
+} from '@/lib/equalizer';
+import { isWebAudioSupported } from '@/lib/webAudio';
+
+interface EqualizerPanelProps {
+  enabled: boolean;
+  settings: EqualizerSettings;
+  presets: EqualizerPreset[];
+  /** Only offered when the panel is opened for a particular file. */
+  isTrackOverride?: boolean;
+  onTrackOverrideChange?: (enabled: boolean) => void;
+  accentColor?: string;
+  onChange: (settings: EqualizerSettings) => void;
+  onClose: () => void;
+}
+
+const SLIDER_HEIGHT = 120;
+const THUMB_SIZE = 14;
+
+interface BandSliderProps {
+  label: string;
+  gain: number;
+  accentColor: string;
+  disabled: boolean;
+  onChange: (gain: number) => void;
+}
+
+/** A vertical fader; 0 dB sits in the middle and a double tap returns to it. */
+function BandSlider({ label, gain, accentColor, disabled, onChange }: BandSliderProps) {
+  // Dragging fires far more often than the stepped value changes; skip the repeats.
+  const update = (y: number) => {
+    const fraction = 1 - Math.min(1, Math.max(0, y / SLIDER_HEIGHT));
+    const next = clampGain(MIN_GAIN + fraction * (MAX_GAIN - MIN_GAIN));
+    if (next !== gain) onChange(next);
+  };
+
+  const drag = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .enabled(!disabled)
+    .onBegin((event) => update(event.y))
+    .onUpdate((event) => update(event.y));
+  const reset = Gesture.Tap()
+    .runOnJS(true)
+    .numberOfTaps(2)
+    .enabled(!disabled)
+    .onEnd(() => onChange(0));
+
+  const fraction = (gain - MIN_GAIN) / (MAX_GAIN - MIN_GAIN);
+  const thumbTop = (1 - fraction) * SLIDER_HEIGHT - THUMB_SIZE / 2;
+  const fillTop = Math.min(thumbTop, SLIDER_HEIGHT / 2 - THUMB_SIZE / 2) + THUMB_SIZE / 2;
+  const fillHeight = Math.abs(thumbTop + THUMB_SIZE / 2 - SLIDER_HEIGHT / 2);
+
+  return (
+    <View style={[styles.band, disabled && styles.bandDisabled]}>
+      <Text style={styles.bandGain}>{formatGain(gain)}</Text>
+      <GestureDetector gesture={Gesture.Exclusive(reset, drag)}>
+        <View style={styles.sliderTrack} hitSlop={{ left: 8, right: 8 }}>
+          <View style={styles.sliderRail} />
+          <View style={styles.sliderCenter} />
+          <View
+            style={[
+              styles.sliderFill,
+              { top: fillTop, height: fillHeight, backgroundColor: accentColor },
+            ]}
+          />
+          <View style={[styles.sliderThumb, { top: thumbTop, borderColor: accentColor }]} />
+        </View>
+      </GestureDetector>
+      <Text style={styles.bandLabel}>{label}</Text>
+    </View>
+  );
+}
+
+export default function EqualizerPanel({
+  enabled,
+  settings,
+  presets,
+  isTrackOverride,
+  onTrackOverrideChange,
+  accentColor = '#3B82F6',
+  onChange,
+  onClose,
+}: EqualizerPanelProps) {
+  const [presetName, setPresetName] = useState('');
+  const selectedPreset = findMatchingPreset(settings, presets);
+  const isBuiltIn = (preset: EqualizerPreset) =>
+    BUILT_IN_PRESETS.some((builtIn) => builtIn.id === preset.id);
+
+  const savePreset = () => {
+    if (!presetName.trim()) return;
+    saveEqualizerPreset(presetName, settings);
+    setPresetName('');
+  };
+
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <SlidersHorizontal size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Equalizer</Text>
+        </View>
+        <View style={styles.headerActions}>
+          <Switch
+            value={enabled}
+            onValueChange={setEqualizerEnabled}
+            trackColor={{ false: '#374151', true: accentColor }}
+            thumbColor={enabled ? '#FFFFFF' : '#9CA3AF'}
+          />
+          <TouchableOpacity onPress={onClose}>
+            <X size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {!isWebAudioSupported() && (
+        <Text style={styles.hint}>The equalizer is applied when playing in the web build.</Text>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.presets}>
+          {presets.map((preset) => (
+            <TouchableOpacity
+              key={preset.id}
+              style={[
+                styles.preset,
+                preset.id === selectedPreset?.id && {
+                  backgroundColor: accentColor,
+                  borderColor: accentColor,
+                },
+              ]}
+              onPress={() => onChange({ preamp: preset.preamp, gains: [...preset.gains] })}
+              onLongPress={() => !isBuiltIn(preset) && deleteEqualizerPreset(preset.id)}
+            >
+              <Text style={styles.presetText}>{preset.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+
+      <View style={styles.bands}>
+        <BandSlider
+          label="Pre"
+          gain={settings.preamp}
+          accentColor="#FACC15"
+          disabled={!enabled}
+          onChange={(gain) => onChange(withPreamp(settings, gain))}
+        />
+        <View style={styles.bandDivider} />
+        {EQ_FREQUENCIES.map((frequency, index) => (
+          <BandSlider
+            key={frequency}
+            label={formatFrequency(frequency)}
+            gain={settings.gains[index] ?? 0}
+            accentColor={accentColor}
+            disabled={!enabled}
+            onChange={(gain) => onChange(withBandGain(settings, index, gain))}
+          />
+        ))}
+      </View>
+      <Text style={styles.hint}>
+        Double-tap a slider to reset it · long-press a saved preset to delete it
+      </Text>
+
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          value={presetName}
+          onChangeText={setPresetName}
+          placeholder="Preset name"
+          placeholderTextColor="#64748B"
+          onSubmitEditing={savePreset}
+        />
+        <TouchableOpacity onPress={savePreset} disabled={!presetName.trim()}>
+          <Text style={[styles.link, !presetName.trim() && styles.linkDisabled]}>Save preset</Text>
+        </TouchableOpacity>
+      </View>
+
+      {onTrackOverrideChange && (
+        <View style={styles.row}>
+          <View>
+            <Text style={styles.label}>Only for This Track</Text>
+            <Text style={styles.hint}>Keep a separate curve for this file</Text>
+          </View>
+          <Switch
+            value={!!isTrackOverride}
+            onValueChange={onTrackOverrideChange}
+            trackColor={{ false: '#374151', true: accentColor }}
+            thumbColor={isTrackOverride ? '#FFFFFF' : '#9CA3AF'}
+          />
+        </View>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  presets: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  presetText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  bands: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  band: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  bandDisabled: {
+    opacity: 0.4,
+  },
+  bandDivider: {
+    width: 1,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  bandGain: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 10,
+    color: '#CBD5E1',
+  },
+  bandLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 10,
+    color: '#94A3B8',
+  },
+  sliderTrack: {
+    width: THUMB_SIZE,
+    height: SLIDER_HEIGHT,
+    alignItems: 'center',
+  },
+  sliderRail: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(148, 163, 184, 0.3)',
+  },
+  sliderCenter: {
+    position: 'absolute',
+    top: SLIDER_HEIGHT / 2 - 1,
+    width: 10,
+    height: 2,
+    backgroundColor: 'rgba(148, 163, 184, 0.6)',
+  },
+  sliderFill: {
+    position: 'absolute',
+    width: 4,
+    borderRadius: 2,
+  },
+  sliderThumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 2,
+    backgroundColor: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#FFFFFF',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  label: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+});
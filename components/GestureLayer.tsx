@@ -0,0 +1,383 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { Volume2, Sun, Rewind, FastForward } from 'lucide-react-native';
+import { formatTime } from '@/lib/format';
+
+export interface ZoomState {
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+export const DEFAULT_ZOOM: ZoomState = { scale: 1, translateX: 0, translateY: 0 };
+
+interface GestureLayerProps {
+  positionMillis: number;
+  durationMillis: number;
+  volume: number;
+  brightness: number;
+  zoom: ZoomState;
+  onSeek: (positionMillis: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onBrightnessChange: (brightness: number) => void;
+  onZoomChange: (zoom: ZoomState) => void;
+  onTap: () => void;
+  children: React.ReactNode;
+}
+
+type Side = 'left' | 'right';
+
+type PanState =
+  | { mode: 'seek'; target: number; delta: number }
+  | { mode: 'volume'; value: number }
+  | { mode: 'brightness'; value: number };
+
+const SKIP_SECONDS = 10;
+const SKIP_RESET_DELAY = 800;
+/** A swipe across the full width never seeks further than this. */
+const MAX_SWIPE_SEEK = 120000;
+/** Brightness is a dimming overlay, so it can't go all the way to black. */
+export const MIN_BRIGHTNESS = 0.15;
+const MAX_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export default function GestureLayer({
+  positionMillis,
+  durationMillis,
+  volume,
+  brightness,
+  zoom,
+  onSeek,
+  onVolumeChange,
+  onBrightnessChange,
+  onZoomChange,
+  onTap,
+  children,
+}: GestureLayerProps) {
+  const [size, setSize] = useState({ width: 1, height: 1 });
+  const [panState, setPanState] = useState<PanState | null>(null);
+  const [skip, setSkip] = useState<{ side: Side; seconds: number } | null>(null);
+
+  const panStartRef = useRef<{ mode: PanState['mode']; value: number } | null>(null);
+  const seekTargetRef = useRef<number | null>(null);
+  const skipRef = useRef<{ side: Side; base: number; seconds: number } | null>(null);
+  const skipTimeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const zoomStartRef = useRef<ZoomState>(zoom);
+  const zoomRef = useRef<ZoomState>(zoom);
+  zoomRef.current = zoom;
+
+  useEffect(() => {
+    return () => {
+      if (skipTimeoutRef.current) clearTimeout(skipTimeoutRef.current);
+    };
+  }, []);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  // Repeated taps on the same side keep adding to one jump measured from
+  // where the first tap happened, so stale status updates can't lose a skip.
+  const skipBy = (side: Side) => {
+    const current = skipRef.current;
+    const continuing = current !== null && current.side === side;
+    const base = continuing ? current.base : positionMillis;
+    const seconds = (continuing ? current.seconds : 0) + SKIP_SECONDS;
+    const direction = side === 'left' ? -1 : 1;
+
+    skipRef.current = { side, base, seconds };
+    setSkip({ side, seconds });
+    onSeek(clamp(base + direction * seconds * 1000, 0, durationMillis));
+
+    if (skipTimeoutRef.current) clearTimeout(skipTimeoutRef.current);
+    skipTimeoutRef.current = setTimeout(() => {
+      skipRef.current = null;
+      setSkip(null);
+    }, SKIP_RESET_DELAY);
+  };
+
+  const sideOf = (x: number): Side => (x < size.width / 2 ? 'left' : 'right');
+
+  // Keep the zoomed picture covering the frame: it may only move by the
+  // amount it overflows on each side.
+  const clampZoom = (scale: number, translateX: number, translateY: number): ZoomState => {
+    if (scale <= 1.05) return DEFAULT_ZOOM;
+    const maxX = ((scale - 1) * size.width) / 2;
+    const maxY = ((scale - 1) * size.height) / 2;
+    return {
+      scale,
+      translateX: clamp(translateX, -maxX, maxX),
+      translateY: clamp(translateY, -maxY, maxY),
+    };
+  };
+
+  const pinch = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      zoomStartRef.current = zoomRef.current;
+    })
+    .onUpdate((event) => {
+      const start = zoomStartRef.current;
+      const scale = clamp(start.scale * event.scale, 1, MAX_ZOOM);
+      onZoomChange(clampZoom(scale, zoomRef.current.translateX, zoomRef.current.translateY));
+    });
+
+  // Moving a zoomed picture takes two fingers so one-finger swipes keep
+  // their seek, volume and brightness meaning.
+  const zoomPan = Gesture.Pan()
+    .runOnJS(true)
+    .minPointers(2)
+    .onStart(() => {
+      zoomStartRef.current = zoomRef.current;
+    })
+    .onUpdate((event) => {
+      const start = zoomStartRef.current;
+      if (zoomRef.current.scale <= 1) return;
+      onZoomChange(
+        clampZoom(
+          zoomRef.current.scale,
+          start.translateX + event.translationX,
+          start.translateY + event.translationY
+        )
+      );
+    });
+
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .maxPointers(1)
+    .minDistance(12)
+    .onStart((event) => {
+      if (Math.abs(event.translationX) > Math.abs(event.translationY)) {
+        panStartRef.current = durationMillis > 0 ? { mode: 'seek', value: positionMillis } : null;
+      } else if (sideOf(event.x) === 'right') {
+        panStartRef.current = { mode: 'volume', value: volume };
+      } else {
+        panStartRef.current = { mode: 'brightness', value: brightness };
+      }
+    })
+    .onUpdate((event) => {
+      const start = panStartRef.current;
+      if (!start) return;
+
+      if (start.mode === 'seek') {
+        const range = Math.min(durationMillis, MAX_SWIPE_SEEK);
+        const target = clamp(
+          start.value + (event.translationX / size.width) * range,
+          0,
+          durationMillis
+        );
+        seekTargetRef.current = target;
+        setPanState({ mode: 'seek', target, delta: target - start.value });
+        return;
+      }
+
+      // Dragging up by most of the height covers the full range.
+      const change = -event.translationY / (size.height * 0.8);
+      if (start.mode === 'volume') {
+        const value = clamp(start.value + change, 0, 1);
+        setPanState({ mode: 'volume', value });
+        onVolumeChange(value);
+      } else {
+        const value = clamp(start.value + change, MIN_BRIGHTNESS, 1);
+        setPanState({ mode: 'brightness', value });
+        onBrightnessChange(value);
+      }
+    })
+    .onEnd(() => {
+      if (seekTargetRef.current !== null) {
+        onSeek(seekTargetRef.current);
+      }
+    })
+    .onFinalize(() => {
+      panStartRef.current = null;
+      seekTargetRef.current = null;
+      setPanState(null);
+    });
+
+  const doubleTap = Gesture.Tap()
+    .runOnJS(true)
+    .numberOfTaps(2)
+    .onEnd((event, success) => {
+      if (success) skipBy(sideOf(event.x));
+    });
+
+  const singleTap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd((event, success) => {
+      if (!success) return;
+      // While a skip is still showing, single taps on that side keep skipping.
+      if (skipRef.current && skipRef.current.side === sideOf(event.x)) {
+        skipBy(skipRef.current.side);
+      } else {
+        onTap();
+      }
+    });
+
+  const gesture = Gesture.Race(
+    Gesture.Simultaneous(pinch, zoomPan),
+    pan,
+    Gesture.Exclusive(doubleTap, singleTap)
+  );
+
+  const renderPanIndicator = () => {
+    if (!panState) return null;
+
+    if (panState.mode === 'seek') {
+      const sign = panState.delta < 0 ? '-' : '+';
+      return (
+        <View style={styles.indicator}>
+          <Text style={styles.indicatorTitle}>
+            {formatTime(panState.target)} / {formatTime(durationMillis)}
+          </Text>
+          <Text style={styles.indicatorSubtitle}>
+            {sign}
+            {formatTime(Math.abs(panState.delta))}
+          </Text>
+        </View>
+      );
+    }
+
+    const Icon = panState.mode === 'volume' ? Volume2 : Sun;
+    return (
+      <View style={styles.indicator}>
+        <Icon size={24} color="#FFFFFF" />
+        <View style={styles.levelTrack}>
+          <View style={[styles.levelFill, { width: `${Math.round(panState.value * 100)}%` }]} />
+        </View>
+        <Text style={styles.indicatorSubtitle}>{Math.round(panState.value * 100)}%</Text>
+      </View>
+    );
+  };
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View style={styles.container} onLayout={onLayout} collapsable={false}>
+        <View
+          style={[
+            styles.content,
+            {
+              transform: [
+                { translateX: zoom.translateX },
+                { translateY: zoom.translateY },
+                { scale: zoom.scale },
+              ],
+            },
+          ]}
+        >
+          {children}
+        </View>
+
+        <View
+          pointerEvents="none"
+          style={[styles.dimmer, { opacity: 1 - brightness }]}
+        />
+
+        {skip && (
+          <View
+            pointerEvents="none"
+            style={[styles.skipZone, skip.side === 'left' ? styles.skipLeft : styles.skipRight]}
+          >
+            {skip.side === 'left' ? (
+              <Rewind size={28} color="#FFFFFF" />
+            ) : (
+              <FastForward size={28} color="#FFFFFF" />
+            )}
+            <Text style={styles.skipText}>
+              {skip.side === 'left' ? '-' : '+'}
+              {skip.seconds}s
+            </Text>
+          </View>
+        )}
+
+        <View pointerEvents="none" style={styles.indicatorContainer}>
+          {renderPanIndicator()}
+        </View>
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+  content: {
+    flex: 1,
+  },
+  dimmer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: '#000000',
+  },
+  skipZone: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: '40%',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  skipLeft: {
+    left: 0,
+    borderTopRightRadius: 200,
+    borderBottomRightRadius: 200,
+  },
+  skipRight: {
+    right: 0,
+    borderTopLeftRadius: 200,
+    borderBottomLeftRadius: 200,
+  },
+  skipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  indicatorContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  indicator: {
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  indicatorTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: '#FFFFFF',
+  },
+  indicatorSubtitle: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  levelTrack: {
+    width: 120,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(148, 163, 184, 0.4)',
+  },
+  levelFill: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: '#3B82F6',
+  },
+});
@@ -0,0 +1,199 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Repeat, Trash2, X } from 'lucide-react-native';
+import { formatTime } from '@/lib/format';
+import { LOOP_MODE_LABELS, LoopMode, LoopRange, SavedLoop } from '@/lib/loops';
+
+interface LoopPanelProps {
+  mode: LoopMode;
+  range: LoopRange | null;
+  savedLoops: SavedLoop[];
+  onModeChange: (mode: LoopMode) => void;
+  onSave: () => void;
+  onClearRange: () => void;
+  onRecall: (loop: SavedLoop) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const MODES: LoopMode[] = ['off', 'one', 'ab'];
+
+export default function LoopPanel({
+  mode,
+  range,
+  savedLoops,
+  onModeChange,
+  onSave,
+  onClearRange,
+  onRecall,
+  onDelete,
+  onClose,
+}: LoopPanelProps) {
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <Repeat size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Repeat</Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.modes}>
+        {MODES.map((item) => (
+          <TouchableOpacity
+            key={item}
+            style={[
+              styles.mode,
+              item === mode && styles.modeActive,
+              item === 'ab' && !range && styles.modeDisabled,
+            ]}
+            onPress={() => onModeChange(item)}
+            disabled={item === 'ab' && !range}
+          >
+            <Text style={styles.modeText}>{LOOP_MODE_LABELS[item]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {range ? (
+        <View style={styles.row}>
+          <Text style={styles.label}>
+            A {formatTime(range.start)} → B {formatTime(range.end)}
+          </Text>
+          <View style={styles.rowActions}>
+            <TouchableOpacity onPress={onSave}>
+              <Text style={styles.link}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onClearRange}>
+              <Text style={styles.link}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ) : (
+        <Text style={styles.hint}>Use the A–B button to mark a segment to repeat</Text>
+      )}
+
+      {savedLoops.length > 0 && (
+        <>
+          <Text style={styles.sectionTitle}>Saved Loops</Text>
+          <ScrollView style={styles.list}>
+            {savedLoops.map((loop) => (
+              <View key={loop.id} style={styles.loopItem}>
+                <TouchableOpacity style={styles.loopLabel} onPress={() => onRecall(loop)}>
+                  <Text style={styles.label}>{loop.label}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => onDelete(loop.id)}>
+                  <Trash2 size={16} color="#94A3B8" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        </>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  modes: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  mode: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  modeActive: {
+    backgroundColor: '#3B82F6',
+    borderColor: '#3B82F6',
+  },
+  modeDisabled: {
+    opacity: 0.4,
+  },
+  modeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  label: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#94A3B8',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  list: {
+    maxHeight: 140,
+  },
+  loopItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(75, 85, 99, 0.3)',
+  },
+  loopLabel: {
+    flex: 1,
+  },
+});
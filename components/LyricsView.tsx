@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  LayoutChangeEvent,
+} from 'react-native';
+import { FileText } from 'lucide-react-native';
+import { countSungWords, findActiveLine, LyricLine, Lyrics } from '@/lib/lyrics';
+
+interface LyricsViewProps {
+  lyrics: Lyrics | null;
+  positionMillis: number;
+  /** Milliseconds the lyrics are shown ahead of the audio. */
+  offset: number;
+  accentColor?: string;
+  /** Whether the lyrics came from a file that can be removed again. */
+  canRemove: boolean;
+  error?: string | null;
+  onSeek: (positionMillis: number) => void;
+  onOffsetChange: (offset: number) => void;
+  onPick: () => void;
+  onRemove: () => void;
+}
+
+const OFFSET_STEP = 500;
+// Auto-scroll waits this long after the user scrolls the lyrics themselves.
+const MANUAL_SCROLL_PAUSE = 3000;
+
+function formatOffset(offset: number): string {
+  const seconds = (offset / 1000).toFixed(1);
+  return offset > 0 ? `+${seconds}s` : `${seconds}s`;
+}
+
+export default function LyricsView({
+  lyrics,
+  positionMillis,
+  offset,
+  accentColor = '#3B82F6',
+  canRemove,
+  error,
+  onSeek,
+  onOffsetChange,
+  onPick,
+  onRemove,
+}: LyricsViewProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const lineOffsets = useRef<number[]>([]);
+  const [viewHeight, setViewHeight] = useState(0);
+  const [isUserScrolling, setIsUserScrolling] = useState(false);
+  const resumeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const lines = lyrics?.synced ? lyrics.lines : null;
+  const position = positionMillis + offset;
+  const activeIndex = lines ? findActiveLine(lines, position) : -1;
+
+  useEffect(() => {
+    lineOffsets.current = [];
+    scrollRef.current?.scrollTo({ y: 0, animated: false });
+  }, [lyrics]);
+
+  // Keeps the active line about a third of the way down.
+  useEffect(() => {
+    if (isUserScrolling || activeIndex < 0) return;
+    const y = lineOffsets.current[activeIndex];
+    if (y === undefined) return;
+    scrollRef.current?.scrollTo({ y: Math.max(0, y - viewHeight / 3), animated: true });
+  }, [activeIndex, viewHeight, isUserScrolling]);
+
+  useEffect(
+    () => () => {
+      if (resumeTimer.current) clearTimeout(resumeTimer.current);
+    },
+    []
+  );
+
+  const onScrollBegin = () => {
+    if (resumeTimer.current) clearTimeout(resumeTimer.current);
+    setIsUserScrolling(true);
+  };
+
+  const onScrollEnd = () => {
+    if (resumeTimer.current) clearTimeout(resumeTimer.current);
+    resumeTimer.current = setTimeout(() => setIsUserScrolling(false), MANUAL_SCROLL_PAUSE);
+  };
+
+  if (!lyrics) {
+    return (
+      <View style={styles.empty}>
+        <TouchableOpacity style={styles.addButton} onPress={onPick}>
+          <FileText size={16} color={accentColor} />
+          <Text style={[styles.link, { color: accentColor }]}>Add Lyrics</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>The file you pick is remembered for this track</Text>
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  }
+
+  const renderSyncedLine = (line: LyricLine, index: number) => {
+    const isActive = index === activeIndex;
+    const sung = isActive && line.words ? countSungWords(line, position) : 0;
+    return (
+      <TouchableOpacity
+        key={`${line.start}-${index}`}
+        onLayout={(event: LayoutChangeEvent) => {
+          lineOffsets.current[index] = event.nativeEvent.layout.y;
+        }}
+        onPress={() => onSeek(Math.max(0, line.start - offset))}
+      >
+        <Text style={[styles.line, isActive && styles.activeLine]}>
+          {isActive && line.words
+            ? line.words.map((word, wordIndex) => (
+                <Text key={wordIndex} style={wordIndex < sung && { color: accentColor }}>
+                  {word.text}
+                </Text>
+              ))
+            : line.text || '♪'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        ref={scrollRef}
+        style={styles.scroll}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        onLayout={(event) => setViewHeight(event.nativeEvent.layout.height)}
+        onScrollBeginDrag={onScrollBegin}
+        onScrollEndDrag={onScrollEnd}
+      >
+        {lyrics.synced
+          ? lyrics.lines.map(renderSyncedLine)
+          : lyrics.lines.map((line, index) => (
+              <Text key={index} style={styles.plainLine}>
+                {line}
+              </Text>
+            ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {lyrics.synced ? (
+          <View style={styles.offsetControls}>
+            <TouchableOpacity onPress={() => onOffsetChange(offset - OFFSET_STEP)}>
+              <Text style={styles.link}>Later</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onOffsetChange(0)} disabled={offset === 0}>
+              <Text style={styles.offsetText}>{formatOffset(offset)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onOffsetChange(offset + OFFSET_STEP)}>
+              <Text style={styles.link}>Earlier</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <Text style={styles.hint}>Not synced</Text>
+        )}
+        <TouchableOpacity onPress={canRemove ? onRemove : onPick}>
+          <Text style={styles.link}>{canRemove ? 'Remove' : 'Replace'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    minHeight: 120,
+    gap: 8,
+  },
+  scroll: {
+    flex: 1,
+  },
+  content: {
+    paddingVertical: 8,
+    gap: 10,
+  },
+  line: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#64748B',
+    textAlign: 'center',
+  },
+  activeLine: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    lineHeight: 24,
+    color: '#FFFFFF',
+  },
+  plainLine: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#E2E8F0',
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  offsetControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  offsetText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#FFFFFF',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  empty: {
+    flex: 1,
+    minHeight: 60,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  error: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#F87171',
+  },
+});
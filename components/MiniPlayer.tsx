@@ -0,0 +1,164 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { Play, Pause, RotateCw, SkipForward, Music, FileVideo } from 'lucide-react-native';
+import { playbackEngine, PlaybackOwner } from '@/lib/playback';
+import { skipToNext } from '@/lib/queue';
+import { getDisplayTitle } from '@/lib/mediaLibrary';
+import { usePlaybackState } from '@/hooks/usePlayback';
+import { useQueue } from '@/hooks/useQueue';
+import { useMediaFile } from '@/hooks/useMediaLibrary';
+
+const OWNER_ROUTES: Record<PlaybackOwner, '/' | '/audio'> = {
+  player: '/',
+  audio: '/audio',
+};
+
+const OWNER_COLORS: Record<PlaybackOwner, string> = {
+  player: '#3B82F6',
+  audio: '#10B981',
+};
+
+interface MiniPlayerProps {
+  /** The tab currently shown; the mini-player stays out of the way on its owner's screen. */
+  activeRoute: string;
+}
+
+/** Compact controls for whatever the shared engine is playing, shown above the tab bar. */
+export default function MiniPlayer({ activeRoute }: MiniPlayerProps) {
+  const snapshot = usePlaybackState();
+  const queue = useQueue();
+  const { state, file, owner, positionMillis, durationMillis } = snapshot;
+  // The engine keeps the record it loaded; tags read since then live in the library.
+  const record = useMediaFile(file?.id);
+
+  if (!file || !owner || state === 'idle') return null;
+  if (activeRoute === (owner === 'player' ? 'index' : owner)) return null;
+
+  const accentColor = OWNER_COLORS[owner];
+  const progress = durationMillis > 0 ? Math.min(1, positionMillis / durationMillis) : 0;
+  const isPlaying = state === 'playing';
+  const Icon = file.type === 'audio' ? Music : FileVideo;
+
+  const openOwner = () => {
+    router.push({ pathname: OWNER_ROUTES[owner], params: { fileId: file.id } });
+  };
+
+  // Audio moves through its queue; video has no queue, so skip ahead instead.
+  const hasQueue = owner === 'audio';
+  const canSkip = state !== 'error' && (!hasQueue || queue.hasNext);
+
+  const skipForward = () => {
+    if (hasQueue) {
+      skipToNext();
+    } else {
+      playbackEngine.seek(positionMillis + 10000);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.progressTrack}>
+        <View
+          style={[styles.progress, { width: `${progress * 100}%`, backgroundColor: accentColor }]}
+        />
+      </View>
+
+      <View style={styles.content}>
+        <TouchableOpacity style={styles.info} onPress={openOwner}>
+          <View style={[styles.iconContainer, { backgroundColor: accentColor }]}>
+            <Icon size={18} color="#FFFFFF" />
+          </View>
+          <View style={styles.textContainer}>
+            <Text style={styles.title} numberOfLines={1}>
+              {getDisplayTitle(record ?? file)}
+            </Text>
+            <Text style={styles.subtitle} numberOfLines={1}>
+              {state === 'error' ? 'Playback failed' : owner === 'audio' ? 'Audio' : 'Player'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {state === 'loading' || snapshot.isBuffering ? (
+          <View style={styles.button}>
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={styles.button}
+            onPress={playbackEngine.togglePlayPause}
+            disabled={state === 'error'}
+          >
+            {isPlaying ? (
+              <Pause size={22} color="#FFFFFF" />
+            ) : (
+              <Play size={22} color={state === 'error' ? '#64748B' : '#FFFFFF'} />
+            )}
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity style={styles.button} onPress={skipForward} disabled={!canSkip}>
+          {hasQueue ? (
+            <SkipForward size={20} color={canSkip ? '#FFFFFF' : '#64748B'} />
+          ) : (
+            <RotateCw size={20} color={canSkip ? '#FFFFFF' : '#64748B'} />
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#111827',
+    borderTopColor: '#374151',
+    borderTopWidth: 1,
+  },
+  progressTrack: {
+    height: 2,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  progress: {
+    height: '100%',
+  },
+  content: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  info: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  button: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Globe, Plus, X } from 'lucide-react-native';
+import { MediaFile, NewMediaFile } from '@/lib/mediaLibrary';
+import {
+  createRemoteMedia,
+  getHeaderEntries,
+  validateRemoteMedia,
+  HeaderEntry,
+} from '@/lib/remoteMedia';
+
+interface OpenUrlModalProps {
+  visible: boolean;
+  accentColor?: string;
+  /** A stream to sign in to again; its URL and headers are filled in. */
+  signInTo?: MediaFile;
+  onOpen: (media: NewMediaFile) => void;
+  onClose: () => void;
+}
+
+export default function OpenUrlModal({
+  visible,
+  accentColor = '#3B82F6',
+  signInTo,
+  onOpen,
+  onClose,
+}: OpenUrlModalProps) {
+  const [url, setUrl] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [headers, setHeaders] = useState<HeaderEntry[]>([]);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible && signInTo) {
+      setUrl(signInTo.uri);
+      setHeaders(getHeaderEntries(signInTo));
+      setShowAdvanced(true);
+    }
+  }, [visible, signInTo]);
+
+  const reset = () => {
+    setUrl('');
+    setUsername('');
+    setPassword('');
+    setHeaders([]);
+    setShowAdvanced(false);
+    setError(null);
+  };
+
+  const close = () => {
+    reset();
+    onClose();
+  };
+
+  const open = () => {
+    const input = { url, headers, username, password };
+    const problem = validateRemoteMedia(input);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onOpen(createRemoteMedia(input));
+    reset();
+  };
+
+  const updateHeader = (index: number, changes: Partial<HeaderEntry>) => {
+    setHeaders(headers.map((header, i) => (i === index ? { ...header, ...changes } : header)));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={close}>
+      <View style={styles.backdrop}>
+        <BlurView intensity={40} style={styles.panel}>
+          <View style={styles.header}>
+            <View style={styles.headerTitle}>
+              <Globe size={20} color="#FFFFFF" />
+              <Text style={styles.title}>Open URL</Text>
+            </View>
+            <TouchableOpacity onPress={close}>
+              <X size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <TextInput
+              style={styles.input}
+              value={url}
+              onChangeText={(text) => {
+                setUrl(text);
+                setError(null);
+              }}
+              placeholder="https://example.com/video.mp4 or .m3u8"
+              placeholderTextColor="#64748B"
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              returnKeyType="go"
+              onSubmitEditing={open}
+            />
+
+            <TouchableOpacity onPress={() => setShowAdvanced(!showAdvanced)}>
+              <Text style={styles.link}>
+                {showAdvanced ? 'Hide sign-in and headers' : 'Sign-in and headers'}
+              </Text>
+            </TouchableOpacity>
+
+            {showAdvanced && (
+              <View style={styles.advanced}>
+                <Text style={styles.sectionTitle}>Basic Auth</Text>
+                <View style={styles.row}>
+                  <TextInput
+                    style={[styles.input, styles.flex]}
+                    value={username}
+                    onChangeText={setUsername}
+                    placeholder="Username"
+                    placeholderTextColor="#64748B"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.flex]}
+                    value={password}
+                    onChangeText={setPassword}
+                    placeholder="Password"
+                    placeholderTextColor="#64748B"
+                    autoCapitalize="none"
+                    secureTextEntry
+                  />
+                </View>
+
+                <Text style={styles.sectionTitle}>HTTP Headers</Text>
+                {headers.map((header, index) => (
+                  <View key={index} style={styles.row}>
+                    <TextInput
+                      style={[styles.input, styles.flex]}
+                      value={header.name}
+                      onChangeText={(name) => updateHeader(index, { name })}
+                      placeholder="Name"
+                      placeholderTextColor="#64748B"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    <TextInput
+                      style={[styles.input, styles.flex]}
+                      value={header.value}
+                      onChangeText={(value) => updateHeader(index, { value })}
+                      placeholder="Value"
+                      placeholderTextColor="#64748B"
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                    />
+                    <TouchableOpacity
+                      style={styles.removeButton}
+                      onPress={() => setHeaders(headers.filter((_, i) => i !== index))}
+                    >
+                      <X size={16} color="#94A3B8" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                <TouchableOpacity
+                  style={styles.addHeader}
+                  onPress={() => setHeaders([...headers, { name: '', value: '' }])}
+                >
+                  <Plus size={16} color="#93C5FD" />
+                  <Text style={styles.link}>Add header</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={close}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.openButton, { backgroundColor: accentColor }]}
+              onPress={open}
+            >
+              <Text style={styles.buttonText}>Open</Text>
+            </TouchableOpacity>
+          </View>
+        </BlurView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  panel: {
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.95)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  input: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#FFFFFF',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    marginBottom: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  advanced: {
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#94A3B8',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  removeButton: {
+    padding: 8,
+    marginBottom: 12,
+  },
+  addHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  error: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#F87171',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  openButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  buttonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { GripVertical, ListMusic, Trash2, X } from 'lucide-react-native';
+import { formatTime } from '@/lib/format';
+import { getDisplayTitle } from '@/lib/mediaLibrary';
+import { QueueEntry } from '@/hooks/useQueue';
+
+const ROW_HEIGHT = 48;
+
+interface QueuePanelProps {
+  entries: QueueEntry[];
+  currentId: string | null;
+  accentColor?: string;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onMove: (from: number, to: number) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+interface DragState {
+  index: number;
+  offset: number;
+}
+
+export default function QueuePanel({
+  entries,
+  currentId,
+  accentColor = '#10B981',
+  onSelect,
+  onRemove,
+  onMove,
+  onClear,
+  onClose,
+}: QueuePanelProps) {
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const targetIndex = drag
+    ? Math.min(entries.length - 1, Math.max(0, drag.index + Math.round(drag.offset / ROW_HEIGHT)))
+    : -1;
+
+  // Rows between the dragged one and where it would land shift to make room.
+  const getShift = (index: number) => {
+    if (!drag || index === drag.index) return 0;
+    if (drag.index < index && index <= targetIndex) return -ROW_HEIGHT;
+    if (targetIndex <= index && index < drag.index) return ROW_HEIGHT;
+    return 0;
+  };
+
+  const dragGesture = (index: number) =>
+    Gesture.Pan()
+      .runOnJS(true)
+      .onStart(() => setDrag({ index, offset: 0 }))
+      .onUpdate((event) => setDrag({ index, offset: event.translationY }))
+      .onEnd((event) => {
+        const to = Math.min(
+          entries.length - 1,
+          Math.max(0, index + Math.round(event.translationY / ROW_HEIGHT))
+        );
+        if (to !== index) onMove(index, to);
+      })
+      .onFinalize(() => setDrag(null));
+
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <ListMusic size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Up Next</Text>
+        </View>
+        <View style={styles.headerActions}>
+          {entries.length > 0 && (
+            <TouchableOpacity onPress={onClear}>
+              <Text style={styles.clearText}>Clear</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={onClose}>
+            <X size={20} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {entries.length === 0 ? (
+        <Text style={styles.hint}>The queue is empty. Add tracks with Select Files.</Text>
+      ) : (
+        <ScrollView style={styles.list} scrollEnabled={!drag}>
+          {entries.map((entry, index) => {
+            const isCurrent = entry.id === currentId;
+            const isDragged = drag?.index === index;
+            return (
+              <View
+                key={entry.id}
+                style={[
+                  styles.item,
+                  isDragged && styles.itemDragged,
+                  { transform: [{ translateY: isDragged ? drag.offset : getShift(index) }] },
+                ]}
+              >
+                <GestureDetector gesture={dragGesture(index)}>
+                  <View style={styles.handle}>
+                    <GripVertical size={18} color="#64748B" />
+                  </View>
+                </GestureDetector>
+
+                <TouchableOpacity style={styles.itemInfo} onPress={() => onSelect(entry.id)}>
+                  <Text
+                    style={[
+                      styles.itemTitle,
+                      isCurrent && { color: accentColor, fontFamily: 'Inter-SemiBold' },
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {entry.file ? getDisplayTitle(entry.file) : 'Missing file'}
+                  </Text>
+                  {entry.file?.duration ? (
+                    <Text style={styles.itemDuration}>{formatTime(entry.file.duration)}</Text>
+                  ) : null}
+                </TouchableOpacity>
+
+                <TouchableOpacity style={styles.removeButton} onPress={() => onRemove(entry.id)}>
+                  <Trash2 size={16} color="#94A3B8" />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  clearText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  list: {
+    maxHeight: 288,
+  },
+  item: {
+    height: ROW_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(75, 85, 99, 0.3)',
+  },
+  itemDragged: {
+    zIndex: 1,
+    backgroundColor: 'rgba(30, 41, 59, 0.95)',
+    borderRadius: 8,
+  },
+  handle: {
+    paddingHorizontal: 4,
+    paddingVertical: 12,
+  },
+  itemInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemTitle: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  itemDuration: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  removeButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,67 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { History } from 'lucide-react-native';
+import { formatTime } from '@/lib/format';
+
+interface ResumePromptProps {
+  position: number;
+  accentColor?: string;
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+export default function ResumePrompt({
+  position,
+  accentColor = '#3B82F6',
+  onResume,
+  onStartOver,
+}: ResumePromptProps) {
+  return (
+    <View style={styles.container}>
+      <History size={20} color={accentColor} />
+      <TouchableOpacity
+        style={[styles.resumeButton, { backgroundColor: accentColor }]}
+        onPress={onResume}
+      >
+        <Text style={styles.resumeText}>Resume from {formatTime(position)}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.startOverButton} onPress={onStartOver}>
+        <Text style={styles.startOverText}>Start over</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(31, 41, 55, 0.9)',
+    borderWidth: 1,
+    borderColor: 'rgba(75, 85, 99, 0.5)',
+  },
+  resumeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  resumeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  startOverButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  startOverText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#94A3B8',
+  },
+});
@@ -0,0 +1,306 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { formatTime } from '@/lib/format';
+import { LoopRange } from '@/lib/loops';
+import { findChapterIndex, Chapter } from '@/lib/chapters';
+
+interface SeekBarProps {
+  positionMillis: number;
+  durationMillis: number;
+  bufferedMillis?: number;
+  accentColor?: string;
+  loopRange?: LoopRange | null;
+  /** A pending A marker, shown before the B point has been set. */
+  loopStart?: number | null;
+  /** Positions to draw tick marks at, such as bookmarks. */
+  markers?: number[];
+  /** Splits the track into segments, and names the chapter while scrubbing. */
+  chapters?: Chapter[];
+  onSeek: (positionMillis: number) => void;
+  onScrubStart?: () => void;
+  onScrubEnd?: () => void;
+  onLoopRangeChange?: (range: LoopRange) => void;
+}
+
+const THUMB_SIZE = 14;
+const HANDLE_WIDTH = 18;
+const TOOLTIP_WIDTH = 60;
+const CHAPTER_TOOLTIP_WIDTH = 140;
+
+export default function SeekBar({
+  positionMillis,
+  durationMillis,
+  bufferedMillis = 0,
+  accentColor = '#3B82F6',
+  loopRange,
+  loopStart,
+  markers = [],
+  chapters = [],
+  onSeek,
+  onScrubStart,
+  onScrubEnd,
+  onLoopRangeChange,
+}: SeekBarProps) {
+  const [width, setWidth] = useState(0);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const scrubRef = useRef<number | null>(null);
+  const handleStartRef = useRef<LoopRange | null>(null);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const positionAt = (x: number) => {
+    if (width <= 0 || durationMillis <= 0) return 0;
+    return Math.min(1, Math.max(0, x / width)) * durationMillis;
+  };
+
+  const updateScrub = (x: number) => {
+    const position = positionAt(x);
+    scrubRef.current = position;
+    setScrubPosition(position);
+  };
+
+  // minDistance(0) makes a plain tap on the track seek as well as a drag.
+  const gesture = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .enabled(durationMillis > 0)
+    .onBegin((event) => {
+      onScrubStart?.();
+      updateScrub(event.x);
+    })
+    .onUpdate((event) => updateScrub(event.x))
+    .onEnd(() => {
+      if (scrubRef.current !== null) {
+        onSeek(scrubRef.current);
+      }
+    })
+    .onFinalize(() => {
+      scrubRef.current = null;
+      setScrubPosition(null);
+      onScrubEnd?.();
+    });
+
+  const handleGesture = (edge: 'start' | 'end') =>
+    Gesture.Pan()
+      .runOnJS(true)
+      .minDistance(0)
+      .enabled(!!loopRange && !!onLoopRangeChange && width > 0)
+      .onBegin(() => {
+        handleStartRef.current = loopRange ?? null;
+        onScrubStart?.();
+      })
+      .onUpdate((event) => {
+        const start = handleStartRef.current;
+        if (!start || !onLoopRangeChange) return;
+        const delta = (event.translationX / width) * durationMillis;
+        const value = edge === 'start' ? start.start + delta : start.end + delta;
+        setScrubPosition(Math.min(durationMillis, Math.max(0, value)));
+        onLoopRangeChange(
+          edge === 'start' ? { start: value, end: start.end } : { start: start.start, end: value }
+        );
+      })
+      .onFinalize(() => {
+        handleStartRef.current = null;
+        setScrubPosition(null);
+        onScrubEnd?.();
+      });
+
+  const displayed = scrubPosition ?? positionMillis;
+  const fraction = (value: number) =>
+    durationMillis > 0 ? Math.min(1, Math.max(0, value / durationMillis)) : 0;
+
+  const progressWidth = fraction(displayed) * width;
+  const bufferedWidth = fraction(Math.max(bufferedMillis, displayed)) * width;
+
+  const scrubChapter =
+    scrubPosition !== null ? chapters[findChapterIndex(chapters, scrubPosition)] : undefined;
+  const tooltipWidth = scrubChapter ? CHAPTER_TOOLTIP_WIDTH : TOOLTIP_WIDTH;
+
+  const renderHandle = (edge: 'start' | 'end', position: number) => (
+    <GestureDetector key={edge} gesture={handleGesture(edge)}>
+      <View
+        style={[styles.loopHandle, { left: fraction(position) * width - HANDLE_WIDTH / 2 }]}
+        hitSlop={{ top: 8, bottom: 8, left: 6, right: 6 }}
+      >
+        <Text style={styles.loopHandleText}>{edge === 'start' ? 'A' : 'B'}</Text>
+      </View>
+    </GestureDetector>
+  );
+
+  return (
+    <View style={styles.container} onLayout={onLayout}>
+      <GestureDetector gesture={gesture}>
+        <View style={styles.touchArea} hitSlop={{ top: 12, bottom: 12 }}>
+          <View style={styles.track}>
+            <View style={[styles.buffered, { width: bufferedWidth }]} />
+            <View style={[styles.progress, { width: progressWidth, backgroundColor: accentColor }]} />
+            {loopRange && (
+              <View
+                style={[
+                  styles.loopRegion,
+                  {
+                    left: fraction(loopRange.start) * width,
+                    width: (fraction(loopRange.end) - fraction(loopRange.start)) * width,
+                  },
+                ]}
+              />
+            )}
+            {chapters.map((chapter, index) =>
+              chapter.start > 0 ? (
+                <View
+                  key={`${chapter.start}-${index}`}
+                  style={[styles.chapterGap, { left: fraction(chapter.start) * width - 1 }]}
+                />
+              ) : null
+            )}
+          </View>
+
+          {markers.map((marker, index) => (
+            <View
+              key={`${marker}-${index}`}
+              style={[styles.marker, { left: fraction(marker) * width - 1 }]}
+            />
+          ))}
+
+          <View
+            style={[
+              styles.thumb,
+              { left: progressWidth - THUMB_SIZE / 2, backgroundColor: accentColor },
+              scrubPosition !== null && styles.thumbActive,
+            ]}
+          />
+        </View>
+      </GestureDetector>
+
+      {/* Handles sit beside the track's detector, not inside it, so dragging one doesn't also scrub. */}
+      {loopRange && renderHandle('start', loopRange.start)}
+      {loopRange && renderHandle('end', loopRange.end)}
+      {!loopRange && loopStart != null && (
+        <View
+          pointerEvents="none"
+          style={[styles.loopHandle, { left: fraction(loopStart) * width - HANDLE_WIDTH / 2 }]}
+        >
+          <Text style={styles.loopHandleText}>A</Text>
+        </View>
+      )}
+
+      {scrubPosition !== null && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.tooltip,
+            {
+              width: tooltipWidth,
+              left: Math.min(Math.max(progressWidth - tooltipWidth / 2, 0), width - tooltipWidth),
+            },
+          ]}
+        >
+          {scrubChapter && (
+            <Text style={styles.tooltipChapter} numberOfLines={1}>
+              {scrubChapter.title}
+            </Text>
+          )}
+          <Text style={styles.tooltipText}>{formatTime(scrubPosition)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 24,
+    justifyContent: 'center',
+  },
+  touchArea: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(148, 163, 184, 0.3)',
+    overflow: 'hidden',
+  },
+  buffered: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: 'rgba(226, 232, 240, 0.4)',
+  },
+  progress: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+  },
+  loopRegion: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(250, 204, 21, 0.5)',
+  },
+  chapterGap: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#000000',
+  },
+  marker: {
+    position: 'absolute',
+    width: 2,
+    height: 10,
+    borderRadius: 1,
+    backgroundColor: '#F472B6',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  thumbActive: {
+    transform: [{ scale: 1.3 }],
+  },
+  loopHandle: {
+    position: 'absolute',
+    top: -8,
+    width: HANDLE_WIDTH,
+    height: 18,
+    borderRadius: 4,
+    backgroundColor: '#FACC15',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loopHandleText: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 11,
+    color: '#0F172A',
+  },
+  tooltip: {
+    position: 'absolute',
+    bottom: 28,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.8)',
+  },
+  tooltipChapter: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 11,
+    color: '#CBD5E1',
+  },
+  tooltipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Moon } from 'lucide-react-native';
+import { extendSleepTimer, formatSleepTimer, SleepTimer } from '@/lib/sleepTimer';
+
+interface SleepTimerCountdownProps {
+  timer: SleepTimer;
+  accentColor?: string;
+}
+
+/** The time left on the sleep timer; tapping it adds more. */
+export default function SleepTimerCountdown({
+  timer,
+  accentColor = '#3B82F6',
+}: SleepTimerCountdownProps) {
+  return (
+    <TouchableOpacity style={[styles.pill, { borderColor: accentColor }]} onPress={extendSleepTimer}>
+      <Moon size={14} color={accentColor} />
+      <Text style={styles.text}>{formatSleepTimer(timer)}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: 'rgba(15, 23, 42, 0.6)',
+  },
+  text: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: '#E2E8F0',
+  },
+});
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Moon, X } from 'lucide-react-native';
+import {
+  cancelSleepTimer,
+  extendSleepTimer,
+  formatSleepTimer,
+  SleepTimer,
+  SLEEP_EXTEND_MILLIS,
+  SLEEP_TIMER_PRESETS,
+  startSleepTimer,
+  stopAtEndOfChapter,
+  stopAtEndOfTrack,
+} from '@/lib/sleepTimer';
+
+interface SleepTimerPanelProps {
+  timer: SleepTimer | null;
+  /** Where the current chapter ends, or null when the file has no chapters. */
+  chapterEndMillis: number | null;
+  accentColor?: string;
+  onClose: () => void;
+}
+
+const MAX_CUSTOM_MINUTES = 24 * 60;
+
+export default function SleepTimerPanel({
+  timer,
+  chapterEndMillis,
+  accentColor = '#3B82F6',
+  onClose,
+}: SleepTimerPanelProps) {
+  const [customMinutes, setCustomMinutes] = useState('');
+  const minutes = parseInt(customMinutes, 10);
+  const isValidCustom = minutes > 0 && minutes <= MAX_CUSTOM_MINUTES;
+
+  const startCustom = () => {
+    if (!isValidCustom) return;
+    startSleepTimer(minutes * 60 * 1000);
+    setCustomMinutes('');
+  };
+
+  const selected = (active: boolean) =>
+    active && { backgroundColor: accentColor, borderColor: accentColor };
+
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <Moon size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Sleep Timer</Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      {timer && (
+        <View style={styles.row}>
+          <Text style={styles.countdown}>{formatSleepTimer(timer)}</Text>
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={extendSleepTimer}>
+              <Text style={styles.link}>+{SLEEP_EXTEND_MILLIS / 60000} min</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={cancelSleepTimer}>
+              <Text style={[styles.link, styles.danger]}>Turn Off</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.presets}>
+          {SLEEP_TIMER_PRESETS.map((preset) => (
+            <TouchableOpacity
+              key={preset}
+              style={styles.preset}
+              onPress={() => startSleepTimer(preset)}
+            >
+              <Text style={styles.presetText}>{preset / 60000} min</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.preset, selected(timer?.mode === 'track')]}
+            onPress={stopAtEndOfTrack}
+          >
+            <Text style={styles.presetText}>End of Track</Text>
+          </TouchableOpacity>
+          {chapterEndMillis !== null && (
+            <TouchableOpacity
+              style={[styles.preset, selected(timer?.mode === 'chapter')]}
+              onPress={() => stopAtEndOfChapter(chapterEndMillis)}
+            >
+              <Text style={styles.presetText}>End of Chapter</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </ScrollView>
+
+      <View style={styles.row}>
+        <TextInput
+          style={styles.input}
+          value={customMinutes}
+          onChangeText={(text) => setCustomMinutes(text.replace(/[^0-9]/g, ''))}
+          placeholder="Minutes"
+          placeholderTextColor="#64748B"
+          keyboardType="number-pad"
+          onSubmitEditing={startCustom}
+        />
+        <TouchableOpacity onPress={startCustom} disabled={!isValidCustom}>
+          <Text style={[styles.link, !isValidCustom && styles.linkDisabled]}>Start</Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={styles.hint}>
+        Fades out over the last 30 seconds · shake or tap the countdown for{' '}
+        {SLEEP_EXTEND_MILLIS / 60000} more minutes
+      </Text>
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  countdown: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: '#FFFFFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  presetText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#FFFFFF',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+  danger: {
+    color: '#F87171',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+});
@@ -0,0 +1,415 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { ListFilter, Plus, X } from 'lucide-react-native';
+import {
+  DEFAULT_RULES,
+  getRuleFieldLabel,
+  NUMBER_OPERATORS,
+  SmartPlaylist,
+  SmartPlaylistSort,
+  SmartRule,
+  SMART_PLAYLIST_SORTS,
+  SMART_RULE_FIELDS,
+  TEXT_OPERATORS,
+} from '@/lib/smartPlaylists';
+
+interface SmartPlaylistEditorProps {
+  visible: boolean;
+  /** The playlist being edited, or null for a new one. */
+  playlist: SmartPlaylist | null;
+  accentColor?: string;
+  onSave: (playlist: Omit<SmartPlaylist, 'id'> & { id?: string }) => void;
+  onClose: () => void;
+}
+
+const SORT_LABELS: Record<SmartPlaylistSort, string> = {
+  addedAt: 'Date Added',
+  name: 'Name',
+  playCount: 'Play Count',
+  duration: 'Duration',
+};
+
+const cycle = <T,>(values: T[], current: T): T =>
+  values[(values.indexOf(current) + 1) % values.length];
+
+const parseNumber = (text: string) => parseFloat(text.replace(/[^0-9.]/g, '')) || 0;
+
+export default function SmartPlaylistEditor({
+  visible,
+  playlist,
+  accentColor = '#3B82F6',
+  onSave,
+  onClose,
+}: SmartPlaylistEditorProps) {
+  const [name, setName] = useState('');
+  const [match, setMatch] = useState<SmartPlaylist['match']>('all');
+  const [rules, setRules] = useState<SmartRule[]>([]);
+  const [sortBy, setSortBy] = useState<SmartPlaylistSort>('addedAt');
+  const [limit, setLimit] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(playlist?.name ?? '');
+    setMatch(playlist?.match ?? 'all');
+    setRules(playlist?.rules ?? [DEFAULT_RULES.type]);
+    setSortBy(playlist?.sortBy ?? 'addedAt');
+    setLimit(playlist?.limit ? String(playlist.limit) : '');
+  }, [visible, playlist]);
+
+  const updateRule = (index: number, rule: SmartRule) => {
+    setRules(rules.map((existing, i) => (i === index ? rule : existing)));
+  };
+
+  const save = () => {
+    if (!name.trim()) return;
+    const parsedLimit = parseInt(limit, 10);
+    onSave({
+      id: playlist?.id,
+      name: name.trim(),
+      match,
+      rules,
+      sortBy,
+      limit: parsedLimit > 0 ? parsedLimit : undefined,
+    });
+  };
+
+  const renderValue = (rule: SmartRule, index: number) => {
+    switch (rule.field) {
+      case 'type':
+        return (
+          <TouchableOpacity
+            style={styles.chip}
+            onPress={() =>
+              updateRule(index, { ...rule, value: rule.value === 'audio' ? 'video' : 'audio' })
+            }
+          >
+            <Text style={styles.chipText}>{rule.value}</Text>
+          </TouchableOpacity>
+        );
+      case 'favorite':
+        return (
+          <TouchableOpacity
+            style={styles.chip}
+            onPress={() => updateRule(index, { ...rule, value: !rule.value })}
+          >
+            <Text style={styles.chipText}>{rule.value ? 'Yes' : 'No'}</Text>
+          </TouchableOpacity>
+        );
+      case 'addedWithinDays':
+        return (
+          <>
+            <Text style={styles.ruleText}>in last</Text>
+            <TextInput
+              style={[styles.input, styles.numberInput]}
+              value={String(rule.value)}
+              onChangeText={(text) => updateRule(index, { ...rule, value: parseNumber(text) })}
+              keyboardType="number-pad"
+            />
+            <Text style={styles.ruleText}>days</Text>
+          </>
+        );
+      case 'duration':
+      case 'playCount':
+        return (
+          <>
+            <TouchableOpacity
+              style={styles.chip}
+              onPress={() =>
+                updateRule(index, { ...rule, operator: cycle(NUMBER_OPERATORS, rule.operator) })
+              }
+            >
+              <Text style={styles.chipText}>{rule.operator}</Text>
+            </TouchableOpacity>
+            <TextInput
+              style={[styles.input, styles.numberInput]}
+              value={String(rule.value)}
+              onChangeText={(text) => updateRule(index, { ...rule, value: parseNumber(text) })}
+              keyboardType="decimal-pad"
+            />
+            {rule.field === 'duration' && <Text style={styles.ruleText}>min</Text>}
+          </>
+        );
+      default:
+        return (
+          <>
+            <TouchableOpacity
+              style={styles.chip}
+              onPress={() =>
+                updateRule(index, { ...rule, operator: cycle(TEXT_OPERATORS, rule.operator) })
+              }
+            >
+              <Text style={styles.chipText}>{rule.operator}</Text>
+            </TouchableOpacity>
+            <TextInput
+              style={[styles.input, styles.flex]}
+              value={rule.value}
+              onChangeText={(value) => updateRule(index, { ...rule, value })}
+              placeholder="Value"
+              placeholderTextColor="#64748B"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <BlurView intensity={40} style={styles.panel}>
+          <View style={styles.header}>
+            <View style={styles.headerTitle}>
+              <ListFilter size={20} color="#FFFFFF" />
+              <Text style={styles.title}>{playlist ? 'Edit Playlist' : 'New Smart Playlist'}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <X size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Playlist name"
+              placeholderTextColor="#64748B"
+            />
+
+            <View style={styles.row}>
+              <Text style={styles.ruleText}>Match</Text>
+              {(['all', 'any'] as const).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.chip,
+                    match === option && { backgroundColor: accentColor, borderColor: accentColor },
+                  ]}
+                  onPress={() => setMatch(option)}
+                >
+                  <Text style={styles.chipText}>{option === 'all' ? 'All rules' : 'Any rule'}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Rules</Text>
+            {rules.map((rule, index) => (
+              <View key={index} style={styles.row}>
+                <TouchableOpacity
+                  style={styles.chip}
+                  onPress={() =>
+                    updateRule(index, DEFAULT_RULES[cycle(SMART_RULE_FIELDS, rule.field)])
+                  }
+                >
+                  <Text style={styles.chipText}>{getRuleFieldLabel(rule.field)}</Text>
+                </TouchableOpacity>
+                {renderValue(rule, index)}
+                <View style={styles.flex} />
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => setRules(rules.filter((_, i) => i !== index))}
+                >
+                  <X size={16} color="#94A3B8" />
+                </TouchableOpacity>
+              </View>
+            ))}
+            <TouchableOpacity
+              style={styles.addRule}
+              onPress={() => setRules([...rules, DEFAULT_RULES.favorite])}
+            >
+              <Plus size={16} color="#93C5FD" />
+              <Text style={styles.link}>Add rule</Text>
+            </TouchableOpacity>
+            <Text style={styles.hint}>Tap a rule's field to change it.</Text>
+
+            <Text style={styles.sectionTitle}>Sort By</Text>
+            <View style={styles.row}>
+              {SMART_PLAYLIST_SORTS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.chip,
+                    sortBy === option && { backgroundColor: accentColor, borderColor: accentColor },
+                  ]}
+                  onPress={() => setSortBy(option)}
+                >
+                  <Text style={styles.chipText}>{SORT_LABELS[option]}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Limit</Text>
+            <TextInput
+              style={styles.input}
+              value={limit}
+              onChangeText={(text) => setLimit(text.replace(/[^0-9]/g, ''))}
+              placeholder="No limit"
+              placeholderTextColor="#64748B"
+              keyboardType="number-pad"
+            />
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                { backgroundColor: accentColor },
+                !name.trim() && styles.disabled,
+              ]}
+              onPress={save}
+              disabled={!name.trim()}
+            >
+              <Text style={styles.buttonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </BlurView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  panel: {
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.95)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  input: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#FFFFFF',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    marginBottom: 12,
+  },
+  numberInput: {
+    width: 56,
+    textAlign: 'center',
+  },
+  flex: {
+    flex: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#94A3B8',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    marginBottom: 12,
+  },
+  chipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  ruleText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: '#E2E8F0',
+    marginBottom: 12,
+  },
+  removeButton: {
+    padding: 8,
+    marginBottom: 12,
+  },
+  addRule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  saveButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
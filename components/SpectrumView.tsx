@@ -0,0 +1,100 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Rect } from 'react-native-svg';
+
+interface SpectrumViewProps {
+  analyser: AnalyserNode;
+  /** Stops sampling while nothing is playing. */
+  isActive: boolean;
+  height: number;
+  accentColor?: string;
+}
+
+const BAR_COUNT = 32;
+const BAR_GAP = 3;
+const MIN_FREQUENCY = 40;
+const MAX_FREQUENCY = 16000;
+
+/** FFT bin ranges for each bar, spaced logarithmically the way pitch is heard. */
+function getBarBins(analyser: AnalyserNode): [number, number][] {
+  const binWidth = analyser.context.sampleRate / analyser.fftSize;
+  const ratio = MAX_FREQUENCY / MIN_FREQUENCY;
+  return Array.from({ length: BAR_COUNT }, (_, bar) => {
+    const low = MIN_FREQUENCY * Math.pow(ratio, bar / BAR_COUNT);
+    const high = MIN_FREQUENCY * Math.pow(ratio, (bar + 1) / BAR_COUNT);
+    const start = Math.min(analyser.frequencyBinCount - 1, Math.floor(low / binWidth));
+    return [start, Math.max(start + 1, Math.ceil(high / binWidth))];
+  });
+}
+
+/** Live frequency bars read from a Web Audio analyser every animation frame. */
+export default function SpectrumView({
+  analyser,
+  isActive,
+  height,
+  accentColor = '#10B981',
+}: SpectrumViewProps) {
+  const [width, setWidth] = useState(0);
+  const [levels, setLevels] = useState<number[]>(() => new Array(BAR_COUNT).fill(0));
+  const bins = useMemo(() => getBarBins(analyser), [analyser]);
+
+  useEffect(() => {
+    if (!isActive) {
+      setLevels(new Array(BAR_COUNT).fill(0));
+      return;
+    }
+    const data = new Uint8Array(analyser.frequencyBinCount);
+    let frame = 0;
+    const tick = () => {
+      analyser.getByteFrequencyData(data);
+      setLevels(
+        bins.map(([start, end]) => {
+          let peak = 0;
+          for (let i = start; i < end && i < data.length; i++) {
+            if (data[i] > peak) peak = data[i];
+          }
+          return peak / 255;
+        })
+      );
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, bins, isActive]);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const barWidth = width > 0 ? (width - BAR_GAP * (BAR_COUNT - 1)) / BAR_COUNT : 0;
+
+  return (
+    <View style={[styles.container, { height }]} onLayout={onLayout}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {levels.map((level, index) => {
+            const barHeight = Math.max(2, level * height);
+            return (
+              <Rect
+                key={index}
+                x={index * (barWidth + BAR_GAP)}
+                y={height - barHeight}
+                width={barWidth}
+                height={barHeight}
+                rx={Math.min(2, barWidth / 2)}
+                fill={accentColor}
+                opacity={0.35 + level * 0.65}
+              />
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
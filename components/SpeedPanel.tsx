@@ -0,0 +1,196 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch, ScrollView } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Gauge, Minus, Plus, X } from 'lucide-react-native';
+import {
+  addSpeedPreset,
+  formatSpeed,
+  removeSpeedPreset,
+  resetSpeedPresets,
+  setPitchCorrection,
+  MAX_SPEED,
+  MIN_SPEED,
+  SPEED_STEP,
+} from '@/lib/playbackSpeed';
+
+interface SpeedPanelProps {
+  speed: number;
+  presets: number[];
+  pitchCorrection: boolean;
+  accentColor?: string;
+  onSpeedChange: (speed: number) => void;
+  onClose: () => void;
+}
+
+export default function SpeedPanel({
+  speed,
+  presets,
+  pitchCorrection,
+  accentColor = '#3B82F6',
+  onSpeedChange,
+  onClose,
+}: SpeedPanelProps) {
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <Gauge size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Playback Speed</Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => onSpeedChange(speed - SPEED_STEP)}
+          disabled={speed <= MIN_SPEED}
+        >
+          <Minus size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.speedValue}>{formatSpeed(speed)}</Text>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => onSpeedChange(speed + SPEED_STEP)}
+          disabled={speed >= MAX_SPEED}
+        >
+          <Plus size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.presets}>
+          {presets.map((preset) => (
+            <TouchableOpacity
+              key={preset}
+              style={[
+                styles.preset,
+                preset === speed && { backgroundColor: accentColor, borderColor: accentColor },
+              ]}
+              onPress={() => onSpeedChange(preset)}
+              onLongPress={() => removeSpeedPreset(preset)}
+            >
+              <Text style={styles.presetText}>{formatSpeed(preset)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+
+      <View style={styles.row}>
+        <TouchableOpacity onPress={() => addSpeedPreset(speed)} disabled={presets.includes(speed)}>
+          <Text style={[styles.link, presets.includes(speed) && styles.linkDisabled]}>
+            Save {formatSpeed(speed)} as preset
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={resetSpeedPresets}>
+          <Text style={styles.link}>Reset presets</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>Long-press a preset to remove it</Text>
+
+      <View style={styles.row}>
+        <View>
+          <Text style={styles.label}>Pitch Correction</Text>
+          <Text style={styles.hint}>Keep voices natural at other speeds</Text>
+        </View>
+        <Switch
+          value={pitchCorrection}
+          onValueChange={setPitchCorrection}
+          trackColor={{ false: '#374151', true: accentColor }}
+          thumbColor={pitchCorrection ? '#FFFFFF' : '#9CA3AF'}
+        />
+      </View>
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  stepper: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 24,
+  },
+  stepButton: {
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  speedValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 28,
+    color: '#FFFFFF',
+    minWidth: 90,
+    textAlign: 'center',
+  },
+  presets: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  preset: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  presetText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  linkDisabled: {
+    opacity: 0.4,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+});
@@ -0,0 +1,387 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  FlatList,
+} from 'react-native';
+import { BlurView } from 'expo-blur';
+import { ChartColumn, FileVideo, Music, X } from 'lucide-react-native';
+import { PlaySession } from '@/lib/playHistory';
+import {
+  getCompletionRate,
+  getMostPlayed,
+  getTypeSplit,
+  getWeeklyTotals,
+  groupPlays,
+} from '@/lib/playStats';
+import { formatDuration, formatTime } from '@/lib/format';
+import { formatSpeed } from '@/lib/playbackSpeed';
+
+interface StatsDashboardProps {
+  visible: boolean;
+  /** Oldest first, as stored. */
+  sessions: PlaySession[];
+  onRemoveSession: (id: string) => void;
+  onClearHistory: () => void;
+  onClose: () => void;
+}
+
+const AUDIO_COLOR = '#10B981';
+const VIDEO_COLOR = '#3B82F6';
+const CHART_HEIGHT = 96;
+
+const formatWeek = (time: number) =>
+  new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export default function StatsDashboard({
+  visible,
+  sessions,
+  onRemoveSession,
+  onClearHistory,
+  onClose,
+}: StatsDashboardProps) {
+  const [tab, setTab] = useState<'stats' | 'history'>('stats');
+
+  const stats = useMemo(() => {
+    const plays = groupPlays(sessions);
+    return {
+      weeks: getWeeklyTotals(sessions),
+      mostPlayed: getMostPlayed(plays),
+      completionRate: getCompletionRate(plays),
+      split: getTypeSplit(sessions),
+    };
+  }, [sessions]);
+  const newestFirst = useMemo(() => [...sessions].reverse(), [sessions]);
+
+  const thisWeek = stats.weeks[stats.weeks.length - 1];
+  const busiestWeek = Math.max(1, ...stats.weeks.map((week) => week.audio + week.video));
+  const totalTime = stats.split.audio + stats.split.video;
+  const audioShare = totalTime > 0 ? stats.split.audio / totalTime : 0;
+
+  const renderStats = () => (
+    <ScrollView style={styles.body}>
+      <View style={styles.summary}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{formatDuration(thisWeek.audio + thisWeek.video)}</Text>
+          <Text style={styles.summaryLabel}>This week</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{formatDuration(totalTime)}</Text>
+          <Text style={styles.summaryLabel}>All time</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>
+            {stats.completionRate === null ? '–' : `${Math.round(stats.completionRate * 100)}%`}
+          </Text>
+          <Text style={styles.summaryLabel}>Finished</Text>
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Time per Week</Text>
+      <View style={styles.chart}>
+        {stats.weeks.map((week) => (
+          <View key={week.weekStart} style={styles.chartColumn}>
+            <View style={styles.bar}>
+              <View
+                style={{
+                  height: (week.video / busiestWeek) * CHART_HEIGHT,
+                  backgroundColor: VIDEO_COLOR,
+                }}
+              />
+              <View
+                style={{
+                  height: (week.audio / busiestWeek) * CHART_HEIGHT,
+                  backgroundColor: AUDIO_COLOR,
+                }}
+              />
+            </View>
+            <Text style={styles.chartLabel}>{formatWeek(week.weekStart)}</Text>
+          </View>
+        ))}
+      </View>
+
+      <Text style={styles.sectionTitle}>Audio vs Video</Text>
+      <View style={styles.splitBar}>
+        <View style={{ flex: audioShare, backgroundColor: AUDIO_COLOR }} />
+        <View style={{ flex: totalTime > 0 ? 1 - audioShare : 0, backgroundColor: VIDEO_COLOR }} />
+      </View>
+      <View style={styles.splitLegend}>
+        <Text style={styles.legendText}>
+          <Text style={{ color: AUDIO_COLOR }}>●</Text> Audio {formatDuration(stats.split.audio)}
+        </Text>
+        <Text style={styles.legendText}>
+          <Text style={{ color: VIDEO_COLOR }}>●</Text> Video {formatDuration(stats.split.video)}
+        </Text>
+      </View>
+
+      <Text style={styles.sectionTitle}>Most Played</Text>
+      {stats.mostPlayed.length === 0 && <Text style={styles.hint}>Nothing played yet</Text>}
+      {stats.mostPlayed.map((file, index) => (
+        <View key={file.fileId} style={styles.row}>
+          <Text style={styles.rank}>{index + 1}</Text>
+          {file.type === 'video' ? (
+            <FileVideo size={16} color={VIDEO_COLOR} />
+          ) : (
+            <Music size={16} color={AUDIO_COLOR} />
+          )}
+          <Text style={styles.rowTitle} numberOfLines={1}>
+            {file.title}
+          </Text>
+          <Text style={styles.rowDetail}>
+            {file.plays} {file.plays === 1 ? 'play' : 'plays'} ·{' '}
+            {formatDuration(file.listenedMillis)}
+          </Text>
+        </View>
+      ))}
+    </ScrollView>
+  );
+
+  const renderSession = ({ item }: { item: PlaySession }) => (
+    <View style={styles.row}>
+      {item.type === 'video' ? (
+        <FileVideo size={16} color={VIDEO_COLOR} />
+      ) : (
+        <Music size={16} color={AUDIO_COLOR} />
+      )}
+      <View style={styles.sessionInfo}>
+        <Text style={styles.sessionTitle} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={styles.rowDetail}>
+          {new Date(item.startedAt).toLocaleString()} · {formatTime(item.startPosition)}–
+          {formatTime(item.endPosition)} · {formatDuration(item.listenedMillis)}
+          {item.speed !== 1 && ` · ${formatSpeed(item.speed)}`}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.removeButton} onPress={() => onRemoveSession(item.id)}>
+        <X size={14} color="#94A3B8" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <BlurView intensity={40} style={styles.panel}>
+          <View style={styles.header}>
+            <View style={styles.headerTitle}>
+              <ChartColumn size={20} color="#FFFFFF" />
+              <Text style={styles.title}>Listening & Watching</Text>
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <X size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.tabs}>
+            {(['stats', 'history'] as const).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.tab, tab === option && styles.tabActive]}
+                onPress={() => setTab(option)}
+              >
+                <Text style={styles.tabText}>{option === 'stats' ? 'Stats' : 'History'}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {tab === 'stats' ? (
+            renderStats()
+          ) : (
+            <>
+              <FlatList
+                style={styles.body}
+                data={newestFirst}
+                renderItem={renderSession}
+                keyExtractor={(item) => item.id}
+                ListEmptyComponent={<Text style={styles.hint}>No history yet</Text>}
+              />
+              {sessions.length > 0 && (
+                <TouchableOpacity onPress={onClearHistory}>
+                  <Text style={[styles.link, styles.danger]}>Clear History</Text>
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </BlurView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 20,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  panel: {
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.95)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  tab: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(75, 85, 99, 0.3)',
+  },
+  tabActive: {
+    backgroundColor: '#3B82F6',
+  },
+  tabText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  body: {
+    flexGrow: 0,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  summaryValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: '#FFFFFF',
+  },
+  summaryLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#94A3B8',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  bar: {
+    width: '100%',
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  chartLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 9,
+    color: '#64748B',
+  },
+  splitBar: {
+    flexDirection: 'row',
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  splitLegend: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  legendText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: '#E2E8F0',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.05)',
+  },
+  rank: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 13,
+    color: '#64748B',
+    width: 16,
+  },
+  rowTitle: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  rowDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  sessionTitle: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  removeButton: {
+    padding: 6,
+  },
+  link: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: '#93C5FD',
+  },
+  danger: {
+    color: '#F87171',
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#94A3B8',
+  },
+});
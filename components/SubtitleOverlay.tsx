@@ -0,0 +1,108 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { findActiveCues, SubtitleCue } from '@/lib/subtitles';
+import { SubtitleAppearance } from '@/lib/subtitleStore';
+
+interface SubtitleOverlayProps {
+  cues: SubtitleCue[];
+  positionMillis: number;
+  appearance: SubtitleAppearance;
+}
+
+export default function SubtitleOverlay({
+  cues,
+  positionMillis,
+  appearance,
+}: SubtitleOverlayProps) {
+  const active = findActiveCues(cues, positionMillis);
+  if (active.length === 0) return null;
+
+  const renderCue = (cue: SubtitleCue, index: number) => (
+    <Text
+      key={`${cue.start}-${index}`}
+      style={[
+        styles.cueText,
+        {
+          fontSize: appearance.fontSize,
+          lineHeight: appearance.fontSize * 1.3,
+          color: appearance.color,
+          backgroundColor: appearance.backgroundColor,
+          textAlign: cue.align ?? 'center',
+          alignSelf: cue.align === 'left' ? 'flex-start' : cue.align === 'right' ? 'flex-end' : 'center',
+        },
+      ]}
+    >
+      {cue.spans.map((span, spanIndex) => (
+        <Text
+          key={spanIndex}
+          style={{
+            fontFamily: span.bold ? 'Inter-Bold' : 'Inter-Medium',
+            fontStyle: span.italic ? 'italic' : 'normal',
+            textDecorationLine: span.underline ? 'underline' : 'none',
+            color: span.color,
+          }}
+        >
+          {span.text}
+        </Text>
+      ))}
+    </Text>
+  );
+
+  const top = active.filter((cue) => cue.placement === 'top');
+  const middle = active.filter((cue) => cue.placement === 'middle');
+  const bottom = active.filter((cue) => !cue.placement || cue.placement === 'bottom');
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {top.length > 0 && <View style={styles.topBlock}>{top.map(renderCue)}</View>}
+      {middle.length > 0 && <View style={styles.middleBlock}>{middle.map(renderCue)}</View>}
+      {bottom.length > 0 && (
+        <View style={[styles.bottomBlock, { bottom: `${appearance.verticalPosition}%` }]}>
+          {bottom.map(renderCue)}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  topBlock: {
+    position: 'absolute',
+    top: '8%',
+    left: 16,
+    right: 16,
+    gap: 4,
+  },
+  middleBlock: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 16,
+    right: 16,
+    justifyContent: 'center',
+    gap: 4,
+  },
+  bottomBlock: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    gap: 4,
+  },
+  cueText: {
+    fontFamily: 'Inter-Medium',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+    textShadowColor: 'rgba(0,0,0,0.8)',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2,
+  },
+});
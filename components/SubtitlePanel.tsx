@@ -0,0 +1,235 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Switch } from 'react-native';
+import { BlurView } from 'expo-blur';
+import { Captions, Minus, Plus, X } from 'lucide-react-native';
+import {
+  setSubtitlesEnabled,
+  updateSubtitleAppearance,
+  SubtitleAppearance,
+  SubtitleSource,
+} from '@/lib/subtitleStore';
+
+interface SubtitlePanelProps {
+  enabled: boolean;
+  source: SubtitleSource | null;
+  error: string | null;
+  appearance: SubtitleAppearance;
+  onPick: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const TEXT_COLORS = ['#FFFFFF', '#FDE047', '#86EFAC', '#93C5FD'];
+const BACKGROUND_COLORS = ['transparent', 'rgba(0,0,0,0.4)', 'rgba(0,0,0,0.6)', 'rgba(0,0,0,0.9)'];
+
+const MIN_FONT_SIZE = 12;
+const MAX_FONT_SIZE = 40;
+const MAX_POSITION = 80;
+
+export default function SubtitlePanel({
+  enabled,
+  source,
+  error,
+  appearance,
+  onPick,
+  onClear,
+  onClose,
+}: SubtitlePanelProps) {
+  const changeFontSize = (delta: number) => {
+    const fontSize = Math.min(MAX_FONT_SIZE, Math.max(MIN_FONT_SIZE, appearance.fontSize + delta));
+    updateSubtitleAppearance({ fontSize });
+  };
+
+  const changePosition = (delta: number) => {
+    const verticalPosition = Math.min(MAX_POSITION, Math.max(0, appearance.verticalPosition + delta));
+    updateSubtitleAppearance({ verticalPosition });
+  };
+
+  const renderStepper = (label: string, value: string, onChange: (delta: number) => void, step: number) => (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity style={styles.stepButton} onPress={() => onChange(-step)}>
+          <Minus size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+        <Text style={styles.stepValue}>{value}</Text>
+        <TouchableOpacity style={styles.stepButton} onPress={() => onChange(step)}>
+          <Plus size={16} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderSwatches = (
+    label: string,
+    colors: string[],
+    selected: string,
+    onSelect: (color: string) => void
+  ) => (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <View style={styles.swatches}>
+        {colors.map((color) => (
+          <TouchableOpacity
+            key={color}
+            style={[
+              styles.swatch,
+              { backgroundColor: color },
+              color === selected && styles.swatchSelected,
+            ]}
+            onPress={() => onSelect(color)}
+          />
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <BlurView intensity={40} style={styles.panel}>
+      <View style={styles.header}>
+        <View style={styles.headerTitle}>
+          <Captions size={20} color="#FFFFFF" />
+          <Text style={styles.title}>Subtitles</Text>
+        </View>
+        <TouchableOpacity onPress={onClose}>
+          <X size={20} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.sourceName} numberOfLines={1}>
+          {source ? source.name : 'None yet · the file you load is remembered'}
+        </Text>
+        <Switch
+          value={enabled}
+          onValueChange={setSubtitlesEnabled}
+          trackColor={{ false: '#374151', true: '#3B82F6' }}
+          thumbColor={enabled ? '#FFFFFF' : '#9CA3AF'}
+        />
+      </View>
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.actionButton} onPress={onPick}>
+          <Text style={styles.actionText}>{source ? 'Replace File' : 'Load File'}</Text>
+        </TouchableOpacity>
+        {source && (
+          <TouchableOpacity style={styles.actionButton} onPress={onClear}>
+            <Text style={styles.actionText}>Remove</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {renderStepper('Font Size', `${appearance.fontSize}`, changeFontSize, 2)}
+      {renderStepper('Position', `${appearance.verticalPosition}%`, changePosition, 4)}
+      {renderSwatches('Colour', TEXT_COLORS, appearance.color, (color) =>
+        updateSubtitleAppearance({ color })
+      )}
+      {renderSwatches('Background', BACKGROUND_COLORS, appearance.backgroundColor, (backgroundColor) =>
+        updateSubtitleAppearance({ backgroundColor })
+      )}
+    </BlurView>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+    gap: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: '#E2E8F0',
+  },
+  sourceName: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: '#94A3B8',
+    flex: 1,
+    marginRight: 12,
+  },
+  error: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: '#F87171',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    backgroundColor: 'rgba(59, 130, 246, 0.3)',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  actionText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepButton: {
+    padding: 6,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  stepValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+    minWidth: 36,
+    textAlign: 'center',
+  },
+  swatches: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  swatch: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  swatchSelected: {
+    borderWidth: 2,
+    borderColor: '#3B82F6',
+  },
+});
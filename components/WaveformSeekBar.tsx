@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Svg, { Rect } from 'react-native-svg';
+import { formatTime } from '@/lib/format';
+
+interface WaveformSeekBarProps {
+  /** Bar heights from 0 to 1, spread evenly over the track. */
+  peaks: number[];
+  positionMillis: number;
+  durationMillis: number;
+  accentColor?: string;
+  /** Positions to draw tick marks at, such as bookmarks. */
+  markers?: number[];
+  onSeek: (positionMillis: number) => void;
+}
+
+const HEIGHT = 56;
+const BAR_GAP = 1;
+const MIN_BAR_HEIGHT = 2;
+const TOOLTIP_WIDTH = 60;
+
+/** The track's waveform overview, doubling as a timeline that can be tapped or dragged. */
+export default function WaveformSeekBar({
+  peaks,
+  positionMillis,
+  durationMillis,
+  accentColor = '#10B981',
+  markers = [],
+  onSeek,
+}: WaveformSeekBarProps) {
+  const [width, setWidth] = useState(0);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const scrubRef = useRef<number | null>(null);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const updateScrub = (x: number) => {
+    if (width <= 0 || durationMillis <= 0) return;
+    const position = Math.min(1, Math.max(0, x / width)) * durationMillis;
+    scrubRef.current = position;
+    setScrubPosition(position);
+  };
+
+  const gesture = Gesture.Pan()
+    .runOnJS(true)
+    .minDistance(0)
+    .enabled(durationMillis > 0)
+    .onBegin((event) => updateScrub(event.x))
+    .onUpdate((event) => updateScrub(event.x))
+    .onEnd(() => {
+      if (scrubRef.current !== null) {
+        onSeek(scrubRef.current);
+      }
+    })
+    .onFinalize(() => {
+      scrubRef.current = null;
+      setScrubPosition(null);
+    });
+
+  const displayed = scrubPosition ?? positionMillis;
+  const fraction = (value: number) =>
+    durationMillis > 0 ? Math.min(1, Math.max(0, value / durationMillis)) : 0;
+  const progressX = fraction(displayed) * width;
+  const barWidth = peaks.length > 0 ? width / peaks.length : 0;
+
+  return (
+    <View style={styles.container} onLayout={onLayout}>
+      <GestureDetector gesture={gesture}>
+        <View style={styles.touchArea}>
+          {width > 0 && (
+            <Svg width={width} height={HEIGHT}>
+              {peaks.map((peak, index) => {
+                const x = index * barWidth;
+                const barHeight = Math.max(MIN_BAR_HEIGHT, peak * HEIGHT);
+                return (
+                  <Rect
+                    key={index}
+                    x={x}
+                    y={(HEIGHT - barHeight) / 2}
+                    width={Math.max(1, barWidth - BAR_GAP)}
+                    height={barHeight}
+                    rx={1}
+                    fill={x + barWidth / 2 <= progressX ? accentColor : 'rgba(148, 163, 184, 0.4)'}
+                  />
+                );
+              })}
+              {markers.map((marker, index) => (
+                <Rect
+                  key={`marker-${marker}-${index}`}
+                  x={fraction(marker) * width - 1}
+                  y={0}
+                  width={2}
+                  height={HEIGHT}
+                  fill="#F472B6"
+                />
+              ))}
+              <Rect x={progressX - 1} y={0} width={2} height={HEIGHT} fill="#FFFFFF" />
+            </Svg>
+          )}
+        </View>
+      </GestureDetector>
+
+      {scrubPosition !== null && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.tooltip,
+            {
+              left: Math.min(Math.max(progressX - TOOLTIP_WIDTH / 2, 0), width - TOOLTIP_WIDTH),
+            },
+          ]}
+        >
+          <Text style={styles.tooltipText}>{formatTime(scrubPosition)}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: HEIGHT,
+  },
+  touchArea: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  tooltip: {
+    position: 'absolute',
+    bottom: HEIGHT + 4,
+    width: TOOLTIP_WIDTH,
+    paddingVertical: 4,
+    borderRadius: 6,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.8)',
+  },
+  tooltipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,41 @@
+import { useCallback, useEffect } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import {
+  artworkStore,
+  ArtworkState,
+  isEvictedArtwork,
+  resolveArtwork,
+  touchArtwork,
+} from '@/lib/artwork';
+import { MediaFile } from '@/lib/mediaLibrary';
+import { restoreArtwork } from '@/lib/tags';
+
+const selectArtwork = (state: ArtworkState) => state;
+
+/** Resolves record thumbnails, which on web point into the artwork cache, to URIs. */
+export function useArtworkResolver(): (thumbnail: string | undefined) => string | undefined {
+  const state = usePersistedStore(artworkStore, selectArtwork);
+  return useCallback((thumbnail) => resolveArtwork(state, thumbnail), [state]);
+}
+
+/**
+ * The cover of the file being played. Showing it keeps it in the web cache,
+ * and a cover that was evicted is read from the file again.
+ */
+export function useArtwork(file: MediaFile | undefined): string | undefined {
+  const state = usePersistedStore(artworkStore, selectArtwork);
+  const thumbnail = file?.thumbnail;
+  const hydrated = artworkStore.isHydrated();
+  const evicted = hydrated && isEvictedArtwork(state, thumbnail);
+
+  useEffect(() => {
+    if (!file || !evicted) return;
+    restoreArtwork(file).catch((error) => console.error('Error restoring artwork:', error));
+  }, [file?.id, evicted]);
+
+  useEffect(() => {
+    if (hydrated) touchArtwork(thumbnail);
+  }, [thumbnail, hydrated]);
+
+  return resolveArtwork(state, thumbnail);
+}
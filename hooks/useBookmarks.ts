@@ -0,0 +1,53 @@
+import { useCallback } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { getBaseName } from '@/lib/files';
+import { getMediaKey, MediaFile } from '@/lib/mediaLibrary';
+import { shareText } from '@/lib/share';
+import {
+  addBookmark,
+  bookmarksStore,
+  exportBookmarks,
+  removeBookmark,
+  updateBookmarkNote,
+  Bookmark,
+  BookmarkExportFormat,
+  BookmarksState,
+} from '@/lib/bookmarks';
+
+const NO_BOOKMARKS: Bookmark[] = [];
+
+const EXPORT_EXTENSIONS: Record<BookmarkExportFormat, string> = {
+  markdown: 'md',
+  csv: 'csv',
+  chapters: 'txt',
+};
+
+export function useBookmarks(file: MediaFile | undefined) {
+  const key = file ? getMediaKey(file) : null;
+  const selector = useCallback(
+    (state: BookmarksState) => (key && state.files[key]) || NO_BOOKMARKS,
+    [key]
+  );
+  const bookmarks = usePersistedStore(bookmarksStore, selector);
+
+  const add = (position: number, note?: string) => {
+    if (key) addBookmark(key, position, note);
+  };
+
+  const updateNote = (id: string, note: string) => {
+    if (key) updateBookmarkNote(key, id, note);
+  };
+
+  const remove = (id: string) => {
+    if (key) removeBookmark(key, id);
+  };
+
+  const share = async (format: BookmarkExportFormat) => {
+    if (!file) return;
+    const text = exportBookmarks(bookmarks, format, file.name);
+    const exportName = `${getBaseName(file.name)}-bookmarks.${EXPORT_EXTENSIONS[format]}`;
+    await shareText(`Bookmarks: ${file.name}`, text, exportName);
+  };
+
+  return { bookmarks, add, updateNote, remove, share };
+}
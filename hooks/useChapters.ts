@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { readChapters, Chapter } from '@/lib/chapters';
+import { MediaFile } from '@/lib/mediaLibrary';
+
+const NO_CHAPTERS: Chapter[] = [];
+
+export function useChapters(file: MediaFile | undefined) {
+  const [chapters, setChapters] = useState<Chapter[]>(NO_CHAPTERS);
+
+  useEffect(() => {
+    let cancelled = false;
+    setChapters(NO_CHAPTERS);
+    // Streams would have to be downloaded to find their chapters.
+    if (!file || file.remote) return;
+
+    readChapters(file.uri)
+      .then((parsed) => {
+        if (!cancelled) setChapters(parsed);
+      })
+      .catch((error) => console.error('Error reading chapters:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file?.id, file?.uri]);
+
+  return chapters;
+}
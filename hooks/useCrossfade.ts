@@ -0,0 +1,9 @@
+import { usePersistedStore } from './usePersistedStore';
+import { crossfadeStore, CrossfadeState } from '@/lib/crossfade';
+
+const selectCrossfade = (state: CrossfadeState) => state.crossfadeMillis;
+
+/** How long queued tracks fade into each other, as set in Settings; 0 is gapless. */
+export function useCrossfade(): number {
+  return usePersistedStore(crossfadeStore, selectCrossfade);
+}
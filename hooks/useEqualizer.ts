@@ -0,0 +1,58 @@
+import { useCallback, useEffect } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { useFilePreferences } from './useFilePreferences';
+import { MediaFile } from '@/lib/mediaLibrary';
+import {
+  BUILT_IN_PRESETS,
+  equalizerStore,
+  EqualizerSettings,
+  EqualizerState,
+  setEqualizerSettings,
+} from '@/lib/equalizer';
+import { applyEqualizer, MediaElementGraph } from '@/lib/webAudio';
+
+const selectState = (state: EqualizerState) => state;
+
+/**
+ * The equalizer curve for `file`: its own override if it has one, else the
+ * global curve. Edits go to whichever of the two is in use. The curve is
+ * applied to `graph` whenever either changes.
+ */
+export function useEqualizer(file: MediaFile | undefined, graph: MediaElementGraph | null) {
+  const state = usePersistedStore(equalizerStore, selectState);
+  const [preferences, updatePreferences] = useFilePreferences(file);
+  const override = preferences.equalizer;
+  const settings = override ?? state.settings;
+  const active = state.enabled ? settings : null;
+
+  useEffect(() => {
+    if (graph) applyEqualizer(graph, active);
+  }, [graph, active]);
+
+  const setSettings = useCallback(
+    (next: EqualizerSettings) => {
+      if (override) {
+        updatePreferences({ equalizer: next });
+      } else {
+        setEqualizerSettings(next);
+      }
+    },
+    [override, updatePreferences]
+  );
+
+  // Starting an override copies the current curve, so nothing changes until it is edited.
+  const setTrackOverride = useCallback(
+    (enabled: boolean) => updatePreferences({ equalizer: enabled ? settings : undefined }),
+    [settings, updatePreferences]
+  );
+
+  return {
+    enabled: state.enabled,
+    settings,
+    isTrackOverride: override !== undefined,
+    presets: [...BUILT_IN_PRESETS, ...state.customPresets],
+    customPresets: state.customPresets,
+    setSettings,
+    setTrackOverride,
+  };
+}
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import {
+  filePreferencesStore,
+  updateFilePreferences,
+  FilePreferences,
+  FilePreferencesState,
+} from '@/lib/filePreferences';
+import { getMediaKey, MediaFile } from '@/lib/mediaLibrary';
+
+const EMPTY_PREFERENCES: FilePreferences = {};
+
+export function useFilePreferences(file: MediaFile | undefined) {
+  const key = file ? getMediaKey(file) : null;
+  const selector = useCallback(
+    (state: FilePreferencesState) => (key && state.files[key]) || EMPTY_PREFERENCES,
+    [key]
+  );
+  const preferences = usePersistedStore(filePreferencesStore, selector);
+
+  const update = useCallback(
+    (changes: Partial<FilePreferences>) => {
+      if (key) updateFilePreferences(key, changes);
+    },
+    [key]
+  );
+
+  return [preferences, update] as const;
+}
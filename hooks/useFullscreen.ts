@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getIsFullscreen, subscribeFullscreen } from '@/lib/fullscreen';
+
+export function useIsFullscreen(): boolean {
+  return useSyncExternalStore(subscribeFullscreen, getIsFullscreen, getIsFullscreen);
+}
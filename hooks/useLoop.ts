@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useFilePreferences } from './useFilePreferences';
+import { MediaFile } from '@/lib/mediaLibrary';
+import { formatTime } from '@/lib/format';
+import {
+  clampLoopRange,
+  createSavedLoop,
+  LoopMode,
+  LoopRange,
+  MIN_LOOP_LENGTH,
+  SavedLoop,
+} from '@/lib/loops';
+
+/**
+ * Repeat state for the file being played. A–B repeat is armed in two steps:
+ * `markA` sets the start, `markB` the end, at which point the mode switches
+ * to 'ab' and `getLoopBackPosition` starts reporting when to jump back.
+ */
+export function useLoop(file: MediaFile | undefined, durationMillis: number) {
+  const [mode, setMode] = useState<LoopMode>('off');
+  const [pointA, setPointA] = useState<number | null>(null);
+  const [range, setRangeState] = useState<LoopRange | null>(null);
+  const [preferences, updatePreferences] = useFilePreferences(file);
+  const savedLoops = preferences.loops ?? [];
+
+  useEffect(() => {
+    setMode('off');
+    setPointA(null);
+    setRangeState(null);
+  }, [file?.id]);
+
+  const markA = useCallback((position: number) => {
+    setPointA(position);
+    setRangeState(null);
+    setMode((current) => (current === 'ab' ? 'off' : current));
+  }, []);
+
+  const markB = useCallback(
+    (position: number) => {
+      if (pointA === null || position - pointA < MIN_LOOP_LENGTH) return false;
+      setRangeState(clampLoopRange({ start: pointA, end: position }, durationMillis));
+      setPointA(null);
+      setMode('ab');
+      return true;
+    },
+    [pointA, durationMillis]
+  );
+
+  const setRange = useCallback(
+    (next: LoopRange) => setRangeState(clampLoopRange(next, durationMillis)),
+    [durationMillis]
+  );
+
+  const clearRange = useCallback(() => {
+    setPointA(null);
+    setRangeState(null);
+    setMode((current) => (current === 'ab' ? 'off' : current));
+  }, []);
+
+  const changeMode = useCallback(
+    (next: LoopMode) => {
+      // A–B needs a range; without one fall back to leaving the mode alone.
+      if (next === 'ab' && !range) return;
+      setMode(next);
+    },
+    [range]
+  );
+
+  const getLoopBackPosition = (position: number): number | null => {
+    if (mode !== 'ab' || !range) return null;
+    return position >= range.end ? range.start : null;
+  };
+
+  const saveLoop = () => {
+    if (!range) return;
+    const label = `${formatTime(range.start)} – ${formatTime(range.end)}`;
+    updatePreferences({ loops: [...savedLoops, createSavedLoop(range, label)] });
+  };
+
+  const recallLoop = (loop: SavedLoop) => {
+    setPointA(null);
+    setRangeState(clampLoopRange(loop, durationMillis));
+    setMode('ab');
+  };
+
+  const deleteLoop = (id: string) => {
+    updatePreferences({ loops: savedLoops.filter((loop) => loop.id !== id) });
+  };
+
+  return {
+    mode,
+    pointA,
+    range,
+    savedLoops,
+    markA,
+    markB,
+    setRange,
+    clearRange,
+    setMode: changeMode,
+    getLoopBackPosition,
+    saveLoop,
+    recallLoop,
+    deleteLoop,
+  };
+}
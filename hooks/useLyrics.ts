@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import * as DocumentPicker from 'expo-document-picker';
+import { useFilePreferences } from './useFilePreferences';
+import {
+  findSidecarLyrics,
+  forgetLyrics,
+  loadLyricsFile,
+  LyricsSource,
+  rememberLyrics,
+} from '@/lib/lyricsStore';
+import { Lyrics, readEmbeddedLyrics } from '@/lib/lyrics';
+import { MediaFile } from '@/lib/mediaLibrary';
+
+/** Where the lyrics being shown came from; embedded ones have no file to forget. */
+export type LyricsOrigin = { kind: 'file'; source: LyricsSource } | { kind: 'embedded' };
+
+/**
+ * Lyrics for `file`: a sidecar or previously picked lyrics file wins over
+ * the USLT/SYLT frames embedded in the file itself.
+ */
+export function useLyrics(file: MediaFile | undefined) {
+  const [preferences, updatePreferences] = useFilePreferences(file);
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+  const [origin, setOrigin] = useState<LyricsOrigin | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEmbedded = async (media: MediaFile, isCancelled: () => boolean) => {
+    // Streams would have to be downloaded to find their tags.
+    if (media.type !== 'audio' || media.remote) return;
+    try {
+      const embedded = await readEmbeddedLyrics(media.uri);
+      if (!embedded || isCancelled()) return;
+      setLyrics(embedded);
+      setOrigin({ kind: 'embedded' });
+    } catch (readError) {
+      console.error('Error reading lyrics:', readError);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const isCancelled = () => cancelled;
+    setLyrics(null);
+    setOrigin(null);
+    setError(null);
+    if (!file) return;
+
+    (async () => {
+      const sidecar = await findSidecarLyrics(file.name, file.uri);
+      if (cancelled) return;
+      if (sidecar) {
+        try {
+          const parsed = await loadLyricsFile(sidecar);
+          if (cancelled) return;
+          setLyrics(parsed);
+          setOrigin({ kind: 'file', source: sidecar });
+          return;
+        } catch {
+          // The remembered copy has gone (e.g. the cache was cleared).
+          forgetLyrics(file.name);
+        }
+      }
+      await loadEmbedded(file, isCancelled);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file?.id, file?.uri]);
+
+  const pickLyrics = async () => {
+    if (!file) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      const picked = { name: asset.name || 'Lyrics', uri: asset.uri };
+      const parsed = await loadLyricsFile(picked);
+      setLyrics(parsed);
+      setOrigin({ kind: 'file', source: picked });
+      setError(null);
+      rememberLyrics(file.name, picked);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load lyrics');
+    }
+  };
+
+  /** Drops a picked lyrics file, going back to the embedded lyrics if there are any. */
+  const clearLyrics = () => {
+    if (!file) return;
+    forgetLyrics(file.name);
+    setLyrics(null);
+    setOrigin(null);
+    loadEmbedded(file, () => false);
+  };
+
+  const offset = preferences.lyricsOffset ?? 0;
+  const setOffset = (next: number) => updatePreferences({ lyricsOffset: next || undefined });
+
+  return { lyrics, origin, offset, setOffset, error, pickLyrics, clearLyrics };
+}
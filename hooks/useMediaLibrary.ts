@@ -0,0 +1,26 @@
+import { useCallback } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import {
+  libraryStore,
+  queryMediaFiles,
+  MediaFile,
+  MediaQuery,
+  LibraryState,
+} from '@/lib/mediaLibrary';
+
+export function useMediaFiles(query: MediaQuery = {}): MediaFile[] {
+  const { type, search, sortBy } = query;
+  const selector = useCallback(
+    (state: LibraryState) => queryMediaFiles(state.files, { type, search, sortBy }),
+    [type, search, sortBy]
+  );
+  return usePersistedStore(libraryStore, selector);
+}
+
+export function useMediaFile(id: string | null | undefined): MediaFile | undefined {
+  const selector = useCallback(
+    (state: LibraryState) => state.files.find((file) => file.id === id),
+    [id]
+  );
+  return usePersistedStore(libraryStore, selector);
+}
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+import { MediaFile } from '@/lib/mediaLibrary';
+import { loadTagsIntoLibrary } from '@/lib/tags';
+import { loadLoudnessIntoLibrary } from '@/lib/loudness';
+
+/**
+ * Reads the embedded tags of `file` the first time it is shown, then
+ * measures its loudness if the tags had no ReplayGain. The results land on
+ * the library record, so callers pick them up through useMediaFile.
+ */
+export function useMediaTags(file: MediaFile | undefined) {
+  // Other record changes, such as a play count going up, have nothing to redo.
+  useEffect(() => {
+    if (!file) return;
+    if (!file.tags) {
+      loadTagsIntoLibrary(file).catch((error) => console.error('Error reading tags:', error));
+      return;
+    }
+    loadLoudnessIntoLibrary(file).catch((error) =>
+      console.error('Error measuring loudness:', error)
+    );
+  }, [file?.id, file?.tags, file?.loudness]);
+}
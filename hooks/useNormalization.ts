@@ -0,0 +1,29 @@
+import { useMemo } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { libraryStore, LibraryState, MediaFile } from '@/lib/mediaLibrary';
+import {
+  countUnleveledTracks,
+  getNormalizationVolume,
+  normalizationStore,
+  NormalizationState,
+} from '@/lib/loudness';
+
+const selectMode = (state: NormalizationState) => state.mode;
+const selectFiles = (state: LibraryState) => state.files;
+
+export function useNormalizationMode() {
+  return usePersistedStore(normalizationStore, selectMode);
+}
+
+/** The volume that levels `file` with everything else, in the mode set in Settings. */
+export function useNormalizationVolume(file: MediaFile | undefined): number {
+  const mode = useNormalizationMode();
+  const files = usePersistedStore(libraryStore, selectFiles);
+  return useMemo(() => getNormalizationVolume(file, files, mode), [file, files, mode]);
+}
+
+/** How many tracks normalization can't level, to show next to the mode. */
+export function useUnleveledTrackCount(): number {
+  const files = usePersistedStore(libraryStore, selectFiles);
+  return useMemo(() => countUnleveledTracks(files), [files]);
+}
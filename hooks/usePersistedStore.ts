@@ -0,0 +1,27 @@
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { PersistedStore } from '@/lib/createPersistedStore';
+
+export function usePersistedStore<T, U>(
+  store: PersistedStore<T>,
+  selector: (state: T) => U
+): U {
+  const cache = useRef<{ state: T; selector: (state: T) => U; result: U } | null>(null);
+
+  useEffect(() => {
+    store.hydrate();
+  }, [store]);
+
+  // Memoise on state identity so selectors that build new arrays don't make
+  // useSyncExternalStore think the snapshot changes on every read.
+  const getSnapshot = () => {
+    const state = store.getState();
+    if (cache.current && cache.current.state === state && cache.current.selector === selector) {
+      return cache.current.result;
+    }
+    const result = selector(state);
+    cache.current = { state, selector, result };
+    return result;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
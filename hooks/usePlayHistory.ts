@@ -0,0 +1,9 @@
+import { usePersistedStore } from './usePersistedStore';
+import { historyStore, PlayHistoryState, PlaySession } from '@/lib/playHistory';
+
+const selectSessions = (state: PlayHistoryState) => state.sessions;
+
+/** Every recorded session, oldest first. */
+export function usePlayHistory(): PlaySession[] {
+  return usePersistedStore(historyStore, selectSessions);
+}
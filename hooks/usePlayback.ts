@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { MediaFile } from '@/lib/mediaLibrary';
+import {
+  playbackEngine,
+  PlaybackBackend,
+  PlaybackEventName,
+  PlaybackListener,
+  PlaybackOptions,
+  PlaybackOwner,
+  PlaybackSnapshot,
+  PlaybackState,
+} from '@/lib/playback';
+
+const selectSnapshot = (snapshot: PlaybackSnapshot) => snapshot;
+
+export function usePlaybackState(): PlaybackSnapshot;
+export function usePlaybackState<T>(selector: (snapshot: PlaybackSnapshot) => T): T;
+export function usePlaybackState<T>(
+  selector: (snapshot: PlaybackSnapshot) => T = selectSnapshot as (snapshot: PlaybackSnapshot) => T
+): T {
+  const getSnapshot = useCallback(() => selector(playbackEngine.getState()), [selector]);
+  return useSyncExternalStore(playbackEngine.subscribe, getSnapshot, getSnapshot);
+}
+
+/** Subscribes to an engine event; the latest `listener` is always the one called. */
+export function usePlaybackEvent<E extends PlaybackEventName>(
+  event: E,
+  listener: PlaybackListener<E>
+) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(
+    () => playbackEngine.on(event, (payload) => listenerRef.current(payload)),
+    [event]
+  );
+}
+
+/**
+ * Plays `file` through the shared engine. The file is loaded when it changes,
+ * and starts playing if this screen's previous file was playing or had just
+ * finished. If another screen has taken the engine since, playing it again
+ * reloads it where it left off. Everything returned describes this file only.
+ */
+export function useMediaPlayback(
+  owner: PlaybackOwner,
+  file: MediaFile | undefined,
+  getBackend: () => PlaybackBackend | null,
+  options: Partial<PlaybackOptions> = {}
+) {
+  const snapshot = usePlaybackState();
+  const isCurrent =
+    !!file && snapshot.owner === owner && snapshot.file?.id === file.id && snapshot.state !== 'idle';
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const getBackendRef = useRef(getBackend);
+  getBackendRef.current = getBackend;
+  const lastPositionRef = useRef(0);
+  if (isCurrent) {
+    lastPositionRef.current = snapshot.positionMillis;
+  }
+
+  const load = useCallback(
+    async (autoPlay = false, positionMillis = 0) => {
+      const backend = getBackendRef.current();
+      if (!file || !backend) return;
+      await playbackEngine.load(file, backend, {
+        owner,
+        autoPlay,
+        positionMillis,
+        options: optionsRef.current,
+      });
+    },
+    // A new remote source means it was signed in to again, so that load is retried too.
+    [file?.id, file?.uri, file?.remote]
+  );
+
+  useEffect(() => {
+    lastPositionRef.current = 0;
+    const current = playbackEngine.getState();
+    if (!file) {
+      // Nothing left to play here, e.g. the queue was cleared.
+      if (current.owner === owner) playbackEngine.stop();
+      return;
+    }
+    // Already playing here, e.g. after coming back from another tab.
+    const isLoaded = current.state !== 'idle' && current.state !== 'error';
+    if (isLoaded && current.owner === owner && current.file?.id === file.id) {
+      return;
+    }
+    const wasPlaying =
+      current.owner === owner && (current.state === 'playing' || current.state === 'ended');
+    load(wasPlaying);
+  }, [load]);
+
+  const { rate, shouldCorrectPitch, volume, isLooping, progressUpdateIntervalMillis } = options;
+  useEffect(() => {
+    if (isCurrent) playbackEngine.setOptions(optionsRef.current);
+  }, [isCurrent, rate, shouldCorrectPitch, volume, isLooping, progressUpdateIntervalMillis]);
+
+  const togglePlayPause = useCallback(async () => {
+    if (isCurrent) {
+      await playbackEngine.togglePlayPause();
+    } else {
+      await load(true, lastPositionRef.current);
+    }
+  }, [isCurrent, load]);
+
+  const seek = useCallback(
+    async (positionMillis: number) => {
+      if (isCurrent) {
+        await playbackEngine.seek(positionMillis);
+      } else {
+        lastPositionRef.current = positionMillis;
+      }
+    },
+    [isCurrent]
+  );
+
+  const state: PlaybackState = isCurrent ? snapshot.state : file ? 'paused' : 'idle';
+
+  return {
+    state,
+    isCurrent,
+    isPlaying: state === 'playing',
+    isBuffering: isCurrent && (snapshot.isBuffering || snapshot.state === 'loading'),
+    positionMillis: isCurrent ? snapshot.positionMillis : lastPositionRef.current,
+    durationMillis: isCurrent ? snapshot.durationMillis : file?.duration ?? 0,
+    bufferedMillis: isCurrent ? snapshot.bufferedMillis : 0,
+    error: isCurrent ? snapshot.error : null,
+    togglePlayPause,
+    seek,
+    /** Loads the file again, e.g. to retry after an error. */
+    reload: () => load(false, lastPositionRef.current),
+  };
+}
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { useFilePreferences } from './useFilePreferences';
+import { MediaFile } from '@/lib/mediaLibrary';
+import {
+  clampSpeed,
+  rememberSpeedForType,
+  speedSettingsStore,
+  SpeedSettingsState,
+} from '@/lib/playbackSpeed';
+
+const selectSettings = (state: SpeedSettingsState) => state;
+
+/**
+ * The playback speed for `file`: its own remembered speed, else the last
+ * speed used for that media type. Changing it updates both.
+ */
+export function usePlaybackSpeed(file: MediaFile | undefined) {
+  const settings = usePersistedStore(speedSettingsStore, selectSettings);
+  const [preferences, updatePreferences] = useFilePreferences(file);
+
+  const speed = preferences.speed ?? (file ? settings.lastSpeedByType[file.type] : 1) ?? 1;
+
+  const setSpeed = useCallback(
+    (value: number) => {
+      if (!file) return;
+      const next = clampSpeed(value);
+      updatePreferences({ speed: next });
+      rememberSpeedForType(file.type, next);
+    },
+    [file?.type, updatePreferences]
+  );
+
+  return {
+    speed,
+    setSpeed,
+    pitchCorrection: settings.pitchCorrection,
+    presets: settings.presets,
+  };
+}
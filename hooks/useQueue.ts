@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { libraryStore, LibraryState, MediaFile } from '@/lib/mediaLibrary';
+import { getCurrentItem, getNextItemId, queueStore, QueueItem, QueueState } from '@/lib/queue';
+
+export interface QueueEntry extends QueueItem {
+  file: MediaFile | undefined;
+}
+
+const selectQueue = (state: QueueState) => state;
+const selectFiles = (state: LibraryState) => state.files;
+
+/** The audio queue with each entry resolved to its library record. */
+export function useQueue() {
+  const queue = usePersistedStore(queueStore, selectQueue);
+  const files = usePersistedStore(libraryStore, selectFiles);
+
+  const entries = useMemo<QueueEntry[]>(
+    () =>
+      queue.items.map((item) => ({
+        ...item,
+        file: files.find((file) => file.id === item.fileId),
+      })),
+    [queue.items, files]
+  );
+
+  return {
+    ...queue,
+    entries,
+    currentItem: getCurrentItem(queue),
+    hasNext: getNextItemId(queue, false, () => 0) !== null,
+  };
+}
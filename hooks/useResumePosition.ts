@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState } from 'react-native';
+import { getMediaKey, MediaFile } from '@/lib/mediaLibrary';
+import { playbackEngine } from '@/lib/playback';
+import {
+  clearPlaybackPosition,
+  getResumePosition,
+  savePlaybackPosition,
+} from '@/lib/playbackPositions';
+
+const SAVE_INTERVAL = 5000;
+
+/**
+ * Tracks the playback position of `file` so it can be offered for resuming
+ * next time. Progress comes from the playback engine while it is playing
+ * `file`; the position is saved every few seconds, when the file changes and
+ * when the app is backgrounded.
+ */
+export function useResumePosition(file: MediaFile | undefined) {
+  const key = file ? getMediaKey(file) : null;
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+
+  const keyRef = useRef(key);
+  const latestRef = useRef<{ position: number; duration: number } | null>(null);
+  const lastSavedRef = useRef(0);
+
+  useEffect(() => {
+    keyRef.current = key;
+    latestRef.current = null;
+    lastSavedRef.current = 0;
+    setResumePosition(null);
+    if (!key) return;
+
+    let cancelled = false;
+    getResumePosition(key).then((position) => {
+      if (!cancelled) setResumePosition(position);
+    });
+
+    return () => {
+      cancelled = true;
+      const latest = latestRef.current;
+      if (latest) {
+        savePlaybackPosition(key, latest.position, latest.duration);
+      }
+    };
+  }, [key]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      const latest = latestRef.current;
+      if (state !== 'active' && keyRef.current && latest) {
+        savePlaybackPosition(keyRef.current, latest.position, latest.duration);
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    const isThisFile = (playing: MediaFile | null) =>
+      !!playing && !!keyRef.current && getMediaKey(playing) === keyRef.current;
+
+    const stopProgress = playbackEngine.on('progress', (snapshot) => {
+      const currentKey = keyRef.current;
+      if (!currentKey || !isThisFile(snapshot.file) || snapshot.state === 'ended') return;
+
+      const position = snapshot.positionMillis;
+      const duration = snapshot.durationMillis;
+      latestRef.current = { position, duration };
+
+      if (Math.abs(position - lastSavedRef.current) >= SAVE_INTERVAL) {
+        lastSavedRef.current = position;
+        savePlaybackPosition(currentKey, position, duration);
+      }
+    });
+
+    const stopEnded = playbackEngine.on('ended', ({ file: ended }) => {
+      if (!keyRef.current || !isThisFile(ended)) return;
+      latestRef.current = null;
+      clearPlaybackPosition(keyRef.current);
+    });
+
+    return () => {
+      stopProgress();
+      stopEnded();
+    };
+  }, []);
+
+  const dismissResume = useCallback(() => setResumePosition(null), []);
+
+  const startOver = useCallback(() => {
+    if (keyRef.current) clearPlaybackPosition(keyRef.current);
+    setResumePosition(null);
+  }, []);
+
+  return { resumePosition, dismissResume, startOver };
+}
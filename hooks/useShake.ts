@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { Accelerometer } from 'expo-sensors';
+
+/** Acceleration in g, gravity included, that counts as a shake. */
+const SHAKE_THRESHOLD = 1.8;
+/** One shake moves the phone back and forth several times; count it once. */
+const SHAKE_COOLDOWN_MILLIS = 1000;
+const UPDATE_INTERVAL_MILLIS = 100;
+
+/** Calls `onShake` when the device is shaken, while `enabled`. */
+export function useShake(onShake: () => void, enabled = true) {
+  const onShakeRef = useRef(onShake);
+  onShakeRef.current = onShake;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let subscription: { remove: () => void } | null = null;
+    let lastShake = 0;
+
+    Accelerometer.isAvailableAsync()
+      .then((available) => {
+        if (!available || cancelled) return;
+        Accelerometer.setUpdateInterval(UPDATE_INTERVAL_MILLIS);
+        subscription = Accelerometer.addListener(({ x, y, z }) => {
+          const now = Date.now();
+          if (Math.sqrt(x * x + y * y + z * z) < SHAKE_THRESHOLD) return;
+          if (now - lastShake < SHAKE_COOLDOWN_MILLIS) return;
+          lastShake = now;
+          onShakeRef.current();
+        });
+      })
+      .catch((error) => console.warn('Shake detection unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [enabled]);
+}
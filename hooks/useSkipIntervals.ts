@@ -0,0 +1,9 @@
+import { usePersistedStore } from './usePersistedStore';
+import { skipIntervalsStore, SkipIntervalsState } from '@/lib/skipIntervals';
+
+const selectIntervals = (state: SkipIntervalsState) => state;
+
+/** How far the skip-back and skip-forward buttons jump, as set in Settings. */
+export function useSkipIntervals(): SkipIntervalsState {
+  return usePersistedStore(skipIntervalsStore, selectIntervals);
+}
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getSleepTimer, SleepTimer, subscribeSleepTimer } from '@/lib/sleepTimer';
+
+export function useSleepTimer(): SleepTimer | null {
+  return useSyncExternalStore(subscribeSleepTimer, getSleepTimer, getSleepTimer);
+}
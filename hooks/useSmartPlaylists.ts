@@ -0,0 +1,25 @@
+import { useCallback } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { libraryStore, LibraryState, MediaFile } from '@/lib/mediaLibrary';
+import {
+  getSmartPlaylistFiles,
+  SmartPlaylist,
+  smartPlaylistStore,
+  SmartPlaylistState,
+} from '@/lib/smartPlaylists';
+
+const selectPlaylists = (state: SmartPlaylistState) => state.playlists;
+const NO_FILES: MediaFile[] = [];
+
+export function useSmartPlaylists(): SmartPlaylist[] {
+  return usePersistedStore(smartPlaylistStore, selectPlaylists);
+}
+
+/** The files `playlist` selects, kept up to date as the library changes. */
+export function useSmartPlaylistFiles(playlist: SmartPlaylist | undefined): MediaFile[] {
+  const selector = useCallback(
+    (state: LibraryState) => (playlist ? getSmartPlaylistFiles(state.files, playlist) : NO_FILES),
+    [playlist]
+  );
+  return usePersistedStore(libraryStore, selector);
+}
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import * as DocumentPicker from 'expo-document-picker';
+import { usePersistedStore } from './usePersistedStore';
+import {
+  subtitleStore,
+  findSidecarSubtitle,
+  forgetSubtitle,
+  loadSubtitleCues,
+  rememberSubtitle,
+  SubtitleSource,
+  SubtitleState,
+} from '@/lib/subtitleStore';
+import { SubtitleCue } from '@/lib/subtitles';
+import { MediaFile } from '@/lib/mediaLibrary';
+
+const selectEnabled = (state: SubtitleState) => state.enabled;
+const selectAppearance = (state: SubtitleState) => state.appearance;
+
+export function useSubtitleAppearance() {
+  return usePersistedStore(subtitleStore, selectAppearance);
+}
+
+export function useSubtitles(file: MediaFile | undefined) {
+  const enabled = usePersistedStore(subtitleStore, selectEnabled);
+  const [source, setSource] = useState<SubtitleSource | null>(null);
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSource(null);
+    setCues([]);
+    setError(null);
+    if (!file) return;
+
+    (async () => {
+      const sidecar = await findSidecarSubtitle(file.name, file.uri);
+      if (!sidecar || cancelled) return;
+      try {
+        const parsed = await loadSubtitleCues(sidecar);
+        if (cancelled) return;
+        setSource(sidecar);
+        setCues(parsed);
+      } catch {
+        // The remembered copy has gone (e.g. the cache was cleared).
+        forgetSubtitle(file.name);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file?.id, file?.uri]);
+
+  const pickSubtitle = async () => {
+    if (!file) return;
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      const picked = { name: asset.name || 'Subtitles', uri: asset.uri };
+      const parsed = await loadSubtitleCues(picked);
+      setSource(picked);
+      setCues(parsed);
+      setError(null);
+      rememberSubtitle(file.name, picked);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load subtitles');
+    }
+  };
+
+  const clearSubtitle = () => {
+    if (file) forgetSubtitle(file.name);
+    setSource(null);
+    setCues([]);
+  };
+
+  return {
+    enabled,
+    source,
+    cues: enabled ? cues : [],
+    error,
+    pickSubtitle,
+    clearSubtitle,
+  };
+}
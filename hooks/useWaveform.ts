@@ -0,0 +1,23 @@
+import { useCallback, useEffect } from 'react';
+import { usePersistedStore } from './usePersistedStore';
+import { MediaFile } from '@/lib/mediaLibrary';
+import { getCachedWaveform, loadWaveform, waveformStore, WaveformState } from '@/lib/waveform';
+
+/**
+ * The waveform overview of `file`, computed the first time it is shown.
+ * Undefined while it is being computed or when the file can't be decoded.
+ */
+export function useWaveform(file: MediaFile | undefined): number[] | undefined {
+  const selector = useCallback(
+    (state: WaveformState) => (file ? getCachedWaveform(state, file) : undefined),
+    [file]
+  );
+  const peaks = usePersistedStore(waveformStore, selector);
+
+  useEffect(() => {
+    if (!file || peaks) return;
+    loadWaveform(file).catch((error) => console.error('Error computing waveform:', error));
+  }, [file, peaks]);
+
+  return peaks;
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { playbackEngine, PlaybackOwner, PlaybackSnapshot } from '@/lib/playback';
+import {
+  getMediaElementGraph,
+  isWebAudioSupported,
+  MediaElementGraph,
+  resumeWebAudio,
+} from '@/lib/webAudio';
+import { usePlaybackEvent, usePlaybackState } from './usePlayback';
+
+const selectFile = (snapshot: PlaybackSnapshot) => snapshot.file;
+const selectIsLoaded = (snapshot: PlaybackSnapshot) =>
+  snapshot.state !== 'idle' && snapshot.state !== 'loading' && snapshot.state !== 'error';
+
+/**
+ * The Web Audio graph of whatever `owner` is playing, on web only. Streams
+ * are left alone: without CORS headers a routed element plays silence.
+ */
+export function useMediaElementGraph(owner: PlaybackOwner): MediaElementGraph | null {
+  const file = usePlaybackState(selectFile);
+  const isLoaded = usePlaybackState(selectIsLoaded);
+  const [graph, setGraph] = useState<MediaElementGraph | null>(null);
+
+  useEffect(() => {
+    if (
+      !isWebAudioSupported() ||
+      !isLoaded ||
+      !file ||
+      file.remote ||
+      playbackEngine.getState().owner !== owner
+    ) {
+      setGraph(null);
+      return;
+    }
+    const element = playbackEngine.getBackend()?.getMediaElement?.();
+    setGraph(element ? getMediaElementGraph(element) : null);
+    resumeWebAudio().catch((error) => console.error('Error resuming audio:', error));
+  }, [file, isLoaded, owner]);
+
+  // Browsers keep a context suspended until it is resumed after a user gesture.
+  usePlaybackEvent('statechange', ({ state }) => {
+    if (state === 'playing') {
+      resumeWebAudio().catch((error) => console.error('Error resuming audio:', error));
+    }
+  });
+
+  return graph;
+}
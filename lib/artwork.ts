@@ -0,0 +1,144 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { createPersistedStore } from './createPersistedStore';
+import { encodeBase64 } from './files';
+import { getMediaKey, MediaFile } from './mediaLibrary';
+import { TagPicture } from './tags/types';
+
+const ARTWORK_DIRECTORY = `${FileSystem.documentDirectory}artwork/`;
+
+/**
+ * Web has no file system, so covers are kept as data: URIs in a cache of
+ * their own, and records only hold a reference into it. The cache shares
+ * localStorage with everything else, so covers are shrunk to thumbnails and
+ * only the most recent are kept.
+ */
+const WEB_REFERENCE_PREFIX = 'artwork:';
+const WEB_ARTWORK_SIZE = 256;
+const MAX_WEB_ARTWORK_LENGTH = 64 * 1024;
+const MAX_ENTRIES = 60;
+
+interface SavedArtwork {
+  uri: string;
+  updatedAt: number;
+}
+
+export interface ArtworkState {
+  covers: Record<string, SavedArtwork>;
+}
+
+export const artworkStore = createPersistedStore<ArtworkState>({
+  key: 'artwork',
+  version: 1,
+  initialState: { covers: {} },
+});
+
+/** The URI an Image can show for a record's thumbnail, which may point into the web cache. */
+export function resolveArtwork(
+  state: ArtworkState,
+  thumbnail: string | undefined
+): string | undefined {
+  if (!thumbnail?.startsWith(WEB_REFERENCE_PREFIX)) return thumbnail;
+  return state.covers[thumbnail.slice(WEB_REFERENCE_PREFIX.length)]?.uri;
+}
+
+/** Whether the thumbnail points into the web cache at a cover that has since been evicted. */
+export function isEvictedArtwork(state: ArtworkState, thumbnail: string | undefined): boolean {
+  return !!thumbnail?.startsWith(WEB_REFERENCE_PREFIX) && !resolveArtwork(state, thumbnail);
+}
+
+/** Marks a web cover as just shown, so eviction takes the ones not seen for longest. */
+export function touchArtwork(thumbnail: string | undefined): void {
+  if (!thumbnail?.startsWith(WEB_REFERENCE_PREFIX)) return;
+  const key = thumbnail.slice(WEB_REFERENCE_PREFIX.length);
+  artworkStore.setState((prev) =>
+    prev.covers[key]
+      ? { covers: { ...prev.covers, [key]: { ...prev.covers[key], updatedAt: Date.now() } } }
+      : prev
+  );
+}
+
+/** Stores a web cover and returns the reference to keep on the record. */
+export function cacheWebArtwork(key: string, uri: string): string {
+  // Updates made before the cache has loaded are replayed on top of it.
+  artworkStore.hydrate();
+  artworkStore.setState((prev) => {
+    const covers = { ...prev.covers, [key]: { uri, updatedAt: Date.now() } };
+
+    const keys = Object.keys(covers);
+    if (keys.length > MAX_ENTRIES) {
+      keys
+        .sort((a, b) => covers[a].updatedAt - covers[b].updatedAt)
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach((stale) => delete covers[stale]);
+    }
+
+    return { covers };
+  });
+  return `${WEB_REFERENCE_PREFIX}${key}`;
+}
+
+/**
+ * Moves a cover that an older record kept inline into the cache. Those were
+ * never shrunk, so oversize ones are left out of the cache and read from the
+ * file again the next time they are shown.
+ */
+export function migrateWebArtwork(key: string, uri: string): string {
+  if (uri.length <= MAX_WEB_ARTWORK_LENGTH) return cacheWebArtwork(key, uri);
+  return `${WEB_REFERENCE_PREFIX}${key}`;
+}
+
+/** Draws the cover onto a canvas no bigger than a thumbnail and re-encodes it as JPEG. */
+function shrinkWebArtwork(uri: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new globalThis.Image();
+    image.onload = () => {
+      const scale = Math.min(1, WEB_ARTWORK_SIZE / Math.max(image.width, image.height));
+      const canvas = globalThis.document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.onerror = () => reject(new Error('Could not decode the artwork'));
+    image.src = uri;
+  });
+}
+
+/** Saves an embedded picture and returns the thumbnail to store on the record. */
+export async function saveArtwork(
+  file: Pick<MediaFile, 'id' | 'name' | 'size' | 'type' | 'uri' | 'remote'>,
+  picture: TagPicture
+): Promise<string | null> {
+  const base64 = encodeBase64(picture.data);
+  if (Platform.OS === 'web') {
+    const uri = await shrinkWebArtwork(`data:${picture.mimeType};base64,${base64}`);
+    return uri.length <= MAX_WEB_ARTWORK_LENGTH ? cacheWebArtwork(getMediaKey(file), uri) : null;
+  }
+
+  const extension = picture.mimeType === 'image/png' ? 'png' : 'jpg';
+  const uri = `${ARTWORK_DIRECTORY}${file.id}.${extension}`;
+  await FileSystem.makeDirectoryAsync(ARTWORK_DIRECTORY, { intermediates: true });
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+}
+
+export async function deleteArtwork(uri: string | undefined): Promise<void> {
+  if (uri?.startsWith(WEB_REFERENCE_PREFIX)) {
+    const key = uri.slice(WEB_REFERENCE_PREFIX.length);
+    await artworkStore.hydrate();
+    artworkStore.setState((prev) => {
+      const covers = { ...prev.covers };
+      delete covers[key];
+      return { covers };
+    });
+    return;
+  }
+  if (Platform.OS === 'web' || !uri?.startsWith(ARTWORK_DIRECTORY)) return;
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+}
@@ -0,0 +1,51 @@
+import { ResizeMode } from 'expo-av';
+
+export type AspectMode = 'fit' | 'fill' | 'stretch' | '16:9' | '4:3' | '21:9';
+
+export const ASPECT_MODES: AspectMode[] = ['fit', 'fill', 'stretch', '16:9', '4:3', '21:9'];
+
+export const ASPECT_MODE_LABELS: Record<AspectMode, string> = {
+  fit: 'Fit',
+  fill: 'Fill',
+  stretch: 'Stretch',
+  '16:9': '16:9',
+  '4:3': '4:3',
+  '21:9': '21:9',
+};
+
+const FIXED_RATIOS: Partial<Record<AspectMode, number>> = {
+  '16:9': 16 / 9,
+  '4:3': 4 / 3,
+  '21:9': 21 / 9,
+};
+
+export interface VideoFrame {
+  resizeMode: ResizeMode;
+  /** Set for fixed ratios: the largest box of that ratio that fits the container. */
+  width?: number;
+  height?: number;
+}
+
+export function getVideoFrame(
+  mode: AspectMode,
+  container: { width: number; height: number }
+): VideoFrame {
+  const ratio = FIXED_RATIOS[mode];
+  if (ratio) {
+    const width = Math.min(container.width, container.height * ratio);
+    return { resizeMode: ResizeMode.STRETCH, width, height: width / ratio };
+  }
+
+  switch (mode) {
+    case 'fill':
+      return { resizeMode: ResizeMode.COVER };
+    case 'stretch':
+      return { resizeMode: ResizeMode.STRETCH };
+    default:
+      return { resizeMode: ResizeMode.CONTAIN };
+  }
+}
+
+export function nextAspectMode(mode: AspectMode): AspectMode {
+  return ASPECT_MODES[(ASPECT_MODES.indexOf(mode) + 1) % ASPECT_MODES.length];
+}
@@ -0,0 +1,134 @@
+// Getting at raw samples: Web Audio can decode anything the browser plays,
+// while native builds only read WAV, which is plain samples.
+import { ByteSource } from './files';
+import { readAscii, readUint32LE } from './binary';
+
+export interface DecodedAudio {
+  /** One array per channel, from -1 to 1. */
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+/** Files bigger than this would take too much memory to decode in one go. */
+const MAX_DECODE_SIZE = 100 * 1024 * 1024;
+
+/** Decodes the whole file, resampled to `sampleRate`. Null where Web Audio isn't available. */
+export async function decodeWithWebAudio(
+  uri: string,
+  sampleRate: number
+): Promise<DecodedAudio | null> {
+  if (typeof OfflineAudioContext === 'undefined') return null;
+  const response = await fetch(uri);
+  const data = await response.arrayBuffer();
+  if (data.byteLength > MAX_DECODE_SIZE) return null;
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(data);
+  return {
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i)),
+    sampleRate: buffer.sampleRate,
+  };
+}
+
+/** The largest absolute sample in any channel between `start` and `end`. */
+export function getSamplePeak(
+  channels: Float32Array[],
+  start = 0,
+  end = channels[0]?.length ?? 0
+): number {
+  let peak = 0;
+  for (const samples of channels) {
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+  }
+  return peak;
+}
+
+export interface WavFormat {
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  isFloat: boolean;
+  dataStart: number;
+  dataSize: number;
+}
+
+export async function readWavFormat(source: ByteSource): Promise<WavFormat | null> {
+  const header = await source.read(0, 12);
+  if (readAscii(header, 0, 4) !== 'RIFF' || readAscii(header, 8, 4) !== 'WAVE') return null;
+
+  let offset = 12;
+  let format: Omit<WavFormat, 'dataStart' | 'dataSize'> | null = null;
+  while (offset + 8 <= source.size) {
+    const chunk = await source.read(offset, 8);
+    const id = readAscii(chunk, 0, 4);
+    const size = readUint32LE(chunk, 4);
+    if (id === 'fmt ') {
+      const bytes = await source.read(offset + 8, Math.min(size, 40));
+      if (bytes.length < 16) return null;
+      const fmt = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      let tag = fmt.getUint16(0, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format at the start of its subformat GUID.
+      if (tag === 0xfffe && fmt.byteLength >= 26) tag = fmt.getUint16(24, true);
+      if (tag !== 1 && tag !== 3) return null;
+      format = {
+        channels: fmt.getUint16(2, true),
+        sampleRate: fmt.getUint32(4, true),
+        bitsPerSample: fmt.getUint16(14, true),
+        isFloat: tag === 3,
+      };
+    } else if (id === 'data') {
+      if (!format) return null;
+      return { ...format, dataStart: offset + 8, dataSize: Math.min(size, source.size - offset - 8) };
+    }
+    // Chunks are padded to an even length.
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/** Whether this module can read the format's samples at all. */
+export function isReadableWav(format: WavFormat): boolean {
+  return format.channels > 0 && format.bitsPerSample > 0 && format.bitsPerSample % 8 === 0;
+}
+
+export function getWavFrameCount(format: WavFormat): number {
+  return Math.floor(format.dataSize / ((format.bitsPerSample / 8) * format.channels));
+}
+
+function readSample(view: DataView, offset: number, bits: number, isFloat: boolean): number {
+  if (isFloat) return bits === 64 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24:
+      return ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608;
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+/** Reads `count` frames from `startFrame`, split into one array per channel. */
+export async function readWavFrames(
+  source: ByteSource,
+  format: WavFormat,
+  startFrame: number,
+  count: number
+): Promise<Float32Array[]> {
+  const sampleSize = format.bitsPerSample / 8;
+  const frameSize = sampleSize * format.channels;
+  const bytes = await source.read(format.dataStart + startFrame * frameSize, count * frameSize);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames = Math.floor(bytes.length / frameSize);
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < format.channels; channel++) {
+      const offset = frame * frameSize + channel * sampleSize;
+      channels[channel][frame] = readSample(view, offset, format.bitsPerSample, format.isFloat);
+    }
+  }
+  return channels;
+}
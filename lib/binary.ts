@@ -0,0 +1,138 @@
+// Helpers for reading big-endian fields and text out of container headers.
+// Hermes has no TextDecoder, so text decoding is done by hand.
+
+export function readUint16(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+export function readUint24(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2];
+}
+
+export function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset] * 0x1000000 +
+    ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3])
+  );
+}
+
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (
+    bytes[offset + 3] * 0x1000000 +
+    ((bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset])
+  );
+}
+
+/** ID3v2 sizes keep the top bit of every byte clear. */
+export function readSyncsafe(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset] & 0x7f) * 0x200000 +
+    ((bytes[offset + 1] & 0x7f) << 14) +
+    ((bytes[offset + 2] & 0x7f) << 7) +
+    (bytes[offset + 3] & 0x7f)
+  );
+}
+
+/** Values above 2^53 lose precision, which is fine for sizes and timestamps. */
+export function readUint64(bytes: Uint8Array, offset: number): number {
+  return readUint32(bytes, offset) * 0x100000000 + readUint32(bytes, offset + 4);
+}
+
+/** Reads an unsigned integer of any width up to 8 bytes. */
+export function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = offset; i < offset + length && i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+export function decodeLatin1(bytes: Uint8Array): string {
+  return readAscii(bytes, 0, bytes.length);
+}
+
+/** Each malformed sequence becomes U+FFFD and decoding resumes at the next byte. */
+export function decodeUtf8(bytes: Uint8Array): string {
+  let text = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    if (byte < 0x80) {
+      text += String.fromCharCode(byte);
+      continue;
+    }
+
+    let length: number;
+    let min: number;
+    let codePoint: number;
+    if (byte >= 0xc2 && byte < 0xe0) {
+      length = 1;
+      min = 0x80;
+      codePoint = byte & 0x1f;
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      length = 2;
+      min = 0x800;
+      codePoint = byte & 0x0f;
+    } else if (byte >= 0xf0 && byte < 0xf5) {
+      length = 3;
+      min = 0x10000;
+      codePoint = byte & 0x07;
+    } else {
+      text += '\ufffd';
+      continue;
+    }
+
+    let valid = i + length <= bytes.length;
+    for (let j = 0; valid && j < length; j++) {
+      const next = bytes[i + j];
+      if ((next & 0xc0) !== 0x80) valid = false;
+      else codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+    // Overlong forms, UTF-16 surrogates and values past U+10FFFF are all invalid.
+    if (
+      !valid ||
+      codePoint < min ||
+      codePoint > 0x10ffff ||
+      (codePoint >= 0xd800 && codePoint <= 0xdfff)
+    ) {
+      text += '\ufffd';
+      continue;
+    }
+    i += length;
+    text += String.fromCodePoint(codePoint);
+  }
+  return text;
+}
+
+/** Honours a byte order mark, otherwise uses the given endianness. */
+export function decodeUtf16(bytes: Uint8Array, littleEndian = false): string {
+  let start = 0;
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    littleEndian = true;
+    start = 2;
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    littleEndian = false;
+    start = 2;
+  }
+
+  let text = '';
+  for (let i = start; i + 1 < bytes.length; i += 2) {
+    text += String.fromCharCode(
+      littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]
+    );
+  }
+  return text;
+}
+
+/** Strips the trailing NULs that fixed-size and C-style strings are padded with. */
+export function trimNulls(text: string): string {
+  return text.replace(/\0+$/, '');
+}
@@ -0,0 +1,105 @@
+import { createPersistedStore } from './createPersistedStore';
+import { formatTime } from './format';
+
+export interface Bookmark {
+  id: string;
+  position: number;
+  note: string;
+  createdAt: number;
+}
+
+export interface BookmarksState {
+  /** Bookmarks for each file, keyed by `getMediaKey` and sorted by position. */
+  files: Record<string, Bookmark[]>;
+}
+
+export type BookmarkExportFormat = 'markdown' | 'csv' | 'chapters';
+
+export const bookmarksStore = createPersistedStore<BookmarksState>({
+  key: 'bookmarks',
+  version: 1,
+  initialState: { files: {} },
+});
+
+const updateFileBookmarks = (key: string, update: (bookmarks: Bookmark[]) => Bookmark[]) => {
+  bookmarksStore.setState((prev) => ({
+    files: {
+      ...prev.files,
+      [key]: update(prev.files[key] ?? []).sort((a, b) => a.position - b.position),
+    },
+  }));
+};
+
+export function addBookmark(key: string, position: number, note = ''): Bookmark {
+  const bookmark: Bookmark = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    position: Math.max(0, Math.round(position)),
+    note: note.trim(),
+    createdAt: Date.now(),
+  };
+  updateFileBookmarks(key, (bookmarks) => [...bookmarks, bookmark]);
+  return bookmark;
+}
+
+export function updateBookmarkNote(key: string, id: string, note: string) {
+  updateFileBookmarks(key, (bookmarks) =>
+    bookmarks.map((bookmark) => (bookmark.id === id ? { ...bookmark, note: note.trim() } : bookmark))
+  );
+}
+
+export function removeBookmark(key: string, id: string) {
+  updateFileBookmarks(key, (bookmarks) => bookmarks.filter((bookmark) => bookmark.id !== id));
+}
+
+/** YouTube wants zero-padded minutes ("04:05") and hours only when needed. */
+function formatChapterTime(millis: number): string {
+  const totalSeconds = Math.floor(millis / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+    .toString()
+    .padStart(2, '0');
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+const escapeCsv = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function exportBookmarks(
+  bookmarks: Bookmark[],
+  format: BookmarkExportFormat,
+  fileName: string
+): string {
+  const titled = bookmarks.map((bookmark, index) => ({
+    ...bookmark,
+    title: bookmark.note || `Bookmark ${index + 1}`,
+  }));
+
+  switch (format) {
+    case 'csv':
+      return [
+        'position_ms,timestamp,note',
+        ...titled.map((bookmark) =>
+          [bookmark.position, formatTime(bookmark.position), escapeCsv(bookmark.note)].join(',')
+        ),
+      ].join('\n');
+
+    case 'chapters': {
+      // YouTube only recognises a chapter list that starts at 00:00.
+      const lines = titled.map(
+        (bookmark) => `${formatChapterTime(bookmark.position)} ${bookmark.title}`
+      );
+      if (titled.length === 0 || titled[0].position >= 1000) {
+        lines.unshift('00:00 Start');
+      }
+      return lines.join('\n');
+    }
+
+    default:
+      return [
+        `# Bookmarks: ${fileName}`,
+        '',
+        ...titled.map((bookmark) => `- **${formatTime(bookmark.position)}** ${bookmark.title}`),
+      ].join('\n');
+  }
+}
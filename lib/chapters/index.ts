@@ -0,0 +1,88 @@
+import { openByteSource, ByteSource } from '@/lib/files';
+import { readAscii } from '@/lib/binary';
+import { parseMatroskaChapters } from './matroska';
+import { parseMp4Chapters } from './mp4';
+import { Chapter, ChapterSource } from './types';
+
+export * from './types';
+
+/** "Previous chapter" restarts the current one when this far into it. */
+export const CHAPTER_RESTART_THRESHOLD = 3000;
+
+const MP4_BOX_TYPES = ['ftyp', 'moov', 'mdat', 'free', 'wide', 'skip'];
+
+/** Sniffs the container from its first bytes; extensions are often wrong (.mp4 vs .m4v vs .mov). */
+export function detectChapterSource(header: Uint8Array): ChapterSource | null {
+  if (header[0] === 0x1a && header[1] === 0x45 && header[2] === 0xdf && header[3] === 0xa3) {
+    return 'matroska';
+  }
+  if (MP4_BOX_TYPES.includes(readAscii(header, 4, 4))) {
+    return 'mp4';
+  }
+  return null;
+}
+
+/** Sorts by start, drops duplicates and names untitled chapters. */
+function normalizeChapters(chapters: Chapter[]): Chapter[] {
+  const sorted = [...chapters]
+    .filter((chapter) => Number.isFinite(chapter.start) && chapter.start >= 0)
+    .sort((a, b) => a.start - b.start)
+    .filter((chapter, index, list) => index === 0 || chapter.start !== list[index - 1].start);
+
+  return sorted.map((chapter, index) => ({
+    start: chapter.start,
+    title: chapter.title.trim() || `Chapter ${index + 1}`,
+  }));
+}
+
+export async function parseChapters(source: ByteSource): Promise<Chapter[]> {
+  const header = await source.read(0, 12);
+  switch (detectChapterSource(header)) {
+    case 'mp4':
+      return normalizeChapters(await parseMp4Chapters(source));
+    case 'matroska':
+      return normalizeChapters(await parseMatroskaChapters(source));
+    default:
+      return [];
+  }
+}
+
+export async function readChapters(uri: string): Promise<Chapter[]> {
+  return parseChapters(await openByteSource(uri));
+}
+
+/** Index of the chapter playing at `position`, or -1 before the first one. */
+export function findChapterIndex(chapters: Chapter[], position: number): number {
+  let low = 0;
+  let high = chapters.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (chapters[mid].start <= position) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+export function getChapterEnd(chapters: Chapter[], index: number, durationMillis: number): number {
+  return index + 1 < chapters.length ? chapters[index + 1].start : durationMillis;
+}
+
+/** Where "previous chapter" should go: the current chapter's start, or the one before. */
+export function getPreviousChapterStart(chapters: Chapter[], position: number): number {
+  const index = findChapterIndex(chapters, position);
+  if (index < 0) return 0;
+  if (position - chapters[index].start > CHAPTER_RESTART_THRESHOLD || index === 0) {
+    return chapters[index].start;
+  }
+  return chapters[index - 1].start;
+}
+
+export function getNextChapterStart(chapters: Chapter[], position: number): number | null {
+  const next = chapters[findChapterIndex(chapters, position) + 1];
+  return next ? next.start : null;
+}
@@ -0,0 +1,197 @@
+import { ByteSource } from '@/lib/files';
+import { decodeUtf8, readUint } from '@/lib/binary';
+import { Chapter } from './types';
+
+const EBML_HEADER = 0x1a45dfa3;
+const SEGMENT = 0x18538067;
+const SEEK_HEAD = 0x114d9b74;
+const SEEK = 0x4dbb;
+const SEEK_ID = 0x53ab;
+const SEEK_POSITION = 0x53ac;
+const CLUSTER = 0x1f43b675;
+const CHAPTERS = 0x1043a770;
+const EDITION_ENTRY = 0x45b9;
+const EDITION_FLAG_HIDDEN = 0x45bd;
+const EDITION_FLAG_DEFAULT = 0x45db;
+const CHAPTER_ATOM = 0xb6;
+const CHAPTER_TIME_START = 0x91;
+const CHAPTER_FLAG_HIDDEN = 0x98;
+const CHAPTER_FLAG_ENABLED = 0x4598;
+const CHAPTER_DISPLAY = 0x80;
+const CHAP_STRING = 0x85;
+
+/** Chapters are small; a bigger element is corrupt. */
+const MAX_CHAPTERS_SIZE = 4 * 1024 * 1024;
+
+interface Element {
+  id: number;
+  /** Offset of the element's data, after the header. */
+  start: number;
+  /** null for the "unknown size" used by live-streamed files. */
+  size: number | null;
+}
+
+/** Length of a variable-size integer, from the position of its first set bit. */
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  return 0;
+}
+
+function parseElementHeader(bytes: Uint8Array, offset: number): Element | null {
+  const idLength = vintLength(bytes[offset]);
+  if (idLength === 0 || idLength > 4 || offset + idLength >= bytes.length) return null;
+  const id = readUint(bytes, offset, idLength);
+
+  const sizeOffset = offset + idLength;
+  const sizeLength = vintLength(bytes[sizeOffset]);
+  if (sizeLength === 0 || sizeOffset + sizeLength > bytes.length) return null;
+
+  let size = bytes[sizeOffset] & (0xff >> sizeLength);
+  let unknown = size === 0xff >> sizeLength;
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + bytes[sizeOffset + i];
+    unknown = unknown && bytes[sizeOffset + i] === 0xff;
+  }
+
+  return { id, start: sizeOffset + sizeLength, size: unknown ? null : size };
+}
+
+function childElements(bytes: Uint8Array, start: number, end: number): Element[] {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const element = parseElementHeader(bytes, offset);
+    if (!element || element.size === null) break;
+    elements.push(element);
+    offset = element.start + element.size;
+  }
+  return elements;
+}
+
+function readUintElement(bytes: Uint8Array, element: Element): number {
+  return readUint(bytes, element.start, element.size ?? 0);
+}
+
+function parseChapterAtom(bytes: Uint8Array, atom: Element): Chapter | null {
+  const children = childElements(bytes, atom.start, atom.start + (atom.size ?? 0));
+  let start: number | null = null;
+  let title = '';
+  let visible = true;
+
+  for (const child of children) {
+    if (child.id === CHAPTER_TIME_START) {
+      start = readUintElement(bytes, child) / 1e6;
+    } else if (child.id === CHAPTER_FLAG_HIDDEN && readUintElement(bytes, child) === 1) {
+      visible = false;
+    } else if (child.id === CHAPTER_FLAG_ENABLED && readUintElement(bytes, child) === 0) {
+      visible = false;
+    } else if (child.id === CHAPTER_DISPLAY && !title) {
+      const display = childElements(bytes, child.start, child.start + (child.size ?? 0));
+      const string = display.find((item) => item.id === CHAP_STRING);
+      if (string) {
+        title = decodeUtf8(bytes.subarray(string.start, string.start + (string.size ?? 0)));
+      }
+    }
+  }
+
+  return visible && start !== null ? { start, title } : null;
+}
+
+/** Uses the default edition, or the first visible one. Nested sub-chapters are left out. */
+function parseChaptersElement(bytes: Uint8Array): Chapter[] {
+  const editions = childElements(bytes, 0, bytes.length).filter(
+    (element) => element.id === EDITION_ENTRY
+  );
+  const flag = (edition: Element, id: number) => {
+    const children = childElements(bytes, edition.start, edition.start + (edition.size ?? 0));
+    const element = children.find((child) => child.id === id);
+    return element ? readUintElement(bytes, element) : 0;
+  };
+
+  const edition =
+    editions.find((item) => flag(item, EDITION_FLAG_DEFAULT) === 1) ??
+    editions.find((item) => flag(item, EDITION_FLAG_HIDDEN) !== 1);
+  if (!edition) return [];
+
+  return childElements(bytes, edition.start, edition.start + (edition.size ?? 0))
+    .filter((element) => element.id === CHAPTER_ATOM)
+    .map((atom) => parseChapterAtom(bytes, atom))
+    .filter((chapter): chapter is Chapter => chapter !== null);
+}
+
+async function readElementAt(source: ByteSource, offset: number) {
+  const header = await source.read(offset, 12);
+  const element = parseElementHeader(header, 0);
+  return element && { ...element, start: offset + element.start };
+}
+
+async function readChaptersAt(source: ByteSource, offset: number): Promise<Chapter[] | null> {
+  const element = await readElementAt(source, offset);
+  if (!element || element.id !== CHAPTERS || element.size === null) return null;
+  if (element.size > MAX_CHAPTERS_SIZE) return null;
+  return parseChaptersElement(await source.read(element.start, element.size));
+}
+
+/** Positions of the elements a SeekHead points at, relative to the segment's data. */
+function parseSeekHead(bytes: Uint8Array): { id: number; position: number }[] {
+  return childElements(bytes, 0, bytes.length)
+    .filter((element) => element.id === SEEK)
+    .map((seek) => {
+      const children = childElements(bytes, seek.start, seek.start + (seek.size ?? 0));
+      const id = children.find((child) => child.id === SEEK_ID);
+      const position = children.find((child) => child.id === SEEK_POSITION);
+      return {
+        id: id ? readUintElement(bytes, id) : 0,
+        position: position ? readUintElement(bytes, position) : -1,
+      };
+    })
+    .filter((seek) => seek.position >= 0);
+}
+
+/**
+ * Walks the segment's top-level elements by header only. Chapters normally
+ * come before the first cluster; when they don't, the SeekHead says where
+ * they are, so the clusters themselves never need reading.
+ */
+export async function parseMatroskaChapters(source: ByteSource): Promise<Chapter[]> {
+  const ebml = await readElementAt(source, 0);
+  if (!ebml || ebml.id !== EBML_HEADER || ebml.size === null) return [];
+
+  const segment = await readElementAt(source, ebml.start + ebml.size);
+  if (!segment || segment.id !== SEGMENT) return [];
+
+  const segmentEnd = segment.size === null ? source.size : segment.start + segment.size;
+  const seekHeads = new Set<number>();
+  let offset = segment.start;
+
+  while (offset < segmentEnd) {
+    const element = await readElementAt(source, offset);
+    if (!element || element.size === null) break;
+
+    if (element.id === CHAPTERS) {
+      return (await readChaptersAt(source, offset)) ?? [];
+    }
+
+    if (element.id === SEEK_HEAD && !seekHeads.has(offset)) {
+      seekHeads.add(offset);
+      const seeks = parseSeekHead(await source.read(element.start, element.size));
+      const chapters = seeks.find((seek) => seek.id === CHAPTERS);
+      if (chapters) {
+        return (await readChaptersAt(source, segment.start + chapters.position)) ?? [];
+      }
+      // A SeekHead may only point at a second SeekHead at the end of the file.
+      const next = seeks.find((seek) => seek.id === SEEK_HEAD);
+      if (next && !seekHeads.has(segment.start + next.position)) {
+        offset = segment.start + next.position;
+        continue;
+      }
+    }
+
+    if (element.id === CLUSTER) break;
+    offset = element.start + element.size;
+  }
+
+  return [];
+}
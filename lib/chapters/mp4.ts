@@ -0,0 +1,170 @@
+import { ByteSource } from '@/lib/files';
+import { decodeUtf16, decodeUtf8, readUint32, readUint64, trimNulls } from '@/lib/binary';
+import { Box, childBoxes, findBox, parseBoxHeader, readMovieBox } from '@/lib/mp4Boxes';
+import { Chapter } from './types';
+
+/** Nero chapters: `moov/udta/chpl`, start times in 100ns units. */
+function parseNeroChapters(bytes: Uint8Array, moov: Box): Chapter[] {
+  const chpl = findBox(bytes, moov, ['udta', 'chpl']);
+  if (!chpl) return [];
+
+  const version = bytes[chpl.start];
+  let offset = chpl.start + 4 + (version > 0 ? 4 : 0);
+  const count = bytes[offset++];
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < count && offset + 9 <= chpl.end; i++) {
+    const start = readUint64(bytes, offset) / 10000;
+    const titleLength = bytes[offset + 8];
+    offset += 9;
+    const title = decodeUtf8(bytes.subarray(offset, Math.min(offset + titleLength, chpl.end)));
+    offset += titleLength;
+    chapters.push({ start, title });
+  }
+  return chapters;
+}
+
+function trackId(bytes: Uint8Array, trak: Box): number | null {
+  const tkhd = findBox(bytes, trak, ['tkhd']);
+  if (!tkhd) return null;
+  const version = bytes[tkhd.start];
+  return readUint32(bytes, tkhd.start + (version === 1 ? 20 : 12));
+}
+
+function chapterTrackIds(bytes: Uint8Array, trak: Box): number[] {
+  const chap = findBox(bytes, trak, ['tref', 'chap']);
+  if (!chap) return [];
+  const ids: number[] = [];
+  for (let offset = chap.start; offset + 4 <= chap.end; offset += 4) {
+    ids.push(readUint32(bytes, offset));
+  }
+  return ids;
+}
+
+// Chapter tracks hold one sample per chapter, so more than this is a corrupt header.
+const MAX_SAMPLES = 10000;
+
+/** A table's entry count, clamped to the entries that actually fit in its box. */
+function tableLength(bytes: Uint8Array, box: Box, headerSize: number, entrySize: number): number {
+  const fits = Math.max(0, Math.floor((box.end - box.start - headerSize) / entrySize));
+  return Math.min(readUint32(bytes, box.start + headerSize - 4), fits);
+}
+
+interface SampleTable {
+  timescale: number;
+  /** Duration of each sample in timescale units. */
+  durations: number[];
+  offsets: number[];
+  sizes: number[];
+}
+
+function readSampleTable(bytes: Uint8Array, trak: Box): SampleTable | null {
+  const mdhd = findBox(bytes, trak, ['mdia', 'mdhd']);
+  const stbl = findBox(bytes, trak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return null;
+
+  const timescale = readUint32(bytes, mdhd.start + (bytes[mdhd.start] === 1 ? 20 : 12));
+  const boxes = childBoxes(bytes, stbl);
+  const get = (type: string) => boxes.find((box) => box.type === type);
+  const stts = get('stts');
+  const stsz = get('stsz');
+  const stsc = get('stsc');
+  const chunkOffsets = get('stco') ?? get('co64');
+  if (!timescale || !stts || !stsz || !stsc || !chunkOffsets) return null;
+
+  const sizes: number[] = [];
+  const uniformSize = readUint32(bytes, stsz.start + 4);
+  const sampleCount = uniformSize
+    ? Math.min(readUint32(bytes, stsz.start + 8), MAX_SAMPLES)
+    : tableLength(bytes, stsz, 12, 4);
+  for (let i = 0; i < sampleCount; i++) {
+    sizes.push(uniformSize || readUint32(bytes, stsz.start + 12 + i * 4));
+  }
+
+  const durations: number[] = [];
+  const sttsCount = tableLength(bytes, stts, 8, 8);
+  for (let i = 0; i < sttsCount && durations.length < sizes.length; i++) {
+    const entry = stts.start + 8 + i * 8;
+    const count = Math.min(readUint32(bytes, entry), sizes.length - durations.length);
+    const delta = readUint32(bytes, entry + 4);
+    for (let j = 0; j < count; j++) durations.push(delta);
+  }
+
+  const is64 = chunkOffsets.type === 'co64';
+  const chunks: number[] = [];
+  const chunkCount = tableLength(bytes, chunkOffsets, 8, is64 ? 8 : 4);
+  for (let i = 0; i < chunkCount; i++) {
+    const entry = chunkOffsets.start + 8 + i * (is64 ? 8 : 4);
+    chunks.push(is64 ? readUint64(bytes, entry) : readUint32(bytes, entry));
+  }
+
+  // stsc runs say how many samples each chunk holds, from a first chunk onward.
+  const runs: { firstChunk: number; samplesPerChunk: number }[] = [];
+  const stscCount = tableLength(bytes, stsc, 8, 12);
+  for (let i = 0; i < stscCount; i++) {
+    const entry = stsc.start + 8 + i * 12;
+    runs.push({
+      firstChunk: readUint32(bytes, entry),
+      samplesPerChunk: readUint32(bytes, entry + 4),
+    });
+  }
+
+  const offsets: number[] = [];
+  let sample = 0;
+  for (let chunk = 0; chunk < chunks.length && sample < sizes.length; chunk++) {
+    const run = [...runs].reverse().find((item) => item.firstChunk <= chunk + 1);
+    let offset = chunks[chunk];
+    for (let i = 0; i < (run?.samplesPerChunk ?? 1) && sample < sizes.length; i++) {
+      offsets.push(offset);
+      offset += sizes[sample++];
+    }
+  }
+
+  return { timescale, durations, offsets, sizes };
+}
+
+/** A text sample is a 16-bit length followed by UTF-8, or UTF-16 with a BOM. */
+function decodeTextSample(sample: Uint8Array): string {
+  if (sample.length < 2) return '';
+  const length = Math.min((sample[0] << 8) | sample[1], sample.length - 2);
+  const text = sample.subarray(2, 2 + length);
+  const isUtf16 = (text[0] === 0xfe && text[1] === 0xff) || (text[0] === 0xff && text[1] === 0xfe);
+  return trimNulls(isUtf16 ? decodeUtf16(text) : decodeUtf8(text));
+}
+
+/** QuickTime chapters: a text track referenced from another track's `tref/chap`. */
+async function parseChapterTrack(
+  source: ByteSource,
+  bytes: Uint8Array,
+  moov: Box
+): Promise<Chapter[]> {
+  const traks = childBoxes(bytes, moov).filter((box) => box.type === 'trak');
+  const ids = new Set(traks.flatMap((trak) => chapterTrackIds(bytes, trak)));
+  const chapterTrak = traks.find((trak) => ids.has(trackId(bytes, trak) ?? -1));
+  if (!chapterTrak) return [];
+
+  const table = readSampleTable(bytes, chapterTrak);
+  if (!table) return [];
+
+  const chapters: Chapter[] = [];
+  let time = 0;
+  for (let i = 0; i < table.offsets.length; i++) {
+    const sample = await source.read(table.offsets[i], table.sizes[i]);
+    chapters.push({
+      start: (time / table.timescale) * 1000,
+      title: decodeTextSample(sample),
+    });
+    time += table.durations[i] ?? 0;
+  }
+  return chapters;
+}
+
+export async function parseMp4Chapters(source: ByteSource): Promise<Chapter[]> {
+  const bytes = await readMovieBox(source);
+  if (!bytes) return [];
+
+  const root = parseBoxHeader(bytes, 0, bytes.length);
+  if (!root) return [];
+
+  const fromTrack = await parseChapterTrack(source, bytes, root);
+  return fromTrack.length > 0 ? fromTrack : parseNeroChapters(bytes, root);
+}
@@ -0,0 +1,7 @@
+export type ChapterSource = 'mp4' | 'matroska';
+
+export interface Chapter {
+  /** Start time in milliseconds. A chapter runs until the next one starts. */
+  start: number;
+  title: string;
+}
@@ -0,0 +1,162 @@
+import { readItem, writeItem } from './storage';
+
+type Listener = () => void;
+type Updater<T> = (prev: T) => T;
+
+/**
+ * Upgrades persisted data from one schema version to the next. Keyed by the
+ * version being migrated *from*, so `{ 1: v1ToV2 }` turns v1 data into v2.
+ */
+export type Migrations = Record<number, (data: unknown) => unknown>;
+
+export interface PersistedStoreOptions<T> {
+  key: string;
+  version: number;
+  initialState: T;
+  migrations?: Migrations;
+  serialize?: (state: T) => unknown;
+  deserialize?: (data: unknown) => T;
+}
+
+export interface PersistedStore<T> {
+  getState: () => T;
+  setState: (updater: Updater<T>) => void;
+  subscribe: (listener: Listener) => () => void;
+  hydrate: () => Promise<void>;
+  isHydrated: () => boolean;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+export function createPersistedStore<T>({
+  key,
+  version,
+  initialState,
+  migrations = {},
+  serialize = (state) => state,
+  deserialize = (data) => data as T,
+}: PersistedStoreOptions<T>): PersistedStore<T> {
+  let state = initialState;
+  let hydrated = false;
+  let hydration: Promise<void> | null = null;
+  let pendingUpdates: Updater<T>[] = [];
+  // Stays off while stored data couldn't be read or set aside, so it is never overwritten.
+  let canPersist = true;
+  const listeners = new Set<Listener>();
+
+  let writing = false;
+  let writeQueued = false;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  // Coalesce writes so frequent updates only ever keep one write in flight.
+  const persist = async () => {
+    if (!canPersist) return;
+    if (writing) {
+      writeQueued = true;
+      return;
+    }
+    writing = true;
+    try {
+      const envelope: Envelope = { version, data: serialize(state) };
+      await writeItem(key, JSON.stringify(envelope));
+    } catch (error) {
+      console.error(`Failed to persist ${key}:`, error);
+    } finally {
+      writing = false;
+      if (writeQueued) {
+        writeQueued = false;
+        persist();
+      }
+    }
+  };
+
+  const migrate = (envelope: Envelope): unknown => {
+    let data = envelope.data;
+    for (let from = envelope.version; from < version; from++) {
+      const step = migrations[from];
+      if (!step) {
+        throw new Error(`No migration for ${key} from version ${from}`);
+      }
+      data = step(data);
+    }
+    return data;
+  };
+
+  // Keeps unreadable data under `<key>.corrupt` before the store starts writing over it.
+  const backUp = async (raw: string | null): Promise<boolean> => {
+    if (raw === null) return false;
+    try {
+      await writeItem(`${key}.corrupt`, raw);
+      return true;
+    } catch (error) {
+      console.error(`Failed to back up ${key}:`, error);
+      return false;
+    }
+  };
+
+  const load = async () => {
+    let raw: string | null = null;
+    try {
+      raw = await readItem(key);
+      if (raw) {
+        const parsed = JSON.parse(raw);
+        // Data written before the store was versioned is treated as version 0.
+        const envelope: Envelope =
+          parsed && typeof parsed === 'object' && 'version' in parsed
+            ? parsed
+            : { version: 0, data: parsed };
+
+        if (envelope.version > version) {
+          throw new Error(`${key} was saved by a newer version (${envelope.version})`);
+        }
+        state = deserialize(migrate(envelope));
+      }
+    } catch (error) {
+      console.error(`Failed to load ${key}:`, error);
+      canPersist = await backUp(raw);
+    }
+
+    hydrated = true;
+    const updates = pendingUpdates;
+    pendingUpdates = [];
+    updates.forEach((update) => {
+      state = update(state);
+    });
+    if (updates.length > 0) {
+      persist();
+    }
+    notify();
+  };
+
+  return {
+    getState: () => state,
+    // Updates made before hydration finishes are replayed on top of the
+    // loaded data instead of being overwritten by it.
+    setState: (updater) => {
+      if (!hydrated) {
+        pendingUpdates.push(updater);
+        return;
+      }
+      state = updater(state);
+      notify();
+      persist();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    hydrate: () => {
+      if (!hydration) {
+        hydration = load();
+      }
+      return hydration;
+    },
+    isHydrated: () => hydrated,
+  };
+}
@@ -0,0 +1,39 @@
+import { createPersistedStore } from './createPersistedStore';
+import { getAlbumKey, MediaFile } from './mediaLibrary';
+
+/** The choices offered in Settings, in the order tapping cycles through them; 0 is gapless. */
+export const CROSSFADE_DURATIONS = [0, 2000, 4000, 6000, 8000, 10000, 12000];
+
+export interface CrossfadeState {
+  crossfadeMillis: number;
+}
+
+export const crossfadeStore = createPersistedStore<CrossfadeState>({
+  key: 'crossfade',
+  version: 1,
+  initialState: { crossfadeMillis: 0 },
+});
+
+export function cycleCrossfade() {
+  crossfadeStore.setState((prev) => {
+    const index = CROSSFADE_DURATIONS.indexOf(prev.crossfadeMillis);
+    return { crossfadeMillis: CROSSFADE_DURATIONS[(index + 1) % CROSSFADE_DURATIONS.length] };
+  });
+}
+
+export function formatCrossfade(millis: number): string {
+  return millis === 0 ? 'Gapless' : `${Math.round(millis / 1000)}s`;
+}
+
+/**
+ * How long `current` should fade into `next`. Consecutive tracks from the
+ * same album are often mixed to run into each other, so they stay gapless.
+ */
+export function getCrossfadeMillis(
+  current: MediaFile,
+  next: MediaFile,
+  crossfadeMillis: number
+): number {
+  const key = getAlbumKey(current);
+  return key !== null && key === getAlbumKey(next) ? 0 : crossfadeMillis;
+}
@@ -0,0 +1,116 @@
+import { createPersistedStore } from './createPersistedStore';
+
+/** Centre frequencies of the ten bands, an octave apart. */
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const MIN_GAIN = -12;
+export const MAX_GAIN = 12;
+export const GAIN_STEP = 0.5;
+
+/** A curve in dB: one gain per band plus the preamp applied before them. */
+export interface EqualizerSettings {
+  preamp: number;
+  gains: number[];
+}
+
+export interface EqualizerPreset extends EqualizerSettings {
+  id: string;
+  name: string;
+}
+
+export const FLAT_SETTINGS: EqualizerSettings = {
+  preamp: 0,
+  gains: EQ_FREQUENCIES.map(() => 0),
+};
+
+// Boosting presets pull the preamp down so the loudest band doesn't clip.
+export const BUILT_IN_PRESETS: EqualizerPreset[] = [
+  { id: 'flat', name: 'Flat', ...FLAT_SETTINGS },
+  { id: 'bass-boost', name: 'Bass Boost', preamp: -5, gains: [6, 6, 5, 3, 1, 0, 0, 0, 0, 0] },
+  { id: 'vocal', name: 'Vocal', preamp: -3, gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { id: 'treble', name: 'Treble', preamp: -5, gains: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+];
+
+export interface EqualizerState {
+  enabled: boolean;
+  settings: EqualizerSettings;
+  customPresets: EqualizerPreset[];
+}
+
+export const equalizerStore = createPersistedStore<EqualizerState>({
+  key: 'equalizer',
+  version: 1,
+  initialState: {
+    enabled: false,
+    settings: FLAT_SETTINGS,
+    customPresets: [],
+  },
+});
+
+export function clampGain(gain: number): number {
+  const stepped = Math.round(gain / GAIN_STEP) * GAIN_STEP;
+  return Math.min(MAX_GAIN, Math.max(MIN_GAIN, stepped));
+}
+
+export function formatGain(gain: number): string {
+  return `${gain > 0 ? '+' : ''}${gain}`;
+}
+
+export function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+}
+
+export function withBandGain(
+  settings: EqualizerSettings,
+  band: number,
+  gain: number
+): EqualizerSettings {
+  return {
+    ...settings,
+    gains: settings.gains.map((value, index) => (index === band ? clampGain(gain) : value)),
+  };
+}
+
+export function withPreamp(settings: EqualizerSettings, preamp: number): EqualizerSettings {
+  return { ...settings, preamp: clampGain(preamp) };
+}
+
+/** The preset `settings` matches exactly, if any, so the panel can highlight it. */
+export function findMatchingPreset(
+  settings: EqualizerSettings,
+  presets: EqualizerPreset[]
+): EqualizerPreset | undefined {
+  return presets.find(
+    (preset) =>
+      preset.preamp === settings.preamp &&
+      preset.gains.every((gain, index) => gain === settings.gains[index])
+  );
+}
+
+export function setEqualizerEnabled(enabled: boolean) {
+  equalizerStore.setState((prev) => ({ ...prev, enabled }));
+}
+
+export function setEqualizerSettings(settings: EqualizerSettings) {
+  equalizerStore.setState((prev) => ({ ...prev, settings }));
+}
+
+export function saveEqualizerPreset(name: string, settings: EqualizerSettings) {
+  const preset: EqualizerPreset = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    preamp: settings.preamp,
+    gains: [...settings.gains],
+  };
+  equalizerStore.setState((prev) => ({
+    ...prev,
+    customPresets: [...prev.customPresets, preset],
+  }));
+}
+
+export function deleteEqualizerPreset(id: string) {
+  equalizerStore.setState((prev) => ({
+    ...prev,
+    customPresets: prev.customPresets.filter((preset) => preset.id !== id),
+  }));
+}
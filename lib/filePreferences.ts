@@ -0,0 +1,39 @@
+import { createPersistedStore } from './createPersistedStore';
+import { AspectMode } from './aspectRatio';
+import { SavedLoop } from './loops';
+import { EqualizerSettings } from './equalizer';
+
+/** Settings remembered for an individual file, keyed by `getMediaKey`. */
+export interface FilePreferences {
+  aspectMode?: AspectMode;
+  speed?: number;
+  loops?: SavedLoop[];
+  /** Replaces the global equalizer curve for this file. */
+  equalizer?: EqualizerSettings;
+  /** Milliseconds the lyrics are shown ahead of the audio; negative delays them. */
+  lyricsOffset?: number;
+}
+
+export interface FilePreferencesState {
+  files: Record<string, FilePreferences>;
+}
+
+export const filePreferencesStore = createPersistedStore<FilePreferencesState>({
+  key: 'file-preferences',
+  version: 1,
+  initialState: { files: {} },
+});
+
+export function getFilePreferences(key: string): FilePreferences {
+  return filePreferencesStore.getState().files[key] ?? {};
+}
+
+export function updateFilePreferences(key: string, changes: Partial<FilePreferences>) {
+  filePreferencesStore.setState((prev) => ({
+    ...prev,
+    files: {
+      ...prev.files,
+      [key]: { ...prev.files[key], ...changes },
+    },
+  }));
+}
@@ -0,0 +1,94 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+/** "Movie.Name.mkv" -> "Movie.Name" */
+export function getBaseName(fileName: string): string {
+  const name = fileName.split(/[\\/]/).pop() ?? fileName;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+export function getExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+export function getDirectoryUri(uri: string): string {
+  return uri.slice(0, uri.lastIndexOf('/') + 1);
+}
+
+export async function fileExists(uri: string): Promise<boolean> {
+  if (Platform.OS === 'web' || !uri.startsWith('file://')) return false;
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    return info.exists;
+  } catch {
+    return false;
+  }
+}
+
+// Picked files are blob: or data: URLs on web, which FileSystem can't read.
+export async function readTextFile(uri: string): Promise<string> {
+  if (Platform.OS === 'web') {
+    const response = await fetch(uri);
+    return response.text();
+  }
+  return FileSystem.readAsStringAsync(uri);
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so String.fromCharCode never gets more arguments than the engine allows.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Random access to a file's bytes without loading all of it, for parsing
+ * container headers. Reads past the end come back short.
+ */
+export interface ByteSource {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+}
+
+export async function openByteSource(uri: string): Promise<ByteSource> {
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(uri)).blob();
+    return {
+      size: blob.size,
+      read: async (offset, length) =>
+        new Uint8Array(await blob.slice(offset, offset + length).arrayBuffer()),
+    };
+  }
+
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) {
+    throw new Error('File not found');
+  }
+  const size = info.size;
+  return {
+    size,
+    read: async (offset, length) => {
+      const available = Math.min(length, size - offset);
+      if (available <= 0) return new Uint8Array(0);
+      const base64 = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length: available,
+      });
+      return decodeBase64(base64);
+    },
+  };
+}
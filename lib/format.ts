@@ -0,0 +1,20 @@
+export function formatTime(millis: number): string {
+  const totalSeconds = Math.floor(Math.max(0, millis) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/** "3h 20m", "45m" or "<1m", for listening totals rather than positions. */
+export function formatDuration(millis: number): string {
+  const totalMinutes = Math.floor(Math.max(0, millis) / 60000);
+  if (totalMinutes < 1) return '<1m';
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
@@ -0,0 +1,84 @@
+import { Platform } from 'react-native';
+import * as ScreenOrientation from 'expo-screen-orientation';
+
+type Listener = () => void;
+
+let isFullscreen = false;
+const listeners = new Set<Listener>();
+
+export function getIsFullscreen(): boolean {
+  return isFullscreen;
+}
+
+export function subscribeFullscreen(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function setFullscreen(value: boolean) {
+  if (isFullscreen === value) return;
+  isFullscreen = value;
+  listeners.forEach((listener) => listener());
+}
+
+/** Outside of fullscreen video the app stays portrait, as it always has. */
+export async function lockPortrait() {
+  if (Platform.OS === 'web') return;
+  try {
+    await ScreenOrientation.lockAsync(ScreenOrientation.OrientationLock.PORTRAIT_UP);
+  } catch (error) {
+    console.warn('Failed to lock orientation:', error);
+  }
+}
+
+/**
+ * Goes fullscreen, rotating to landscape unless the video is taller than it
+ * is wide. The status bar and tab bar follow `getIsFullscreen`.
+ */
+export async function enterFullscreen(naturalSize?: { width: number; height: number }) {
+  setFullscreen(true);
+
+  if (Platform.OS === 'web') {
+    const document = globalThis.document;
+    if (!document?.documentElement.requestFullscreen) return;
+    // Leaving with Esc or the browser UI must also leave our fullscreen mode.
+    const onChange = () => {
+      if (!document.fullscreenElement) {
+        document.removeEventListener('fullscreenchange', onChange);
+        setFullscreen(false);
+      }
+    };
+    await document.documentElement.requestFullscreen().then(
+      () => document.addEventListener('fullscreenchange', onChange),
+      () => {}
+    );
+    return;
+  }
+
+  const isPortraitVideo = naturalSize ? naturalSize.height > naturalSize.width : false;
+  try {
+    await ScreenOrientation.lockAsync(
+      isPortraitVideo
+        ? ScreenOrientation.OrientationLock.PORTRAIT_UP
+        : ScreenOrientation.OrientationLock.LANDSCAPE
+    );
+  } catch (error) {
+    console.warn('Failed to lock orientation:', error);
+  }
+}
+
+export async function exitFullscreen() {
+  if (!isFullscreen) return;
+  setFullscreen(false);
+
+  if (Platform.OS === 'web') {
+    if (globalThis.document?.fullscreenElement) {
+      await globalThis.document.exitFullscreen().catch(() => {});
+    }
+    return;
+  }
+
+  await lockPortrait();
+}
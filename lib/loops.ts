@@ -0,0 +1,35 @@
+export type LoopMode = 'off' | 'one' | 'ab';
+
+export interface LoopRange {
+  start: number;
+  end: number;
+}
+
+export interface SavedLoop extends LoopRange {
+  id: string;
+  label: string;
+}
+
+/** Shorter A–B segments would seek back before anything is heard. */
+export const MIN_LOOP_LENGTH = 500;
+
+export const LOOP_MODE_LABELS: Record<LoopMode, string> = {
+  off: 'Repeat Off',
+  one: 'Repeat File',
+  ab: 'A–B Repeat',
+};
+
+export function clampLoopRange(range: LoopRange, durationMillis: number): LoopRange {
+  const max = durationMillis > 0 ? durationMillis : Number.MAX_SAFE_INTEGER;
+  const start = Math.min(Math.max(0, range.start), max - MIN_LOOP_LENGTH);
+  const end = Math.min(Math.max(range.end, start + MIN_LOOP_LENGTH), max);
+  return { start, end };
+}
+
+export function createSavedLoop(range: LoopRange, label: string): SavedLoop {
+  return {
+    ...range,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+  };
+}
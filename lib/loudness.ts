@@ -0,0 +1,286 @@
+import { Platform } from 'react-native';
+import { createPersistedStore } from './createPersistedStore';
+import { openByteSource } from './files';
+import {
+  decodeWithWebAudio,
+  getSamplePeak,
+  getWavFrameCount,
+  isReadableWav,
+  readWavFormat,
+  readWavFrames,
+} from './audioSamples';
+import { getAlbumKey, MediaFile, MeasuredLoudness, updateMediaFile } from './mediaLibrary';
+
+export type NormalizationMode = 'off' | 'track' | 'album';
+
+/** The order tapping the setting cycles through. */
+export const NORMALIZATION_MODES: NormalizationMode[] = ['off', 'track', 'album'];
+
+export interface NormalizationState {
+  mode: NormalizationMode;
+}
+
+export const normalizationStore = createPersistedStore<NormalizationState>({
+  key: 'normalization',
+  version: 1,
+  initialState: { mode: 'off' },
+});
+
+export function cycleNormalizationMode() {
+  normalizationStore.setState((prev) => {
+    const index = NORMALIZATION_MODES.indexOf(prev.mode);
+    return { mode: NORMALIZATION_MODES[(index + 1) % NORMALIZATION_MODES.length] };
+  });
+}
+
+/** ReplayGain 2.0 aims everything at -18 LUFS. */
+const REFERENCE_LUFS = -18;
+/**
+ * Volume can only turn things down, so playback sits this far below the
+ * reference to leave quiet tracks room to come up.
+ */
+const HEADROOM_DB = -6;
+
+/** A fast sample rate is plenty for an estimate and keeps decoding cheap. */
+const DECODE_SAMPLE_RATE = 16000;
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+/** Native builds measure this many evenly spread blocks of a WAV instead of all of it. */
+const WAV_SAMPLED_BLOCKS = 200;
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+/** BS.1770's K-weighting: a high shelf for the head, then a high-pass, at any sample rate. */
+function kWeighting(sampleRate: number): Biquad[] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    [
+      (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      (2 * (shelfK * shelfK - vh)) / shelfA0,
+      (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      (2 * (shelfK * shelfK - 1)) / shelfA0,
+      (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    ],
+    [1, -2, 1, (2 * (passK * passK - 1)) / passA0, (1 - passK / passQ + passK * passK) / passA0],
+  ];
+}
+
+function applyFilters(samples: Float32Array, filters: Biquad[]): Float32Array {
+  let input = samples;
+  for (const [b0, b1, b2, a1, a2] of filters) {
+    const output = new Float32Array(input.length);
+    let x1 = 0;
+    let x2 = 0;
+    let y1 = 0;
+    let y2 = 0;
+    for (let i = 0; i < input.length; i++) {
+      const y = b0 * input[i] + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1;
+      x1 = input[i];
+      y2 = y1;
+      y1 = y;
+      output[i] = y;
+    }
+    input = output;
+  }
+  return input;
+}
+
+/** Mean square power of each block, summed over channels. */
+function blockPowers(
+  weighted: Float32Array[],
+  sampleRate: number,
+  step = BLOCK_STEP_SECONDS
+): number[] {
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const stepLength = Math.round(step * sampleRate);
+  const length = weighted[0]?.length ?? 0;
+  const powers: number[] = [];
+  for (let start = 0; start + blockLength <= length; start += stepLength) {
+    let power = 0;
+    for (const samples of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += samples[i] * samples[i];
+      power += sum / blockLength;
+    }
+    powers.push(power);
+  }
+  return powers;
+}
+
+const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/** Gated integrated loudness over 400 ms block powers, or undefined for silence. */
+function gatedLoudness(powers: number[]): number | undefined {
+  const audible = powers.filter((power) => toLufs(power) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return undefined;
+  const threshold = toLufs(mean(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter((power) => toLufs(power) > threshold);
+  return toLufs(mean(gated));
+}
+
+/**
+ * Integrated loudness following ITU-R BS.1770, weighting every channel
+ * equally. Decoding at a low sample rate makes it an estimate, which is all
+ * normalization needs.
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): MeasuredLoudness {
+  const filters = kWeighting(sampleRate);
+  const powers = blockPowers(
+    channels.map((samples) => applyFilters(samples, filters)),
+    sampleRate
+  );
+  return { integrated: gatedLoudness(powers), peak: getSamplePeak(channels) };
+}
+
+/** Native builds can only read WAV, and only a sample of its blocks to keep it quick. */
+async function measureWavLoudness(uri: string): Promise<MeasuredLoudness> {
+  const source = await openByteSource(uri);
+  const format = await readWavFormat(source);
+  if (!format || !isReadableWav(format)) return {};
+
+  const frames = getWavFrameCount(format);
+  const blockFrames = Math.round(BLOCK_SECONDS * format.sampleRate);
+  const blocks = Math.min(WAV_SAMPLED_BLOCKS, Math.floor(frames / blockFrames));
+  const filters = kWeighting(format.sampleRate);
+  const powers: number[] = [];
+  let peak = 0;
+  for (let block = 0; block < blocks; block++) {
+    const startFrame = Math.floor((block * (frames - blockFrames)) / Math.max(1, blocks - 1));
+    const channels = await readWavFrames(source, format, startFrame, blockFrames);
+    peak = Math.max(peak, getSamplePeak(channels));
+    const weighted = channels.map((samples) => applyFilters(samples, filters));
+    powers.push(...blockPowers(weighted, format.sampleRate, BLOCK_SECONDS));
+  }
+  return { integrated: gatedLoudness(powers), peak };
+}
+
+async function computeLoudness(file: MediaFile): Promise<MeasuredLoudness> {
+  if (Platform.OS === 'web') {
+    const decoded = await decodeWithWebAudio(file.uri, DECODE_SAMPLE_RATE);
+    return decoded ? measureLoudness(decoded.channels, decoded.sampleRate) : {};
+  }
+  return measureWavLoudness(file.uri);
+}
+
+const measuring = new Set<string>();
+
+/**
+ * Measures a local audio file once and stores the result on its record.
+ * Files whose tags carry a track gain are left alone.
+ */
+export async function loadLoudnessIntoLibrary(file: MediaFile): Promise<void> {
+  if (file.type !== 'audio' || file.remote || file.loudness || measuring.has(file.id)) return;
+  if (file.tags?.replayGain?.trackGain !== undefined) return;
+  measuring.add(file.id);
+  let loudness: MeasuredLoudness = {};
+  try {
+    loudness = await computeLoudness(file);
+  } finally {
+    // Stored even when measuring threw, so a broken file isn't measured again.
+    await updateMediaFile(file.id, {
+      // Drop what couldn't be measured so the stored record stays small.
+      loudness: Object.fromEntries(
+        Object.entries(loudness).filter(([, value]) => value !== undefined)
+      ),
+    });
+    measuring.delete(file.id);
+  }
+}
+
+interface Gain {
+  gain: number;
+  peak?: number;
+}
+
+function getTrackGain(file: MediaFile): Gain | null {
+  const replayGain = file.tags?.replayGain;
+  if (replayGain?.trackGain !== undefined) {
+    return { gain: replayGain.trackGain, peak: replayGain.trackPeak };
+  }
+  const { integrated, peak } = file.loudness ?? {};
+  return integrated === undefined ? null : { gain: REFERENCE_LUFS - integrated, peak };
+}
+
+/**
+ * The album's gain from its tags, else from the measured tracks of that
+ * album in the library, combined by energy and weighted by duration.
+ */
+function getAlbumGain(file: MediaFile, library: MediaFile[]): Gain | null {
+  const replayGain = file.tags?.replayGain;
+  if (replayGain?.albumGain !== undefined) {
+    return { gain: replayGain.albumGain, peak: replayGain.albumPeak };
+  }
+  const key = getAlbumKey(file);
+  if (key === null || file.loudness?.integrated === undefined) return null;
+
+  const tracks = library.filter(
+    (track) => getAlbumKey(track) === key && track.loudness?.integrated !== undefined
+  );
+  let energy = 0;
+  let weight = 0;
+  let peak = 0;
+  for (const track of tracks) {
+    const duration = track.duration || 1;
+    energy += duration * Math.pow(10, (track.loudness?.integrated ?? 0) / 10);
+    weight += duration;
+    peak = Math.max(peak, track.loudness?.peak ?? 0);
+  }
+  return { gain: REFERENCE_LUFS - 10 * Math.log10(energy / weight), peak: peak || undefined };
+}
+
+/**
+ * The volume that brings `file` to the reference level, from 0 to 1; album
+ * mode falls back to the track's gain when there is no album gain. Player
+ * volume can only attenuate, so the clipping guard only acts on tracks whose
+ * peak is over full scale, as tagged peaks of clipped masters can be.
+ */
+export function getNormalizationVolume(
+  file: MediaFile | undefined,
+  library: MediaFile[],
+  mode: NormalizationMode
+): number {
+  if (!file || mode === 'off') return 1;
+  const gain = (mode === 'album' && getAlbumGain(file, library)) || getTrackGain(file);
+  if (!gain) return 1;
+  const volume = Math.min(1, Math.pow(10, (gain.gain + HEADROOM_DB) / 20));
+  return gain.peak && volume * gain.peak > 1 ? 1 / gain.peak : volume;
+}
+
+/**
+ * Local tracks that were measured but still have no gain, so they play as is.
+ * Native builds only measure WAV, so untagged tracks in other formats end up here.
+ */
+export function countUnleveledTracks(library: MediaFile[]): number {
+  return library.filter((file) => file.loudness && !getTrackGain(file)).length;
+}
+
+/** A note for Settings on the tracks normalization can't level, or null when there are none. */
+export function formatUnleveledTracks(count: number): string | null {
+  if (count === 0) return null;
+  const tracks = count === 1 ? '1 untagged track plays' : `${count} untagged tracks play`;
+  return Platform.OS === 'web' ? `${tracks} as is` : `${tracks} as is, only WAV is measured here`;
+}
+
+export function formatNormalizationMode(mode: NormalizationMode): string {
+  switch (mode) {
+    case 'track':
+      return 'Track';
+    case 'album':
+      return 'Album';
+    default:
+      return 'Off';
+  }
+}
@@ -0,0 +1,85 @@
+import { ByteSource } from '@/lib/files';
+import { readUint32, trimNulls } from '@/lib/binary';
+import { decodeText, Id3Frame, readId3Frames, terminatedLength } from '@/lib/tags/id3';
+import { looksLikeLrc, parseLrc } from './lrc';
+import { LyricLine, Lyrics } from './types';
+
+/** SYLT timestamps in milliseconds; the other format counts MPEG frames, which we can't map. */
+const SYLT_MILLISECONDS = 2;
+
+const terminatorLength = (encoding: number) => (encoding === 1 || encoding === 2 ? 2 : 1);
+
+/** Offset of the text after the encoding byte, language and content descriptor. */
+function skipDescriptor(data: Uint8Array, offset: number): number {
+  const encoding = data[0];
+  return offset + terminatedLength(encoding, data, offset) + terminatorLength(encoding);
+}
+
+/**
+ * Reads a SYLT frame. Taggers write either one entry per line or one per
+ * word with a newline opening every new line, so both are handled.
+ */
+function readSyncedFrame(data: Uint8Array): LyricLine[] {
+  if (data.length < 6 || data[4] !== SYLT_MILLISECONDS) return [];
+  const encoding = data[0];
+  let offset = skipDescriptor(data, 6);
+
+  const entries: { start: number; text: string }[] = [];
+  while (offset < data.length) {
+    const length = terminatedLength(encoding, data, offset);
+    const text = trimNulls(decodeText(encoding, data.subarray(offset, offset + length)));
+    offset += length + terminatorLength(encoding);
+    if (offset + 4 > data.length) break;
+    entries.push({ start: readUint32(data, offset), text });
+    offset += 4;
+  }
+
+  const byWord = entries.some((entry, index) => index > 0 && /^[\r\n]/.test(entry.text));
+  const lines: LyricLine[] = [];
+  for (const { start, text } of entries) {
+    const current = lines[lines.length - 1];
+    if (!byWord || !current || /^[\r\n]/.test(text)) {
+      const word = text.replace(/^[\r\n]+/, '');
+      lines.push({ start, text: word, words: [{ start, text: word }] });
+    } else {
+      current.text += text;
+      current.words!.push({ start, text });
+    }
+  }
+
+  // One word per line means there was no word timing after all.
+  const hasWords = lines.some((line) => line.words!.length > 1);
+  return lines
+    .map((line) => ({ ...line, text: line.text.trim(), words: hasWords ? line.words : undefined }))
+    .sort((a, b) => a.start - b.start);
+}
+
+function readUnsyncedFrame(data: Uint8Array): string {
+  if (data.length < 5) return '';
+  const encoding = data[0];
+  const offset = skipDescriptor(data, 4);
+  return trimNulls(decodeText(encoding, data.subarray(offset))).trim();
+}
+
+/** SYLT is preferred, then USLT, which sometimes holds a whole LRC file. */
+export function readLyricsFrames(frames: Id3Frame[]): Lyrics | null {
+  for (const frame of frames) {
+    if (frame.id !== 'SYLT') continue;
+    const lines = readSyncedFrame(frame.data);
+    if (lines.length > 0) return { synced: true, lines };
+  }
+
+  for (const frame of frames) {
+    if (frame.id !== 'USLT') continue;
+    const text = readUnsyncedFrame(frame.data);
+    if (!text) continue;
+    if (looksLikeLrc(text)) return parseLrc(text);
+    return { synced: false, lines: text.split(/\r\n|\r|\n/) };
+  }
+  return null;
+}
+
+export async function parseId3Lyrics(source: ByteSource): Promise<Lyrics | null> {
+  const tag = await readId3Frames(source);
+  return tag && readLyricsFrames(tag.frames);
+}
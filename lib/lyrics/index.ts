@@ -0,0 +1,30 @@
+import { openByteSource } from '@/lib/files';
+import { parseId3Lyrics } from './id3';
+import { LyricLine, Lyrics } from './types';
+
+export * from './types';
+export { looksLikeLrc, parseLrc } from './lrc';
+
+/** Index of the line being sung at `positionMillis`, or -1 before the first one. */
+export function findActiveLine(lines: LyricLine[], positionMillis: number): number {
+  let low = 0;
+  let high = lines.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (lines[mid].start <= positionMillis) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low - 1;
+}
+
+/** How many of the line's words have started by `positionMillis`. */
+export function countSungWords(line: LyricLine, positionMillis: number): number {
+  return line.words?.filter((word) => word.start <= positionMillis).length ?? 0;
+}
+
+export async function readEmbeddedLyrics(uri: string): Promise<Lyrics | null> {
+  return parseId3Lyrics(await openByteSource(uri));
+}
@@ -0,0 +1,90 @@
+import { parseTimestamp } from '@/lib/subtitles';
+import { LyricLine, LyricWord, Lyrics } from './types';
+
+const LINE_TIMESTAMP = /^\[(\d+:\d{1,2}(?:[.:]\d{1,3})?)\]/;
+const WORD_TIMESTAMP = /<(\d+:\d{1,2}(?:[.:]\d{1,3})?)>/g;
+// ID tags such as [ar:Artist] or [offset:+250]; the value may itself contain colons.
+const ID_TAG = /^\[([a-z#]+):(.*)\]$/i;
+
+/** `mm:ss.xx`, with the odd `mm:ss:xx` some editors write. */
+function parseLrcTime(value: string): number | null {
+  return parseTimestamp(value.replace(/^(\d+:\d{1,2}):(\d{1,3})$/, '$1.$2'));
+}
+
+/** Splits `<00:12.50>Some <00:13.10>words` into timed words; the line text drops the stamps. */
+function parseWords(text: string, shift: number): LyricWord[] | undefined {
+  const stamps = [...text.matchAll(WORD_TIMESTAMP)];
+  if (stamps.length === 0) return undefined;
+
+  const words: LyricWord[] = [];
+  stamps.forEach((stamp, index) => {
+    const start = parseLrcTime(stamp[1]);
+    const from = stamp.index! + stamp[0].length;
+    const to = index + 1 < stamps.length ? stamps[index + 1].index! : text.length;
+    const word = text.slice(from, to);
+    // A stamp at the very end only marks when the last word stops.
+    if (start !== null && word.trim()) {
+      words.push({ start: Math.max(0, start - shift), text: word });
+    }
+  });
+  return words.length > 0 ? words : undefined;
+}
+
+/**
+ * Parses LRC lyrics, including several timestamps on one line, the
+ * `[offset:]` tag and enhanced `<mm:ss.xx>` word timestamps. Files without
+ * any line timestamps come back as unsynced text.
+ */
+export function parseLrc(content: string): Lyrics {
+  const rows = content.replace(/^﻿/, '').split(/\r\n|\r|\n/);
+  // A positive offset makes the lyrics come earlier.
+  let shift = 0;
+  const synced: LyricLine[] = [];
+  const plain: string[] = [];
+
+  for (const row of rows) {
+    const trimmed = row.trim();
+    const tag = ID_TAG.exec(trimmed);
+    if (tag && !LINE_TIMESTAMP.test(trimmed)) {
+      if (tag[1].toLowerCase() === 'offset') {
+        shift = parseInt(tag[2].trim(), 10) || 0;
+      }
+      continue;
+    }
+
+    let rest = trimmed;
+    const starts: number[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = LINE_TIMESTAMP.exec(rest))) {
+      const start = parseLrcTime(match[1]);
+      if (start !== null) starts.push(start);
+      rest = rest.slice(match[0].length);
+    }
+
+    if (starts.length === 0) {
+      plain.push(row.trimEnd());
+      continue;
+    }
+    const text = rest.replace(WORD_TIMESTAMP, '').replace(/\s+/g, ' ').trim();
+    for (const start of starts) {
+      synced.push({
+        start: Math.max(0, start - shift),
+        text,
+        words: parseWords(rest, shift - (start - starts[0])),
+      });
+    }
+  }
+
+  if (synced.length === 0) {
+    // Leading and trailing blank lines are just file formatting.
+    const first = plain.findIndex((line) => line !== '');
+    const last = plain.length - [...plain].reverse().findIndex((line) => line !== '');
+    return { synced: false, lines: first === -1 ? [] : plain.slice(first, last) };
+  }
+  return { synced: true, lines: synced.sort((a, b) => a.start - b.start) };
+}
+
+/** Whether `text` has LRC line timestamps, as some USLT frames do. */
+export function looksLikeLrc(text: string): boolean {
+  return /^\s*\[\d+:\d{1,2}(?:[.:]\d{1,3})?\]/m.test(text);
+}
@@ -0,0 +1,15 @@
+export interface LyricWord {
+  start: number;
+  text: string;
+}
+
+export interface LyricLine {
+  start: number;
+  text: string;
+  /** Word-level timing from enhanced LRC or SYLT, when every word has its own. */
+  words?: LyricWord[];
+}
+
+export type Lyrics =
+  | { synced: true; lines: LyricLine[] }
+  | { synced: false; lines: string[] };
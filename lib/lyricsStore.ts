@@ -0,0 +1,69 @@
+import { createPersistedStore } from './createPersistedStore';
+import { fileExists, getBaseName, getDirectoryUri, readTextFile } from './files';
+import { Lyrics, parseLrc } from './lyrics';
+
+export interface LyricsSource {
+  name: string;
+  uri: string;
+}
+
+export interface LyricsState {
+  /** Previously loaded lyrics files, keyed by lower-cased basename. */
+  sidecars: Record<string, LyricsSource>;
+}
+
+export const lyricsStore = createPersistedStore<LyricsState>({
+  key: 'lyrics',
+  version: 1,
+  initialState: { sidecars: {} },
+});
+
+const LYRICS_EXTENSIONS = ['lrc', 'txt'];
+
+const sidecarKey = (fileName: string) => getBaseName(fileName).toLowerCase();
+
+/** Remembers a lyrics file for the media file it was loaded for. */
+export function rememberLyrics(mediaName: string, source: LyricsSource) {
+  lyricsStore.setState((prev) => ({
+    ...prev,
+    sidecars: { ...prev.sidecars, [sidecarKey(mediaName)]: source },
+  }));
+}
+
+export function forgetLyrics(mediaName: string) {
+  lyricsStore.setState((prev) => {
+    const { [sidecarKey(mediaName)]: _removed, ...sidecars } = prev.sidecars;
+    return { ...prev, sidecars };
+  });
+}
+
+/**
+ * The lyrics picked for the media before, else a lyrics file with the same
+ * basename next to it; see `findSidecarSubtitle` for why picking comes first.
+ */
+export async function findSidecarLyrics(
+  mediaName: string,
+  mediaUri: string
+): Promise<LyricsSource | null> {
+  await lyricsStore.hydrate();
+  const remembered = lyricsStore.getState().sidecars[sidecarKey(mediaName)];
+  if (remembered) return remembered;
+
+  const baseName = getBaseName(mediaName);
+  const directory = getDirectoryUri(mediaUri);
+
+  for (const extension of LYRICS_EXTENSIONS) {
+    const name = `${baseName}.${extension}`;
+    const uri = `${directory}${encodeURIComponent(name)}`;
+    if (await fileExists(uri)) {
+      return { name, uri };
+    }
+  }
+
+  return null;
+}
+
+/** Plain text files come back as unsynced lyrics. */
+export async function loadLyricsFile(source: LyricsSource): Promise<Lyrics> {
+  return parseLrc(await readTextFile(source.uri));
+}
@@ -0,0 +1,235 @@
+import { createPersistedStore, Migrations } from './createPersistedStore';
+import { removeFileFromQueue } from './queue';
+import { deleteArtwork, migrateWebArtwork } from './artwork';
+import { MediaTags } from './tags/types';
+
+export type MediaType = 'video' | 'audio';
+
+/** How to reach a file that is streamed over the network rather than picked. */
+export interface RemoteSource {
+  format: 'progressive' | 'hls';
+  /**
+   * Sent with every request. The Authorization header for basic auth is only
+   * kept in memory and never written to storage.
+   */
+  headers?: Record<string, string>;
+  /** Whether the stream was opened with basic auth, so it can ask for it again. */
+  signIn?: boolean;
+}
+
+/** Measured from the audio itself, for files without ReplayGain tags. */
+export interface MeasuredLoudness {
+  /** Integrated loudness in LUFS; missing if the file couldn't be decoded here. */
+  integrated?: number;
+  peak?: number;
+}
+
+export interface MediaFile {
+  id: string;
+  name: string;
+  uri: string;
+  type: MediaType;
+  /** 0 for streams, whose size isn't known up front. */
+  size: number;
+  duration?: number;
+  thumbnail?: string;
+  remote?: RemoteSource;
+  /** Read from the file's embedded tags; empty once read if it had none. */
+  tags?: MediaTags;
+  /** Set once measured, even if that failed, so it isn't measured again. */
+  loudness?: MeasuredLoudness;
+  favorite?: boolean;
+  /** Plays that got far enough to count; see lib/playCounts. */
+  playCount?: number;
+  addedAt: Date;
+}
+
+export type NewMediaFile = Omit<MediaFile, 'id' | 'addedAt'>;
+
+export interface MediaQuery {
+  type?: MediaType | 'all';
+  search?: string;
+  sortBy?: 'addedAt' | 'name' | 'size';
+}
+
+export interface LibraryState {
+  files: MediaFile[];
+}
+
+// Dates are stored as ISO strings; everything else round-trips through JSON.
+type StoredMediaFile = Omit<MediaFile, 'addedAt'> & { addedAt: string };
+
+const LIBRARY_VERSION = 3;
+
+function withoutCredentials<F extends { remote?: RemoteSource }>(file: F): F {
+  if (!file.remote?.headers?.Authorization) return file;
+  const headers = { ...file.remote.headers };
+  delete headers.Authorization;
+  return {
+    ...file,
+    remote: {
+      ...file.remote,
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+      signIn: true,
+    },
+  };
+}
+
+const migrations: Migrations = {
+  // Version 1 stored basic-auth credentials with the file.
+  1: (data) => (data as StoredMediaFile[]).map(withoutCredentials),
+  // Version 2 kept web covers inline as data: URIs; move them into the artwork cache.
+  2: (data) =>
+    (data as StoredMediaFile[]).map((file) => {
+      if (!file.thumbnail?.startsWith('data:')) return file;
+      return { ...file, thumbnail: migrateWebArtwork(getMediaKey(file), file.thumbnail) };
+    }),
+};
+
+export const libraryStore = createPersistedStore<LibraryState>({
+  key: 'library',
+  version: LIBRARY_VERSION,
+  initialState: { files: [] },
+  migrations,
+  serialize: (state): StoredMediaFile[] =>
+    state.files.map((file) => ({
+      ...withoutCredentials(file),
+      addedAt: file.addedAt.toISOString(),
+    })),
+  deserialize: (data) => ({
+    files: (data as StoredMediaFile[]).map((file) => ({
+      ...file,
+      addedAt: new Date(file.addedAt),
+    })),
+  }),
+});
+
+const createId = (index: number) =>
+  `${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Identifies a file independently of its URI. The same file picked twice gets
+ * a fresh cache URI each time, so match on what the user would recognise as
+ * "the same file" instead. Streams have no size, but their URL is stable.
+ */
+export function getMediaKey(
+  file: Pick<MediaFile, 'name' | 'size' | 'type'> & Partial<Pick<MediaFile, 'uri' | 'remote'>>
+): string {
+  if (file.remote && file.uri) {
+    return `${file.type}:${file.uri}`;
+  }
+  return `${file.type}:${file.name}:${file.size}`;
+}
+
+export function isRemoteMedia(file: Pick<MediaFile, 'remote'>): boolean {
+  return file.remote !== undefined;
+}
+
+const isSameFile = (a: NewMediaFile, b: NewMediaFile) => getMediaKey(a) === getMediaKey(b);
+
+/** The tagged title when there is one, otherwise the file name. */
+export function getDisplayTitle(file: Pick<MediaFile, 'name' | 'tags'>): string {
+  return file.tags?.title ?? file.name;
+}
+
+/** Groups tracks by album and album artist, ignoring case; null for untagged files. */
+export function getAlbumKey(file: Pick<MediaFile, 'tags'>): string | null {
+  const { album, albumArtist, artist } = file.tags ?? {};
+  return album ? `${album}\u0000${albumArtist ?? artist ?? ''}`.toLowerCase() : null;
+}
+
+export function getMediaFile(id: string): MediaFile | undefined {
+  return libraryStore.getState().files.find((file) => file.id === id);
+}
+
+function matchesSearch(file: MediaFile, term: string): boolean {
+  const { title, artist, album } = file.tags ?? {};
+  return [file.name, title, artist, album].some((value) =>
+    value?.toLowerCase().includes(term)
+  );
+}
+
+export function queryMediaFiles(files: MediaFile[], query: MediaQuery = {}): MediaFile[] {
+  const { type = 'all', search, sortBy = 'addedAt' } = query;
+  const term = search?.trim().toLowerCase();
+
+  const result = files.filter((file) => {
+    if (type !== 'all' && file.type !== type) return false;
+    if (term && !matchesSearch(file, term)) return false;
+    return true;
+  });
+
+  return result.sort((a, b) => {
+    switch (sortBy) {
+      case 'name':
+        return getDisplayTitle(a).localeCompare(getDisplayTitle(b));
+      case 'size':
+        return b.size - a.size;
+      default:
+        return b.addedAt.getTime() - a.addedAt.getTime();
+    }
+  });
+}
+
+/**
+ * Adds files to the library and returns the stored records. Files already in
+ * the library are refreshed with the new URI rather than duplicated.
+ */
+export async function addMediaFiles(inputs: NewMediaFile[]): Promise<MediaFile[]> {
+  await libraryStore.hydrate();
+
+  const existing = libraryStore.getState().files;
+  const records = inputs.map((input, index) => {
+    const match = existing.find((file) => isSameFile(file, input));
+    return match
+      ? { ...match, ...input }
+      : { ...input, id: createId(index), addedAt: new Date() };
+  });
+
+  libraryStore.setState((prev) => {
+    const updated = prev.files.map(
+      (file) => records.find((record) => record.id === file.id) ?? file
+    );
+    const added = records.filter(
+      (record) => !prev.files.some((file) => file.id === record.id)
+    );
+    return { files: [...updated, ...added] };
+  });
+
+  return records;
+}
+
+export async function addMediaFile(input: NewMediaFile): Promise<MediaFile> {
+  const [record] = await addMediaFiles([input]);
+  return record;
+}
+
+export async function updateMediaFile(
+  id: string,
+  changes: Partial<Omit<MediaFile, 'id'>>
+): Promise<void> {
+  await libraryStore.hydrate();
+  libraryStore.setState((prev) => ({
+    files: prev.files.map((file) => (file.id === id ? { ...file, ...changes } : file)),
+  }));
+}
+
+export async function toggleFavorite(id: string): Promise<void> {
+  const file = getMediaFile(id);
+  if (file) await updateMediaFile(id, { favorite: !file.favorite || undefined });
+}
+
+export async function incrementPlayCount(id: string): Promise<void> {
+  const file = getMediaFile(id);
+  if (file) await updateMediaFile(id, { playCount: (file.playCount ?? 0) + 1 });
+}
+
+export async function removeMediaFile(id: string): Promise<void> {
+  await libraryStore.hydrate();
+  const thumbnail = getMediaFile(id)?.thumbnail;
+  libraryStore.setState((prev) => ({
+    files: prev.files.filter((file) => file.id !== id),
+  }));
+  removeFileFromQueue(id);
+  deleteArtwork(thumbnail).catch((error) => console.error('Error deleting artwork:', error));
+}
@@ -0,0 +1,76 @@
+// ISO base media file format (MP4, M4A, MOV) box walking, shared by the
+// chapter and tag readers.
+import { ByteSource } from './files';
+import { readAscii, readUint32, readUint64 } from './binary';
+
+export interface Box {
+  type: string;
+  /** Offset of the box's payload, after the header. */
+  start: number;
+  end: number;
+}
+
+/** Anything bigger is not a real movie header, and reading it would run out of memory. */
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+export function parseBoxHeader(bytes: Uint8Array, offset: number, limit: number): Box | null {
+  if (offset + 8 > limit) return null;
+  let size = readUint32(bytes, offset);
+  const type = readAscii(bytes, offset + 4, 4);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > limit) return null;
+    size = readUint64(bytes, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < headerSize) return null;
+  return { type, start: offset + headerSize, end: Math.min(offset + size, limit) };
+}
+
+export function childBoxes(bytes: Uint8Array, parent: Box): Box[] {
+  const boxes: Box[] = [];
+  let offset = parent.start;
+  while (offset < parent.end) {
+    const box = parseBoxHeader(bytes, offset, parent.end);
+    if (!box) break;
+    boxes.push(box);
+    offset = box.end;
+  }
+  return boxes;
+}
+
+export function findBox(bytes: Uint8Array, parent: Box, path: string[]): Box | null {
+  let current: Box | null = parent;
+  for (const type of path) {
+    current = childBoxes(bytes, current).find((box) => box.type === type) ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+/** Walks the top-level boxes, reading only their headers, and loads `moov`. */
+export async function readMovieBox(source: ByteSource): Promise<Uint8Array | null> {
+  let offset = 0;
+  while (offset < source.size) {
+    const header = await source.read(offset, 16);
+    if (header.length < 8) return null;
+    const type = readAscii(header, 4, 4);
+    let size = readUint32(header, 0);
+    if (size === 1) {
+      if (header.length < 16) return null;
+      size = readUint64(header, 8);
+    } else if (size === 0) {
+      size = source.size - offset;
+    }
+    if (size < 8) return null;
+
+    if (type === 'moov') {
+      if (size > MAX_MOOV_SIZE) return null;
+      return source.read(offset, size);
+    }
+    offset += size;
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+import { playbackEngine, PlaybackSnapshot } from './playback';
+import { incrementPlayCount } from './mediaLibrary';
+import { MAX_PROGRESS_GAP } from './playTracking';
+
+/** A play counts after half the file or this long, whichever comes first. */
+const MAX_PLAY_THRESHOLD = 4 * 60 * 1000;
+
+function getPlayThreshold(durationMillis: number): number {
+  return durationMillis > 0 ? Math.min(durationMillis / 2, MAX_PLAY_THRESHOLD) : MAX_PLAY_THRESHOLD;
+}
+
+/**
+ * Counts plays on the library record. Only time actually spent playing
+ * counts, so seeking to the end doesn't, and each load counts at most once.
+ */
+export function startCountingPlays(): () => void {
+  let fileId: string | null = null;
+  let listened = 0;
+  let counted = false;
+  let lastTick: number | null = null;
+
+  const reset = () => {
+    fileId = playbackEngine.getState().file?.id ?? null;
+    listened = 0;
+    counted = false;
+    lastTick = null;
+  };
+
+  const offLoad = playbackEngine.on('load', reset);
+  const offEnded = playbackEngine.on('ended', () => {
+    // Played again from the end, it counts again.
+    counted = false;
+    listened = 0;
+    lastTick = null;
+  });
+  const offProgress = playbackEngine.on('progress', (snapshot: PlaybackSnapshot) => {
+    if (snapshot.file?.id !== fileId) reset();
+    if (snapshot.state !== 'playing') {
+      lastTick = null;
+      return;
+    }
+    const now = Date.now();
+    if (lastTick !== null) listened += Math.min(now - lastTick, MAX_PROGRESS_GAP);
+    lastTick = now;
+
+    if (!counted && fileId && listened >= getPlayThreshold(snapshot.durationMillis)) {
+      counted = true;
+      incrementPlayCount(fileId).catch((error) =>
+        console.error('Error counting play:', error)
+      );
+    }
+  });
+
+  return () => {
+    offLoad();
+    offEnded();
+    offProgress();
+  };
+}
@@ -0,0 +1,125 @@
+import { createPersistedStore } from './createPersistedStore';
+import { playbackEngine, PlaybackSnapshot } from './playback';
+import { getDisplayTitle, MediaType } from './mediaLibrary';
+import { createId, MAX_PROGRESS_GAP } from './playTracking';
+
+/** One stretch of uninterrupted playback of one file. */
+export interface PlaySession {
+  id: string;
+  fileId: string;
+  /** Kept so the history still reads well after the file leaves the library. */
+  title: string;
+  type: MediaType;
+  startPosition: number;
+  endPosition: number;
+  /** Wall time spent playing; pauses end the session instead. */
+  listenedMillis: number;
+  /** 0 for streams of unknown length. */
+  durationMillis: number;
+  speed: number;
+  startedAt: number;
+  endedAt: number;
+}
+
+export interface PlayHistoryState {
+  /** Oldest first. */
+  sessions: PlaySession[];
+}
+
+const MAX_SESSIONS = 2000;
+/** Anything shorter is a skip rather than a listen, and isn't kept. */
+const MIN_SESSION_MILLIS = 5000;
+/** How often an open session is written out, so a crash loses little of it. */
+const SAVE_INTERVAL = 15000;
+
+export const historyStore = createPersistedStore<PlayHistoryState>({
+  key: 'play-history',
+  version: 1,
+  initialState: { sessions: [] },
+});
+
+function saveSession(session: PlaySession) {
+  historyStore.setState((prev) => {
+    const exists = prev.sessions.some((saved) => saved.id === session.id);
+    const sessions = exists
+      ? prev.sessions.map((saved) => (saved.id === session.id ? session : saved))
+      : [...prev.sessions, session];
+    return { sessions: sessions.slice(-MAX_SESSIONS) };
+  });
+}
+
+export function removeSession(id: string) {
+  historyStore.setState((prev) => ({
+    sessions: prev.sessions.filter((session) => session.id !== id),
+  }));
+}
+
+export function clearHistory() {
+  historyStore.setState(() => ({ sessions: [] }));
+}
+
+/**
+ * Records a session for every stretch of playback, from when something
+ * starts playing until it pauses, ends or something else is loaded.
+ */
+export function startRecordingHistory(): () => void {
+  let session: PlaySession | null = null;
+  let lastTick: number | null = null;
+  let lastSaved = 0;
+
+  const open = ({ file, positionMillis, durationMillis }: PlaybackSnapshot) => {
+    if (!file) return;
+    const now = Date.now();
+    session = {
+      id: createId(),
+      fileId: file.id,
+      title: getDisplayTitle(file),
+      type: file.type,
+      startPosition: positionMillis,
+      endPosition: positionMillis,
+      listenedMillis: 0,
+      durationMillis,
+      speed: playbackEngine.getOptions().rate,
+      startedAt: now,
+      endedAt: now,
+    };
+    lastTick = now;
+    lastSaved = now;
+  };
+
+  const close = () => {
+    if (session && session.listenedMillis >= MIN_SESSION_MILLIS) saveSession(session);
+    session = null;
+    lastTick = null;
+  };
+
+  const offState = playbackEngine.on('statechange', ({ state }) => {
+    close();
+    if (state === 'playing') open(playbackEngine.getState());
+  });
+
+  const offProgress = playbackEngine.on('progress', (snapshot) => {
+    if (!session || snapshot.state !== 'playing' || snapshot.file?.id !== session.fileId) return;
+    const now = Date.now();
+    const listened = lastTick === null ? 0 : Math.min(now - lastTick, MAX_PROGRESS_GAP);
+    lastTick = now;
+    session = {
+      ...session,
+      endPosition: snapshot.positionMillis,
+      listenedMillis: session.listenedMillis + listened,
+      durationMillis: snapshot.durationMillis || session.durationMillis,
+      speed: playbackEngine.getOptions().rate,
+      endedAt: now,
+    };
+    if (now - lastSaved >= SAVE_INTERVAL && session.listenedMillis >= MIN_SESSION_MILLIS) {
+      lastSaved = now;
+      saveSession(session);
+    }
+  });
+
+  return () => {
+    close();
+    offState();
+    offProgress();
+  };
+}
@@ -0,0 +1,126 @@
+import { MediaType } from './mediaLibrary';
+import { isFinished } from './playbackPositions';
+import { PlaySession } from './playHistory';
+
+/** Sessions of one file that pick up where the last one stopped, e.g. across a pause. */
+export interface Play {
+  fileId: string;
+  title: string;
+  type: MediaType;
+  endPosition: number;
+  durationMillis: number;
+  listenedMillis: number;
+  endedAt: number;
+}
+
+export interface WeekTotal {
+  /** Monday 00:00, local time. */
+  weekStart: number;
+  audio: number;
+  video: number;
+}
+
+export interface FileStats {
+  fileId: string;
+  title: string;
+  type: MediaType;
+  plays: number;
+  listenedMillis: number;
+}
+
+/** A session resuming within this much of where the last one ended continues the same play. */
+const RESUME_TOLERANCE = 10000;
+const MAX_RESUME_GAP = 12 * 60 * 60 * 1000;
+
+export function groupPlays(sessions: PlaySession[]): Play[] {
+  const plays: Play[] = [];
+  const latest = new Map<string, Play>();
+  for (const session of sessions) {
+    const previous = latest.get(session.fileId);
+    const continues =
+      previous &&
+      Math.abs(session.startPosition - previous.endPosition) <= RESUME_TOLERANCE &&
+      session.startedAt - previous.endedAt <= MAX_RESUME_GAP &&
+      !isFinished(previous.endPosition, previous.durationMillis);
+
+    if (previous && continues) {
+      previous.endPosition = session.endPosition;
+      previous.durationMillis = session.durationMillis || previous.durationMillis;
+      previous.listenedMillis += session.listenedMillis;
+      previous.endedAt = session.endedAt;
+      continue;
+    }
+    const play: Play = {
+      fileId: session.fileId,
+      title: session.title,
+      type: session.type,
+      endPosition: session.endPosition,
+      durationMillis: session.durationMillis,
+      listenedMillis: session.listenedMillis,
+      endedAt: session.endedAt,
+    };
+    plays.push(play);
+    latest.set(session.fileId, play);
+  }
+  return plays;
+}
+
+export function getWeekStart(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+/** Time played per week for the last `weeks` weeks, oldest first. */
+export function getWeeklyTotals(
+  sessions: PlaySession[],
+  weeks = 8,
+  now = Date.now()
+): WeekTotal[] {
+  const totals = Array.from({ length: weeks }, (_, index) => {
+    const date = new Date(getWeekStart(now));
+    date.setDate(date.getDate() - (weeks - 1 - index) * 7);
+    return { weekStart: date.getTime(), audio: 0, video: 0 };
+  });
+  for (const session of sessions) {
+    const week = totals.find((total) => total.weekStart === getWeekStart(session.startedAt));
+    if (week) week[session.type] += session.listenedMillis;
+  }
+  return totals;
+}
+
+export function getMostPlayed(plays: Play[], limit = 5): FileStats[] {
+  const byFile = new Map<string, FileStats>();
+  for (const play of plays) {
+    const stats = byFile.get(play.fileId) ?? {
+      fileId: play.fileId,
+      title: play.title,
+      type: play.type,
+      plays: 0,
+      listenedMillis: 0,
+    };
+    stats.plays++;
+    stats.listenedMillis += play.listenedMillis;
+    byFile.set(play.fileId, stats);
+  }
+  return [...byFile.values()]
+    .sort((a, b) => b.plays - a.plays || b.listenedMillis - a.listenedMillis)
+    .slice(0, limit);
+}
+
+/** Share of plays that reached the end, or null before any play of known length. */
+export function getCompletionRate(plays: Play[]): number | null {
+  const measurable = plays.filter((play) => play.durationMillis > 0);
+  if (measurable.length === 0) return null;
+  const finished = measurable.filter((play) => isFinished(play.endPosition, play.durationMillis));
+  return finished.length / measurable.length;
+}
+
+export function getTypeSplit(sessions: PlaySession[]): Record<MediaType, number> {
+  const split: Record<MediaType, number> = { audio: 0, video: 0 };
+  for (const session of sessions) {
+    split[session.type] += session.listenedMillis;
+  }
+  return split;
+}
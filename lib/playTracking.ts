@@ -0,0 +1,6 @@
+/** What play counts and play history share in adding up the time spent playing. */
+
+/** Longer gaps between progress updates mean the app was suspended, not playing. */
+export const MAX_PROGRESS_GAP = 2000;
+
+export const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
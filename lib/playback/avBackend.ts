@@ -0,0 +1,89 @@
+import { Platform } from 'react-native';
+import { Audio, AVPlaybackStatus } from 'expo-av';
+import { BackendStatus, PlaybackBackend } from './types';
+
+/** The part of expo-av's playback API that Sound and Video share. */
+type AVPlayer = Pick<
+  Audio.Sound,
+  | 'loadAsync'
+  | 'unloadAsync'
+  | 'playAsync'
+  | 'pauseAsync'
+  | 'setPositionAsync'
+  | 'setStatusAsync'
+  | 'setOnPlaybackStatusUpdate'
+>;
+
+export function toBackendStatus(status: AVPlaybackStatus): BackendStatus {
+  if (!status.isLoaded) {
+    return {
+      isLoaded: false,
+      shouldPlay: false,
+      isPlaying: false,
+      isBuffering: false,
+      positionMillis: 0,
+      durationMillis: 0,
+      bufferedMillis: 0,
+      didJustFinish: false,
+      error: status.error,
+    };
+  }
+  return {
+    isLoaded: true,
+    shouldPlay: status.shouldPlay,
+    isPlaying: status.isPlaying,
+    // expo-av keeps isBuffering set while it plays from a partly filled buffer.
+    isBuffering: status.isBuffering && !status.isPlaying,
+    positionMillis: status.positionMillis,
+    durationMillis: status.durationMillis ?? 0,
+    bufferedMillis: status.playableDurationMillis ?? 0,
+    didJustFinish: status.didJustFinish,
+  };
+}
+
+/**
+ * The element behind a Sound or Video on web. expo-av keeps these private: a
+ * loaded Sound's key is the <audio> element it created, and a Video's native
+ * ref wraps its <video> element.
+ */
+export function getWebMediaElement(player: object): HTMLMediaElement | null {
+  if (Platform.OS !== 'web') return null;
+  const internals = player as {
+    _key?: unknown;
+    _nativeRef?: { current?: { getVideoElement?: () => unknown } | null };
+  };
+  const element = internals._key ?? internals._nativeRef?.current?.getVideoElement?.();
+  return element instanceof HTMLMediaElement ? element : null;
+}
+
+export function createAVBackend(player: AVPlayer): PlaybackBackend {
+  return {
+    async load(source, { positionMillis, shouldPlay, ...options }) {
+      await player.loadAsync(source, { ...options, positionMillis, shouldPlay }, false);
+    },
+    async unload() {
+      await player.unloadAsync();
+    },
+    async play() {
+      await player.playAsync();
+    },
+    async pause() {
+      await player.pauseAsync();
+    },
+    async seek(positionMillis) {
+      await player.setPositionAsync(positionMillis, {
+        toleranceMillisBefore: 0,
+        toleranceMillisAfter: 0,
+      });
+    },
+    async setOptions(options) {
+      await player.setStatusAsync(options);
+    },
+    setStatusListener(listener) {
+      player.setOnPlaybackStatusUpdate(listener && ((status) => listener(toBackendStatus(status))));
+    },
+    getMediaElement() {
+      return getWebMediaElement(player);
+    },
+  };
+}
@@ -0,0 +1,303 @@
+import { MediaFile, updateMediaFile } from '@/lib/mediaLibrary';
+import { getPlaybackSource } from '@/lib/remoteMedia';
+import {
+  BackendStatus,
+  LoadOptions,
+  PlaybackBackend,
+  PlaybackEventName,
+  PlaybackEvents,
+  PlaybackListener,
+  PlaybackOptions,
+  PlaybackSnapshot,
+  PlaybackState,
+  TransitionOptions,
+} from './types';
+
+type AnyListener = (payload: PlaybackEvents[PlaybackEventName]) => void;
+
+export const DEFAULT_PLAYBACK_OPTIONS: PlaybackOptions = {
+  rate: 1,
+  shouldCorrectPitch: true,
+  volume: 1,
+  isLooping: false,
+  progressUpdateIntervalMillis: 500,
+};
+
+const IDLE_SNAPSHOT: PlaybackSnapshot = {
+  state: 'idle',
+  file: null,
+  owner: null,
+  positionMillis: 0,
+  durationMillis: 0,
+  bufferedMillis: 0,
+  isBuffering: false,
+  error: null,
+};
+
+/** Every state can go back to idle (stop) or start loading something else. */
+const TRANSITIONS: Record<PlaybackState, PlaybackState[]> = {
+  idle: ['loading'],
+  loading: ['playing', 'paused', 'error', 'idle', 'loading'],
+  playing: ['paused', 'ended', 'error', 'idle', 'loading'],
+  paused: ['playing', 'ended', 'error', 'idle', 'loading'],
+  ended: ['playing', 'paused', 'error', 'idle', 'loading'],
+  error: ['idle', 'loading'],
+};
+
+export function canTransition(from: PlaybackState, to: PlaybackState): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+export interface PlaybackEngine {
+  getState(): PlaybackSnapshot;
+  getBackend(): PlaybackBackend | null;
+  /** The options last set for what is loaded, such as its rate. */
+  getOptions(): PlaybackOptions;
+  /** Fires on any snapshot change; for useSyncExternalStore. */
+  subscribe(listener: () => void): () => void;
+  on<E extends PlaybackEventName>(event: E, listener: PlaybackListener<E>): () => void;
+  load(file: MediaFile, backend: PlaybackBackend, options?: LoadOptions): Promise<void>;
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  togglePlayPause(): Promise<void>;
+  seek(positionMillis: number): Promise<void>;
+  setOptions(options: Partial<PlaybackOptions>): Promise<void>;
+  /** Unloads whatever is playing and returns to idle. */
+  stop(): Promise<void>;
+  /**
+   * Gets `file` ready to follow the current one without a gap, if the
+   * backend can; null drops whatever was preloaded.
+   */
+  preloadNext(file: MediaFile | null, transition: TransitionOptions): Promise<void>;
+}
+
+/**
+ * The one place media is played from. Screens hand it a backend along with
+ * the file, so loading something new always unloads what was playing before,
+ * whichever screen started it.
+ */
+export function createPlaybackEngine(): PlaybackEngine {
+  let snapshot = IDLE_SNAPSHOT;
+  let backend: PlaybackBackend | null = null;
+  let options = DEFAULT_PLAYBACK_OPTIONS;
+  // Status updates and load results from a superseded load are dropped.
+  let loadToken = 0;
+
+  const subscribers = new Set<() => void>();
+  const listeners = new Map<PlaybackEventName, Set<AnyListener>>();
+
+  const emit = <E extends PlaybackEventName>(event: E, payload: PlaybackEvents[E]) => {
+    listeners.get(event)?.forEach((listener) => listener(payload));
+  };
+
+  const update = (changes: Partial<PlaybackSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    subscribers.forEach((listener) => listener());
+  };
+
+  const transition = (next: PlaybackState, changes: Partial<PlaybackSnapshot> = {}) => {
+    const previous = snapshot.state;
+    if (!canTransition(previous, next)) {
+      console.warn(`Ignoring playback transition ${previous} -> ${next}`);
+      return;
+    }
+    update({ ...changes, state: next });
+    if (previous !== next) {
+      emit('statechange', { state: next, previous, file: snapshot.file });
+    }
+  };
+
+  const fail = (message: string) => {
+    transition('error', { error: message, isBuffering: false });
+    emit('error', { file: snapshot.file, message });
+  };
+
+  const handleStatus = (token: number, status: BackendStatus) => {
+    if (token !== loadToken) return;
+
+    if (status.error) {
+      fail(status.error);
+      return;
+    }
+    if (!status.isLoaded) return;
+
+    update({
+      positionMillis: status.positionMillis,
+      durationMillis: status.durationMillis,
+      bufferedMillis: status.bufferedMillis,
+      isBuffering: status.isBuffering,
+    });
+
+    const { state, file } = snapshot;
+    if (state === 'loading' || state === 'error' || state === 'idle') {
+      // load() settles the state once the backend has finished loading.
+    } else if (status.didJustFinish && !options.isLooping) {
+      transition('ended');
+      if (file) emit('ended', { file });
+    } else if (state === 'ended') {
+      // A finished player reports shouldPlay for a while; only real playback resumes.
+      if (status.isPlaying) transition('playing');
+    } else {
+      transition(status.shouldPlay ? 'playing' : 'paused');
+    }
+
+    emit('progress', snapshot);
+  };
+
+  const run = async (action: (current: PlaybackBackend) => Promise<void>) => {
+    if (!backend) return;
+    try {
+      await action(backend);
+    } catch (error) {
+      console.error('Playback error:', error);
+    }
+  };
+
+  const releaseBackend = async () => {
+    const previous = backend;
+    backend = null;
+    if (!previous) return;
+    previous.setStatusListener(null);
+    try {
+      await previous.unload();
+    } catch (error) {
+      console.error('Error unloading media:', error);
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    subscribers.add(listener);
+    return () => {
+      subscribers.delete(listener);
+    };
+  };
+
+  const on = <E extends PlaybackEventName>(event: E, listener: PlaybackListener<E>) => {
+    const set = listeners.get(event) ?? new Set<AnyListener>();
+    listeners.set(event, set);
+    const entry = listener as AnyListener;
+    set.add(entry);
+    return () => {
+      set.delete(entry);
+    };
+  };
+
+  const load = async (
+    file: MediaFile,
+    nextBackend: PlaybackBackend,
+    { positionMillis = 0, autoPlay = false, owner, options: overrides }: LoadOptions = {}
+  ) => {
+    const token = ++loadToken;
+    // A preloading backend swaps tracks itself, and may already be playing the new one.
+    if (backend !== nextBackend || !nextBackend.preload) {
+      await releaseBackend();
+    }
+    if (token !== loadToken) return;
+
+    backend = nextBackend;
+    options = { ...DEFAULT_PLAYBACK_OPTIONS, ...overrides };
+    transition('loading', {
+      ...IDLE_SNAPSHOT,
+      file,
+      owner: owner ?? null,
+      positionMillis,
+      durationMillis: file.duration ?? 0,
+    });
+
+    nextBackend.setStatusListener((status) => handleStatus(token, status));
+    try {
+      await nextBackend.load(getPlaybackSource(file), {
+        ...options,
+        positionMillis,
+        shouldPlay: autoPlay,
+      });
+    } catch (error) {
+      if (token !== loadToken) return;
+      console.error('Error loading media:', error);
+      fail(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    if (token !== loadToken || snapshot.state !== 'loading') return;
+
+    transition(autoPlay ? 'playing' : 'paused');
+    emit('load', { file });
+    if (snapshot.durationMillis && snapshot.durationMillis !== file.duration) {
+      updateMediaFile(file.id, { duration: snapshot.durationMillis });
+    }
+  };
+
+  const play = async () => {
+    const { state, positionMillis, durationMillis } = snapshot;
+    if (state !== 'paused' && state !== 'ended' && state !== 'playing') return;
+    await run(async (current) => {
+      if (state === 'ended' || (durationMillis > 0 && positionMillis >= durationMillis)) {
+        await current.seek(0);
+      }
+      const token = loadToken;
+      await current.play();
+      // Only once the backend has started, so a failed call leaves the state alone.
+      if (token === loadToken) transition('playing');
+    });
+  };
+
+  const pause = async () => {
+    if (snapshot.state !== 'playing') return;
+    await run(async (current) => {
+      const token = loadToken;
+      await current.pause();
+      if (token === loadToken) transition('paused');
+    });
+  };
+
+  const togglePlayPause = () => (snapshot.state === 'playing' ? pause() : play());
+
+  const seek = async (positionMillis: number) => {
+    const { state, durationMillis } = snapshot;
+    if (state === 'idle' || state === 'loading' || state === 'error') return;
+    const target = Math.max(
+      0,
+      durationMillis ? Math.min(positionMillis, durationMillis) : positionMillis
+    );
+    await run(async (current) => {
+      update({ positionMillis: target });
+      if (state === 'ended' && target < durationMillis) {
+        transition('paused');
+      }
+      await current.seek(target);
+    });
+  };
+
+  const setOptions = async (changes: Partial<PlaybackOptions>) => {
+    options = { ...options, ...changes };
+    await run((current) => current.setOptions(changes));
+  };
+
+  const stop = async () => {
+    loadToken++;
+    await releaseBackend();
+    options = DEFAULT_PLAYBACK_OPTIONS;
+    transition('idle', IDLE_SNAPSHOT);
+  };
+
+  const preloadNext = async (file: MediaFile | null, nextTransition: TransitionOptions) => {
+    await run(async (current) => {
+      await current.preload?.(file && getPlaybackSource(file), nextTransition);
+    });
+  };
+
+  return {
+    getState: () => snapshot,
+    getBackend: () => backend,
+    getOptions: () => options,
+    subscribe,
+    on,
+    load,
+    play,
+    pause,
+    togglePlayPause,
+    seek,
+    setOptions,
+    stop,
+    preloadNext,
+  };
+}
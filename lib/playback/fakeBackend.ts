@@ -0,0 +1,97 @@
+import { BackendStatus, PlaybackBackend, PlaybackOptions } from './types';
+import { DEFAULT_PLAYBACK_OPTIONS } from './engine';
+
+export interface FakeBackend extends PlaybackBackend {
+  /** Moves the clock forward, as if `millis` of wall time had passed. */
+  advance(millis: number): void;
+  /** Reports a playback error, like a dropped network stream. */
+  fail(message: string): void;
+  getStatus(): BackendStatus;
+}
+
+interface FakeBackendOptions {
+  durationMillis?: number;
+  /** Makes load() reject, for exercising the error path. */
+  loadError?: string;
+}
+
+/**
+ * An in-memory player that keeps time only when told to, so the engine's
+ * state machine can be driven without a device or real media.
+ */
+export function createFakeBackend({
+  durationMillis = 60000,
+  loadError,
+}: FakeBackendOptions = {}): FakeBackend {
+  let listener: ((status: BackendStatus) => void) | null = null;
+  let options: PlaybackOptions = DEFAULT_PLAYBACK_OPTIONS;
+  let status: BackendStatus = {
+    isLoaded: false,
+    shouldPlay: false,
+    isPlaying: false,
+    isBuffering: false,
+    positionMillis: 0,
+    durationMillis: 0,
+    bufferedMillis: 0,
+    didJustFinish: false,
+  };
+
+  const report = (changes: Partial<BackendStatus>) => {
+    status = { ...status, didJustFinish: false, ...changes };
+    listener?.(status);
+  };
+
+  return {
+    async load(_source, { positionMillis, shouldPlay, ...rest }) {
+      if (loadError) throw new Error(loadError);
+      options = rest;
+      report({
+        isLoaded: true,
+        shouldPlay,
+        isPlaying: shouldPlay,
+        positionMillis,
+        durationMillis,
+        bufferedMillis: durationMillis,
+        error: undefined,
+      });
+    },
+    async unload() {
+      report({ isLoaded: false, shouldPlay: false, isPlaying: false, positionMillis: 0 });
+    },
+    async play() {
+      report({ shouldPlay: true, isPlaying: true });
+    },
+    async pause() {
+      report({ shouldPlay: false, isPlaying: false });
+    },
+    async seek(positionMillis) {
+      report({ positionMillis: Math.min(Math.max(0, positionMillis), durationMillis) });
+    },
+    async setOptions(changes) {
+      options = { ...options, ...changes };
+    },
+    setStatusListener(next) {
+      listener = next;
+    },
+    advance(millis) {
+      if (!status.isLoaded || !status.isPlaying) return;
+      const position = status.positionMillis + millis * options.rate;
+      if (position < durationMillis) {
+        report({ positionMillis: position });
+      } else if (options.isLooping) {
+        report({ positionMillis: position % durationMillis, didJustFinish: true });
+      } else {
+        report({
+          positionMillis: durationMillis,
+          shouldPlay: false,
+          isPlaying: false,
+          didJustFinish: true,
+        });
+      }
+    },
+    fail(message) {
+      report({ isLoaded: false, shouldPlay: false, isPlaying: false, error: message });
+    },
+    getStatus: () => status,
+  };
+}
@@ -0,0 +1,225 @@
+import { Audio, AVPlaybackSourceObject, AVPlaybackStatus } from 'expo-av';
+import { getWebMediaElement, toBackendStatus } from './avBackend';
+import { BackendStatus, PlaybackBackend, PlaybackOptions, TransitionOptions } from './types';
+
+interface Track {
+  sound: Audio.Sound;
+  uri: string;
+  isLoaded: boolean;
+  /** Set once the track has been started by a transition, before the engine adopts it. */
+  isStarted: boolean;
+}
+
+interface Fade {
+  incoming: Track;
+  timer: ReturnType<typeof setInterval>;
+}
+
+const FADE_STEP_MILLIS = 50;
+
+/**
+ * Plays each track in its own Sound so the next one can be loaded while the
+ * current one plays. When the current track ends, or when it is within the
+ * crossfade length of its end, the next one is started right away and the
+ * engine is told the current one finished. Loading the started track then
+ * just adopts it.
+ */
+export function createGaplessBackend(): PlaybackBackend {
+  let current: Track | null = null;
+  let next: Track | null = null;
+  let listener: ((status: BackendStatus) => void) | null = null;
+  let options: Partial<PlaybackOptions> = {};
+  let transition: TransitionOptions = { crossfadeMillis: 0 };
+  // Outgoing tracks still fading out, with the track fading in over them.
+  const fades = new Map<Track, Fade>();
+
+  const volume = () => options.volume ?? 1;
+  const nextVolume = () => transition.volume ?? volume();
+  const isFadingIn = (track: Track) =>
+    Array.from(fades.values()).some((fade) => fade.incoming === track);
+
+  const discard = (track: Track | null) => {
+    if (!track) return;
+    track.sound.setOnPlaybackStatusUpdate(null);
+    track.sound.unloadAsync().catch((error) => console.error('Error unloading track:', error));
+  };
+
+  const endFade = (outgoing: Track) => {
+    const fade = fades.get(outgoing);
+    if (!fade) return;
+    clearInterval(fade.timer);
+    fades.delete(outgoing);
+    discard(outgoing);
+    fade.incoming.sound.setVolumeAsync(volume()).catch(() => {});
+  };
+
+  const endAllFades = () => Array.from(fades.keys()).forEach(endFade);
+
+  // Equal-power curves keep the combined loudness steady through the fade.
+  const startFade = (outgoing: Track, incoming: Track, durationMillis: number) => {
+    const startedAt = Date.now();
+    const outgoingVolume = volume();
+    const incomingVolume = nextVolume();
+    const timer = setInterval(() => {
+      const progress = Math.min(1, (Date.now() - startedAt) / durationMillis);
+      if (progress >= 1) {
+        endFade(outgoing);
+        return;
+      }
+      const angle = (progress * Math.PI) / 2;
+      outgoing.sound.setVolumeAsync(Math.cos(angle) * outgoingVolume).catch(() => {});
+      incoming.sound.setVolumeAsync(Math.sin(angle) * incomingVolume).catch(() => {});
+    }, FADE_STEP_MILLIS);
+    fades.set(outgoing, { incoming, timer });
+  };
+
+  const startNext = (outgoing: Track, status: AVPlaybackStatus & { isLoaded: true }) => {
+    const incoming = next as Track;
+    current = null;
+    incoming.isStarted = true;
+
+    const remaining = (status.durationMillis ?? 0) - status.positionMillis;
+    if (status.didJustFinish || transition.crossfadeMillis <= 0 || remaining <= FADE_STEP_MILLIS) {
+      discard(outgoing);
+      incoming.sound.playAsync().catch((error) => console.error('Error starting track:', error));
+      return;
+    }
+    incoming.sound
+      .setStatusAsync({ volume: 0, shouldPlay: true })
+      .catch((error) => console.error('Error starting track:', error));
+    startFade(outgoing, incoming, remaining);
+  };
+
+  const handleStatus = (track: Track, status: AVPlaybackStatus) => {
+    if (track !== current) return;
+    if (status.isLoaded && next?.isLoaded && !next.isStarted && !status.isLooping) {
+      const remaining = (status.durationMillis ?? 0) - status.positionMillis;
+      const shouldCrossfade =
+        transition.crossfadeMillis > 0 &&
+        status.isPlaying &&
+        status.durationMillis !== undefined &&
+        remaining <= transition.crossfadeMillis;
+      if (status.didJustFinish || shouldCrossfade) {
+        startNext(track, status);
+        // Reported as finished even while it fades out, so the queue moves on now.
+        listener?.({ ...toBackendStatus(status), didJustFinish: true });
+        return;
+      }
+    }
+    listener?.(toBackendStatus(status));
+  };
+
+  const createTrack = (uri: string): Track => {
+    const track: Track = { sound: new Audio.Sound(), uri, isLoaded: false, isStarted: false };
+    track.sound.setOnPlaybackStatusUpdate((status) => handleStatus(track, status));
+    return track;
+  };
+
+  const reportStatus = async (track: Track) => {
+    handleStatus(track, await track.sound.getStatusAsync());
+  };
+
+  return {
+    async load(source, { positionMillis, shouldPlay, ...loadOptions }) {
+      options = loadOptions;
+      const preloaded = next;
+      if (preloaded?.isLoaded && preloaded.uri === source.uri) {
+        next = null;
+        current = preloaded;
+        const { volume: _volume, ...rest } = loadOptions;
+        if (preloaded.isStarted) {
+          await preloaded.sound.setStatusAsync({
+            ...rest,
+            ...(!isFadingIn(preloaded) && { volume: volume() }),
+            shouldPlay,
+          });
+        } else {
+          await preloaded.sound.setStatusAsync({ ...loadOptions, positionMillis, shouldPlay });
+        }
+        await reportStatus(preloaded);
+        return;
+      }
+
+      discard(current);
+      discard(next);
+      next = null;
+      const track = createTrack(source.uri);
+      current = track;
+      await track.sound.loadAsync(source, { ...loadOptions, positionMillis, shouldPlay }, false);
+      track.isLoaded = true;
+    },
+    async unload() {
+      endAllFades();
+      discard(current);
+      discard(next);
+      current = null;
+      next = null;
+    },
+    async play() {
+      await current?.sound.playAsync();
+    },
+    async pause() {
+      // Pausing mid-crossfade drops the rest of the outgoing track.
+      endAllFades();
+      await current?.sound.pauseAsync();
+    },
+    async seek(positionMillis) {
+      await current?.sound.setPositionAsync(positionMillis, {
+        toleranceMillisBefore: 0,
+        toleranceMillisAfter: 0,
+      });
+    },
+    async setOptions(changes) {
+      options = { ...options, ...changes };
+      if (!current) return;
+      const { volume: _volume, ...rest } = changes;
+      await current.sound.setStatusAsync(isFadingIn(current) ? rest : changes);
+    },
+    setStatusListener(nextListener) {
+      listener = nextListener;
+    },
+    getMediaElement() {
+      return current && getWebMediaElement(current.sound);
+    },
+    async preload(source, nextTransition) {
+      transition = nextTransition;
+      if (next?.uri === source?.uri || next?.isStarted) return;
+      discard(next);
+      next = null;
+      if (!source) return;
+
+      const track = createTrack(source.uri);
+      next = track;
+      const { rate, shouldCorrectPitch, progressUpdateIntervalMillis } = options;
+      try {
+        await track.sound.loadAsync(
+          source as AVPlaybackSourceObject,
+          {
+            rate,
+            shouldCorrectPitch,
+            progressUpdateIntervalMillis,
+            volume: nextVolume(),
+            shouldPlay: false,
+          },
+          false
+        );
+        track.isLoaded = true;
+      } catch (error) {
+        // The track loads again the normal way when its turn comes, and fails visibly then.
+        console.error('Error preloading track:', error);
+        if (next === track) next = null;
+        discard(track);
+      }
+    },
+  };
+}
+
+let soundBackend: PlaybackBackend | null = null;
+
+/** Audio plays through a gapless backend shared by every track. */
+export function getSoundBackend(): PlaybackBackend {
+  if (!soundBackend) {
+    soundBackend = createGaplessBackend();
+  }
+  return soundBackend;
+}
@@ -0,0 +1,12 @@
+import { createPlaybackEngine } from './engine';
+
+export * from './types';
+export { createPlaybackEngine, canTransition, DEFAULT_PLAYBACK_OPTIONS } from './engine';
+export type { PlaybackEngine } from './engine';
+export { createAVBackend } from './avBackend';
+export { createGaplessBackend, getSoundBackend } from './gaplessBackend';
+export { createFakeBackend } from './fakeBackend';
+export type { FakeBackend } from './fakeBackend';
+
+/** Shared by every screen, so only one thing plays at a time. */
+export const playbackEngine = createPlaybackEngine();
@@ -0,0 +1,93 @@
+import { AVPlaybackSourceObject } from 'expo-av';
+import { MediaFile } from '@/lib/mediaLibrary';
+
+export type PlaybackState = 'idle' | 'loading' | 'playing' | 'paused' | 'ended' | 'error';
+
+/** The screen that started playback, so it can be returned to. */
+export type PlaybackOwner = 'player' | 'audio';
+
+export interface PlaybackOptions {
+  rate: number;
+  shouldCorrectPitch: boolean;
+  volume: number;
+  isLooping: boolean;
+  progressUpdateIntervalMillis: number;
+}
+
+/** How the next track takes over from the current one. */
+export interface TransitionOptions {
+  /** 0 starts the next track the moment the current one ends. */
+  crossfadeMillis: number;
+  /** The next track's own volume, when it isn't played at the current one's. */
+  volume?: number;
+}
+
+/** What a backend reports, already reduced from the player's own status type. */
+export interface BackendStatus {
+  isLoaded: boolean;
+  /** True while the player is meant to be playing, even if it is stalled buffering. */
+  shouldPlay: boolean;
+  isPlaying: boolean;
+  isBuffering: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  bufferedMillis: number;
+  didJustFinish: boolean;
+  error?: string;
+}
+
+/**
+ * The engine's view of something that can play media. expo-av's Sound and
+ * Video both fit behind it, and so does the in-memory fake.
+ */
+export interface PlaybackBackend {
+  load(
+    source: AVPlaybackSourceObject,
+    options: PlaybackOptions & { positionMillis: number; shouldPlay: boolean }
+  ): Promise<void>;
+  unload(): Promise<void>;
+  play(): Promise<void>;
+  pause(): Promise<void>;
+  seek(positionMillis: number): Promise<void>;
+  setOptions(options: Partial<PlaybackOptions>): Promise<void>;
+  setStatusListener(listener: ((status: BackendStatus) => void) | null): void;
+  /** The element doing the playing on web, for routing through Web Audio. */
+  getMediaElement?(): HTMLMediaElement | null;
+  /**
+   * Loads `source` in the background and starts it when the current track
+   * ends, or fades over to it. A backend with this swaps tracks itself, so
+   * the engine loads the next source into it without unloading it first.
+   */
+  preload?(source: AVPlaybackSourceObject | null, transition: TransitionOptions): Promise<void>;
+}
+
+export interface PlaybackSnapshot {
+  state: PlaybackState;
+  file: MediaFile | null;
+  owner: PlaybackOwner | null;
+  positionMillis: number;
+  durationMillis: number;
+  bufferedMillis: number;
+  isBuffering: boolean;
+  error: string | null;
+}
+
+export interface PlaybackEvents {
+  statechange: { state: PlaybackState; previous: PlaybackState; file: MediaFile | null };
+  /** Every status update from the backend, after the snapshot has been updated. */
+  progress: PlaybackSnapshot;
+  load: { file: MediaFile };
+  ended: { file: MediaFile };
+  error: { file: MediaFile | null; message: string };
+}
+
+export type PlaybackEventName = keyof PlaybackEvents;
+
+export type PlaybackListener<E extends PlaybackEventName> = (payload: PlaybackEvents[E]) => void;
+
+export interface LoadOptions {
+  owner?: PlaybackOwner;
+  positionMillis?: number;
+  autoPlay?: boolean;
+  options?: Partial<PlaybackOptions>;
+}
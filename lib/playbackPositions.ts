@@ -0,0 +1,68 @@
+import { createPersistedStore } from './createPersistedStore';
+
+interface SavedPosition {
+  position: number;
+  duration: number;
+  updatedAt: number;
+}
+
+interface PositionsState {
+  positions: Record<string, SavedPosition>;
+}
+
+/** Anything before this is not worth offering to resume. */
+export const MIN_RESUME_POSITION = 5000;
+/** Past this fraction of the duration a file counts as finished. */
+export const FINISHED_THRESHOLD = 0.95;
+const MAX_ENTRIES = 500;
+
+export const positionsStore = createPersistedStore<PositionsState>({
+  key: 'playback-positions',
+  version: 1,
+  initialState: { positions: {} },
+});
+
+export function isFinished(position: number, duration: number): boolean {
+  return duration > 0 && position / duration >= FINISHED_THRESHOLD;
+}
+
+export async function getResumePosition(key: string): Promise<number | null> {
+  await positionsStore.hydrate();
+  const saved = positionsStore.getState().positions[key];
+  if (!saved || saved.position < MIN_RESUME_POSITION) return null;
+  return saved.position;
+}
+
+export function savePlaybackPosition(key: string, position: number, duration: number) {
+  if (isFinished(position, duration)) {
+    clearPlaybackPosition(key);
+    return;
+  }
+  if (position < MIN_RESUME_POSITION) return;
+
+  positionsStore.setState((prev) => {
+    const positions = {
+      ...prev.positions,
+      [key]: { position, duration, updatedAt: Date.now() },
+    };
+
+    // Drop the least recently played entries once the map gets large.
+    const keys = Object.keys(positions);
+    if (keys.length > MAX_ENTRIES) {
+      keys
+        .sort((a, b) => positions[a].updatedAt - positions[b].updatedAt)
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach((stale) => delete positions[stale]);
+    }
+
+    return { positions };
+  });
+}
+
+export function clearPlaybackPosition(key: string) {
+  positionsStore.setState((prev) => {
+    if (!(key in prev.positions)) return prev;
+    const { [key]: _removed, ...positions } = prev.positions;
+    return { positions };
+  });
+}
@@ -0,0 +1,66 @@
+import { createPersistedStore } from './createPersistedStore';
+import { MediaType } from './mediaLibrary';
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 4;
+export const SPEED_STEP = 0.05;
+
+export const DEFAULT_SPEED_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+
+export interface SpeedSettingsState {
+  presets: number[];
+  pitchCorrection: boolean;
+  /** Speed last used for each media type, applied to files without their own. */
+  lastSpeedByType: Record<MediaType, number>;
+}
+
+export const speedSettingsStore = createPersistedStore<SpeedSettingsState>({
+  key: 'speed-settings',
+  version: 1,
+  initialState: {
+    presets: DEFAULT_SPEED_PRESETS,
+    pitchCorrection: true,
+    lastSpeedByType: { video: 1, audio: 1 },
+  },
+});
+
+// Rounding to the step avoids 1.2000000000000002 from repeated +0.05 taps.
+export function clampSpeed(speed: number): number {
+  const stepped = Math.round(speed / SPEED_STEP) * SPEED_STEP;
+  return Math.min(MAX_SPEED, Math.max(MIN_SPEED, parseFloat(stepped.toFixed(2))));
+}
+
+export function formatSpeed(speed: number): string {
+  return `${parseFloat(speed.toFixed(2))}x`;
+}
+
+export function setPitchCorrection(pitchCorrection: boolean) {
+  speedSettingsStore.setState((prev) => ({ ...prev, pitchCorrection }));
+}
+
+export function rememberSpeedForType(type: MediaType, speed: number) {
+  speedSettingsStore.setState((prev) => ({
+    ...prev,
+    lastSpeedByType: { ...prev.lastSpeedByType, [type]: speed },
+  }));
+}
+
+export function addSpeedPreset(speed: number) {
+  speedSettingsStore.setState((prev) => {
+    const value = clampSpeed(speed);
+    if (prev.presets.includes(value)) return prev;
+    return { ...prev, presets: [...prev.presets, value].sort((a, b) => a - b) };
+  });
+}
+
+export function removeSpeedPreset(speed: number) {
+  speedSettingsStore.setState((prev) => {
+    // Always keep at least one preset so the panel never ends up empty.
+    if (prev.presets.length <= 1) return prev;
+    return { ...prev, presets: prev.presets.filter((preset) => preset !== speed) };
+  });
+}
+
+export function resetSpeedPresets() {
+  speedSettingsStore.setState((prev) => ({ ...prev, presets: DEFAULT_SPEED_PRESETS }));
+}
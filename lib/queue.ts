@@ -0,0 +1,284 @@
+import { createPersistedStore } from './createPersistedStore';
+
+export type QueueRepeatMode = 'off' | 'all' | 'one';
+
+/** Within this much of the start, "previous" goes to the previous track instead of restarting. */
+export const PREVIOUS_RESTART_THRESHOLD = 3000;
+
+export interface QueueItem {
+  /** Unique per entry, so the same file can be queued more than once. */
+  id: string;
+  fileId: string;
+}
+
+export interface QueueState {
+  items: QueueItem[];
+  currentId: string | null;
+  repeat: QueueRepeatMode;
+  shuffle: boolean;
+  /** Items not yet played in the current shuffle round. */
+  shuffleRemaining: string[];
+  /** Items played before the current one while shuffling, oldest first. */
+  shuffleHistory: string[];
+}
+
+export const REPEAT_MODE_ORDER: QueueRepeatMode[] = ['off', 'all', 'one'];
+
+export const queueStore = createPersistedStore<QueueState>({
+  key: 'audio-queue',
+  version: 1,
+  initialState: {
+    items: [],
+    currentId: null,
+    repeat: 'off',
+    shuffle: false,
+    shuffleRemaining: [],
+    shuffleHistory: [],
+  },
+});
+
+const createItemId = (index: number) =>
+  `${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function getCurrentIndex(state: QueueState): number {
+  return state.items.findIndex((item) => item.id === state.currentId);
+}
+
+export function getCurrentItem(state: QueueState): QueueItem | undefined {
+  return state.items.find((item) => item.id === state.currentId);
+}
+
+const otherItemIds = (state: QueueState, exceptId: string | null) =>
+  state.items.filter((item) => item.id !== exceptId).map((item) => item.id);
+
+/** Moves to `id`, keeping the shuffle round and history in step. */
+function moveTo(state: QueueState, id: string | null): QueueState {
+  if (!state.shuffle || id === state.currentId) {
+    return { ...state, currentId: id };
+  }
+  const history = state.currentId ? [...state.shuffleHistory, state.currentId] : state.shuffleHistory;
+  return {
+    ...state,
+    currentId: id,
+    shuffleRemaining: state.shuffleRemaining.filter((remaining) => remaining !== id),
+    shuffleHistory: history.slice(-state.items.length),
+  };
+}
+
+/**
+ * The item after the current one, or null when the queue is done. `auto` is
+ * set when the track finished by itself; only then does repeat-one replay it.
+ */
+export function getNextItemId(
+  state: QueueState,
+  auto: boolean,
+  random: () => number = Math.random
+): string | null {
+  const { items, repeat, currentId } = state;
+  if (items.length === 0) return null;
+  if (auto && repeat === 'one' && currentId) return currentId;
+
+  if (state.shuffle) {
+    let remaining = state.shuffleRemaining.filter((id) => id !== currentId);
+    if (remaining.length === 0) {
+      if (repeat === 'off') return null;
+      remaining = otherItemIds(state, currentId);
+      // A one-track queue on repeat just plays that track again.
+      if (remaining.length === 0) return currentId;
+    }
+    return remaining[Math.floor(random() * remaining.length)];
+  }
+
+  const index = getCurrentIndex(state);
+  if (index + 1 < items.length) return items[index + 1].id;
+  return repeat === 'off' ? null : items[0].id;
+}
+
+export function getPreviousItemId(state: QueueState): string | null {
+  if (state.shuffle) {
+    return state.shuffleHistory[state.shuffleHistory.length - 1] ?? null;
+  }
+  const index = getCurrentIndex(state);
+  if (index > 0) return state.items[index - 1].id;
+  return state.repeat === 'off' || state.items.length === 0
+    ? null
+    : state.items[state.items.length - 1].id;
+}
+
+export function advanceQueue(
+  state: QueueState,
+  auto: boolean,
+  random: () => number = Math.random
+): QueueState {
+  const nextId = getNextItemId(state, auto, random);
+  if (nextId === null) return state;
+
+  // Starting a new shuffle round: everything but the track we land on is unplayed again.
+  if (state.shuffle && !state.shuffleRemaining.some((id) => id !== state.currentId)) {
+    const restarted = { ...state, shuffleRemaining: otherItemIds(state, state.currentId) };
+    return moveTo(restarted, nextId);
+  }
+  return moveTo(state, nextId);
+}
+
+export function retreatQueue(state: QueueState): QueueState {
+  const previousId = getPreviousItemId(state);
+  if (previousId === null) return state;
+  if (!state.shuffle) return { ...state, currentId: previousId };
+  // Going back puts the current track back into the unplayed pile.
+  return {
+    ...state,
+    currentId: previousId,
+    shuffleHistory: state.shuffleHistory.slice(0, -1),
+    shuffleRemaining: state.currentId
+      ? [...state.shuffleRemaining, state.currentId]
+      : state.shuffleRemaining,
+  };
+}
+
+/** Adds files to the queue; with `playNow` they go right after the current track and start playing. */
+export async function enqueueFiles(fileIds: string[], playNow = false): Promise<void> {
+  await queueStore.hydrate();
+  queueStore.setState((prev) => {
+    const added = fileIds.map((fileId, index) => ({ id: createItemId(index), fileId }));
+    if (added.length === 0) return prev;
+
+    // Played right away, new items go after the current one; otherwise at the end.
+    const insertAt = playNow ? getCurrentIndex(prev) + 1 : prev.items.length;
+    const items = [...prev.items.slice(0, insertAt), ...added, ...prev.items.slice(insertAt)];
+    let next: QueueState = {
+      ...prev,
+      items,
+      shuffleRemaining: [...prev.shuffleRemaining, ...added.map((item) => item.id)],
+    };
+    if (playNow || !prev.currentId) {
+      next = moveTo(next, added[0].id);
+    }
+    return next;
+  });
+}
+
+/**
+ * Replaces the whole queue, e.g. with a playlist, and starts it: from the
+ * first file, or from a random one when shuffling.
+ */
+export async function replaceQueue(fileIds: string[]): Promise<void> {
+  await queueStore.hydrate();
+  queueStore.setState((prev) => {
+    const items = fileIds.map((fileId, index) => ({ id: createItemId(index), fileId }));
+    const first = prev.shuffle ? items[Math.floor(Math.random() * items.length)] : items[0];
+    const currentId = first?.id ?? null;
+    return {
+      ...prev,
+      items,
+      currentId,
+      shuffleRemaining: items.map((item) => item.id).filter((id) => id !== currentId),
+      shuffleHistory: [],
+    };
+  });
+}
+
+/** Plays `fileId`, jumping to it if it is already queued. */
+export async function playFileInQueue(fileId: string): Promise<void> {
+  await queueStore.hydrate();
+  const existing = queueStore.getState().items.find((item) => item.fileId === fileId);
+  if (existing) {
+    jumpToQueueItem(existing.id);
+  } else {
+    await enqueueFiles([fileId], true);
+  }
+}
+
+export function jumpToQueueItem(id: string) {
+  queueStore.setState((prev) =>
+    prev.items.some((item) => item.id === id) ? moveTo(prev, id) : prev
+  );
+}
+
+/**
+ * Returns the item now current, or null if the queue has run out. Pass the
+ * `random` used to pick the preloaded track so a shuffle lands on that one.
+ */
+export function skipToNext(auto = false, random: () => number = Math.random): QueueItem | null {
+  const prev = queueStore.getState();
+  const next = advanceQueue(prev, auto, random);
+  if (next === prev) return null;
+  queueStore.setState(() => next);
+  return getCurrentItem(next) ?? null;
+}
+
+/** Returns the item now current, or null if there is nothing before it. */
+export function skipToPrevious(): QueueItem | null {
+  const prev = queueStore.getState();
+  const next = retreatQueue(prev);
+  if (next === prev) return null;
+  queueStore.setState(() => next);
+  return getCurrentItem(next) ?? null;
+}
+
+function removeItems(prev: QueueState, removed: (item: QueueItem) => boolean): QueueState {
+  const removedIds = new Set(prev.items.filter(removed).map((item) => item.id));
+  if (removedIds.size === 0) return prev;
+
+  let currentId = prev.currentId;
+  if (currentId && removedIds.has(currentId)) {
+    // Carry on with whatever followed the removed track.
+    const index = getCurrentIndex(prev);
+    const following = [...prev.items.slice(index + 1), ...prev.items.slice(0, index)];
+    currentId = following.find((item) => !removedIds.has(item.id))?.id ?? null;
+  }
+  return {
+    ...prev,
+    items: prev.items.filter((item) => !removedIds.has(item.id)),
+    currentId,
+    shuffleRemaining: prev.shuffleRemaining.filter((id) => !removedIds.has(id) && id !== currentId),
+    shuffleHistory: prev.shuffleHistory.filter((id) => !removedIds.has(id)),
+  };
+}
+
+export function removeFromQueue(id: string) {
+  queueStore.setState((prev) => removeItems(prev, (item) => item.id === id));
+}
+
+/** Drops every entry for a file, e.g. when it is removed from the library. */
+export function removeFileFromQueue(fileId: string) {
+  queueStore.setState((prev) => removeItems(prev, (item) => item.fileId === fileId));
+}
+
+export function moveQueueItem(from: number, to: number) {
+  queueStore.setState((prev) => {
+    const target = Math.min(Math.max(0, to), prev.items.length - 1);
+    if (from === target || !prev.items[from]) return prev;
+    const items = [...prev.items];
+    const [moved] = items.splice(from, 1);
+    items.splice(target, 0, moved);
+    return { ...prev, items };
+  });
+}
+
+export function clearQueue() {
+  queueStore.setState((prev) => ({
+    ...prev,
+    items: [],
+    currentId: null,
+    shuffleRemaining: [],
+    shuffleHistory: [],
+  }));
+}
+
+export function cycleRepeatMode() {
+  queueStore.setState((prev) => ({
+    ...prev,
+    repeat: REPEAT_MODE_ORDER[(REPEAT_MODE_ORDER.indexOf(prev.repeat) + 1) % REPEAT_MODE_ORDER.length],
+  }));
+}
+
+export function toggleShuffle() {
+  queueStore.setState((prev) => ({
+    ...prev,
+    shuffle: !prev.shuffle,
+    // Each time shuffle is turned on, a fresh round starts from the current track.
+    shuffleRemaining: prev.shuffle ? [] : otherItemIds(prev, prev.currentId),
+    shuffleHistory: [],
+  }));
+}
@@ -0,0 +1,188 @@
+import { Platform } from 'react-native';
+import { AVPlaybackSourceObject } from 'expo-av';
+import { getExtension } from './files';
+import { MediaFile, MediaType, NewMediaFile, RemoteSource } from './mediaLibrary';
+
+export interface HeaderEntry {
+  name: string;
+  value: string;
+}
+
+export interface RemoteMediaInput {
+  url: string;
+  headers: HeaderEntry[];
+  username: string;
+  password: string;
+}
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'flac', 'ogg', 'oga', 'opus', 'wav'];
+const HLS_EXTENSIONS = ['m3u8', 'm3u'];
+
+/** RFC 7230 token characters. */
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+interface ParsedUrl {
+  protocol: string;
+  username: string;
+  password: string;
+  host: string;
+  pathname: string;
+  /** Query string and fragment, kept as typed. */
+  rest: string;
+}
+
+// React Native's URL only implements href and toString, so split it by hand.
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/(?:([^:@/?#]*)(?::([^@/?#]*))?@)?([^/?#]+)([^?#]*)(.*)$/i;
+
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+function parseUrl(input: string): ParsedUrl | null {
+  const match = URL_PATTERN.exec(input.trim());
+  if (!match || /\s/.test(input.trim())) return null;
+  const [, protocol, username = '', password = '', host, pathname, rest] = match;
+  return {
+    protocol: protocol.toLowerCase(),
+    username: safeDecode(username),
+    password: safeDecode(password),
+    host,
+    pathname,
+    rest,
+  };
+}
+
+function getUrlFileName(url: ParsedUrl): string {
+  return safeDecode(url.pathname.split('/').filter(Boolean).pop() ?? '');
+}
+
+function getStreamFormat(url: ParsedUrl): RemoteSource['format'] {
+  return HLS_EXTENSIONS.includes(getExtension(getUrlFileName(url))) ? 'hls' : 'progressive';
+}
+
+/** Returns a message describing what's wrong with the input, or null if it can be opened. */
+export function validateRemoteMedia(input: RemoteMediaInput): string | null {
+  if (!input.url.trim()) {
+    return 'Enter a URL';
+  }
+  const url = parseUrl(input.url);
+  if (!url) {
+    return 'That is not a valid URL';
+  }
+  if (url.protocol !== 'http' && url.protocol !== 'https') {
+    return 'Only http:// and https:// URLs are supported';
+  }
+  for (const header of input.headers) {
+    if (!header.name.trim() && !header.value.trim()) continue;
+    if (!HEADER_NAME.test(header.name.trim())) {
+      return `"${header.name}" is not a valid header name`;
+    }
+  }
+  if (input.password && !input.username.trim()) {
+    return 'Enter a username to go with the password';
+  }
+  const hasHeaders =
+    input.headers.some((header) => header.name.trim()) || input.username.trim() || url.username;
+  if (Platform.OS === 'web' && hasHeaders) {
+    return 'Browsers can only open streams without custom headers or sign-in';
+  }
+  return null;
+}
+
+// btoa only takes Latin-1, so encode as UTF-8 bytes first.
+function encodeBasicAuth(username: string, password: string): string {
+  const bytes = encodeURIComponent(`${username}:${password}`).replace(/%([0-9A-F]{2})/g, (_, hex) =>
+    String.fromCharCode(parseInt(hex, 16))
+  );
+  return `Basic ${btoa(bytes)}`;
+}
+
+/**
+ * Builds the library record for a stream. Credentials written into the URL
+ * are moved into an Authorization header, since players don't reliably
+ * honour them there. That header isn't persisted, so after a restart the
+ * stream has to be signed in to again; see `needsSignIn`.
+ */
+export function createRemoteMedia(input: RemoteMediaInput): NewMediaFile {
+  const url = parseUrl(input.url);
+  if (!url) {
+    throw new Error('Invalid URL');
+  }
+
+  const headers: Record<string, string> = {};
+  for (const header of input.headers) {
+    if (header.name.trim()) {
+      headers[header.name.trim()] = header.value.trim();
+    }
+  }
+
+  const username = input.username.trim() || url.username;
+  const password = input.password || url.password;
+  if (username) {
+    headers.Authorization = encodeBasicAuth(username, password);
+  }
+
+  const fileName = getUrlFileName(url);
+  const format = getStreamFormat(url);
+  const type: MediaType = AUDIO_EXTENSIONS.includes(getExtension(fileName)) ? 'audio' : 'video';
+
+  return {
+    name: fileName || url.host,
+    uri: `${url.protocol}://${url.host}${url.pathname}${url.rest}`,
+    type,
+    size: 0,
+    remote: {
+      format,
+      headers: Object.keys(headers).length > 0 ? headers : undefined,
+      signIn: username ? true : undefined,
+    },
+  };
+}
+
+/** A stream's stored headers as editable rows, leaving out the sign-in that is asked for anew. */
+export function getHeaderEntries(file: MediaFile): HeaderEntry[] {
+  return Object.entries(file.remote?.headers ?? {})
+    .filter(([name]) => name !== 'Authorization')
+    .map(([name, value]) => ({ name, value }));
+}
+
+/** Whether a stream's sign-in was dropped when the app last closed. */
+export function needsSignIn(file: MediaFile): boolean {
+  return !!file.remote?.signIn && !file.remote.headers?.Authorization;
+}
+
+/**
+ * The source to hand to expo-av. Browsers can't attach headers to media
+ * requests, so on web only open streams work.
+ */
+export function getPlaybackSource(file: MediaFile): AVPlaybackSourceObject {
+  if (!file.remote) {
+    return { uri: file.uri };
+  }
+  return {
+    uri: file.uri,
+    headers: file.remote.headers,
+    overrideFileExtensionAndroid: file.remote.format === 'hls' ? 'm3u8' : undefined,
+  };
+}
+
+/** Turns the player's error string into something worth showing. */
+export function describePlaybackError(file: MediaFile | undefined, error: string): string {
+  if (!file?.remote) {
+    return 'This file could not be played';
+  }
+  if (/401|403|unauthori[sz]ed|forbidden/i.test(error)) {
+    if (needsSignIn(file)) {
+      return 'Sign in again to play this stream.';
+    }
+    return 'The server refused access. Check the username, password and headers.';
+  }
+  if (/404|not found/i.test(error)) {
+    return 'Nothing was found at this URL';
+  }
+  return 'Could not load the stream. Check the URL and your connection.';
+}
@@ -0,0 +1,25 @@
+import { Platform, Share } from 'react-native';
+
+/**
+ * Hands text to the system share sheet. Browsers without the Web Share API
+ * get it as a file download instead.
+ */
+export async function shareText(title: string, text: string, fileName: string) {
+  if (Platform.OS !== 'web') {
+    await Share.share({ title, message: text });
+    return;
+  }
+
+  const navigator = globalThis.navigator;
+  if (navigator?.share) {
+    await navigator.share({ title, text });
+    return;
+  }
+
+  const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+  const link = globalThis.document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
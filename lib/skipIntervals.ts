@@ -0,0 +1,25 @@
+import { createPersistedStore } from './createPersistedStore';
+
+/** The choices offered in Settings, in the order tapping cycles through them. */
+export const SKIP_INTERVALS = [5000, 10000, 15000, 30000, 45000, 60000];
+
+export type SkipDirection = 'back' | 'forward';
+
+export type SkipIntervalsState = Record<SkipDirection, number>;
+
+export const skipIntervalsStore = createPersistedStore<SkipIntervalsState>({
+  key: 'skip-intervals',
+  version: 1,
+  initialState: { back: 15000, forward: 30000 },
+});
+
+export function cycleSkipInterval(direction: SkipDirection) {
+  skipIntervalsStore.setState((prev) => {
+    const index = SKIP_INTERVALS.indexOf(prev[direction]);
+    return { ...prev, [direction]: SKIP_INTERVALS[(index + 1) % SKIP_INTERVALS.length] };
+  });
+}
+
+export function formatSkipInterval(millis: number): string {
+  return `${Math.round(millis / 1000)}s`;
+}
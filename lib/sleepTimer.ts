@@ -0,0 +1,164 @@
+import { playbackEngine, PlaybackSnapshot } from './playback';
+import { formatTime } from './format';
+
+/** The durations offered as one-tap presets. */
+export const SLEEP_TIMER_PRESETS = [15, 30, 45, 60].map((minutes) => minutes * 60 * 1000);
+
+/** Playback fades out over this much of the end of the timer. */
+export const SLEEP_FADE_MILLIS = 30 * 1000;
+
+/** How much a shake or a tap on the countdown adds. */
+export const SLEEP_EXTEND_MILLIS = 5 * 60 * 1000;
+
+/**
+ * `time` counts down while something plays; `track` and `chapter` stop
+ * playback when the current track or chapter ends.
+ */
+export type SleepTimerMode = 'time' | 'track' | 'chapter';
+
+export interface SleepTimer {
+  mode: SleepTimerMode;
+  remainingMillis: number;
+  /** Where the chapter being waited for ends, for `chapter` timers. */
+  endPositionMillis?: number;
+}
+
+type Listener = () => void;
+
+let timer: SleepTimer | null = null;
+const listeners = new Set<Listener>();
+let unsubscribeEngine: (() => void) | null = null;
+// Wall time of the last progress update while playing; null while paused.
+let lastTick: number | null = null;
+
+export function getSleepTimer(): SleepTimer | null {
+  return timer;
+}
+
+export function subscribeSleepTimer(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function setTimer(next: SleepTimer | null) {
+  timer = next;
+  listeners.forEach((listener) => listener());
+}
+
+/** Whether the timer runs out when the current track finishes, rather than on the clock. */
+export function stopsAtEndOfTrack(current: SleepTimer | null): boolean {
+  return current !== null && current.mode !== 'time';
+}
+
+/** How loud playback should be while the timer runs out, from 1 down to 0. */
+export function getSleepTimerVolume(current: SleepTimer | null): number {
+  if (!current) return 1;
+  return Math.min(1, Math.max(0, current.remainingMillis / SLEEP_FADE_MILLIS));
+}
+
+function remainingInTrack({ positionMillis, durationMillis }: PlaybackSnapshot): number {
+  if (durationMillis <= 0) return Number.POSITIVE_INFINITY;
+  return Math.max(0, durationMillis - positionMillis);
+}
+
+function expire() {
+  cancelSleepTimer();
+  playbackEngine.pause();
+}
+
+/**
+ * Advances the timer on every status update from the engine, so it only
+ * runs while something is actually playing.
+ */
+function tick(snapshot: PlaybackSnapshot) {
+  if (!timer) return;
+  if (snapshot.state !== 'playing') {
+    lastTick = null;
+    return;
+  }
+
+  const now = Date.now();
+  let remainingMillis: number;
+  switch (timer.mode) {
+    case 'time':
+      remainingMillis = timer.remainingMillis - (lastTick === null ? 0 : now - lastTick);
+      break;
+    case 'chapter':
+      remainingMillis = (timer.endPositionMillis ?? 0) - snapshot.positionMillis;
+      break;
+    default:
+      remainingMillis = remainingInTrack(snapshot);
+  }
+  lastTick = now;
+
+  // The end of the track is caught by the ended event, which is exact.
+  if (remainingMillis <= 0 && timer.mode !== 'track') {
+    expire();
+  } else {
+    setTimer({ ...timer, remainingMillis });
+  }
+}
+
+function start(next: SleepTimer) {
+  if (!unsubscribeEngine) {
+    const offProgress = playbackEngine.on('progress', tick);
+    const offEnded = playbackEngine.on('ended', () => {
+      // Left for the other ended listeners to see first, so the queue doesn't move on.
+      if (stopsAtEndOfTrack(timer)) Promise.resolve().then(expire);
+    });
+    unsubscribeEngine = () => {
+      offProgress();
+      offEnded();
+    };
+  }
+  lastTick = playbackEngine.getState().state === 'playing' ? Date.now() : null;
+  setTimer(next);
+}
+
+export function startSleepTimer(durationMillis: number) {
+  start({ mode: 'time', remainingMillis: durationMillis });
+}
+
+export function stopAtEndOfTrack() {
+  start({ mode: 'track', remainingMillis: remainingInTrack(playbackEngine.getState()) });
+}
+
+export function stopAtEndOfChapter(endPositionMillis: number) {
+  start({
+    mode: 'chapter',
+    remainingMillis: endPositionMillis - playbackEngine.getState().positionMillis,
+    endPositionMillis,
+  });
+}
+
+/** Adds more time, turning a track or chapter timer into a plain countdown. */
+export function extendSleepTimer() {
+  if (!timer) return;
+  // A stream's length isn't known, so its track timer starts the countdown from nothing.
+  const remaining = Number.isFinite(timer.remainingMillis) ? timer.remainingMillis : 0;
+  start({ mode: 'time', remainingMillis: Math.max(0, remaining) + SLEEP_EXTEND_MILLIS });
+}
+
+export function cancelSleepTimer() {
+  unsubscribeEngine?.();
+  unsubscribeEngine = null;
+  lastTick = null;
+  setTimer(null);
+}
+
+/** "25:00", or how long until the track or chapter ends. */
+export function formatSleepTimer(current: SleepTimer): string {
+  const clock = Number.isFinite(current.remainingMillis)
+    ? formatTime(current.remainingMillis)
+    : null;
+  switch (current.mode) {
+    case 'track':
+      return clock ? `End of track · ${clock}` : 'End of track';
+    case 'chapter':
+      return `End of chapter · ${clock}`;
+    default:
+      return clock ?? '';
+  }
+}
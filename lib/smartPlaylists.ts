@@ -0,0 +1,217 @@
+import { createPersistedStore } from './createPersistedStore';
+import { getDisplayTitle, MediaFile, MediaType } from './mediaLibrary';
+
+export type NumberOperator = '>' | '>=' | '<' | '<=' | '=';
+export type TextOperator = 'contains' | 'is';
+
+/** Durations are in minutes, as they are typed in the editor. */
+export type SmartRule =
+  | { field: 'type'; value: MediaType }
+  | { field: 'favorite'; value: boolean }
+  | { field: 'addedWithinDays'; value: number }
+  | { field: 'duration' | 'playCount'; operator: NumberOperator; value: number }
+  | { field: 'artist' | 'album' | 'genre'; operator: TextOperator; value: string };
+
+export type SmartRuleField = SmartRule['field'];
+
+export type SmartPlaylistSort = 'addedAt' | 'name' | 'playCount' | 'duration';
+
+export interface SmartPlaylist {
+  id: string;
+  name: string;
+  /** Whether every rule has to match, or any one of them. */
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  sortBy: SmartPlaylistSort;
+  /** Keeps only the first this many files after sorting. */
+  limit?: number;
+}
+
+export interface SmartPlaylistState {
+  playlists: SmartPlaylist[];
+}
+
+export const NUMBER_OPERATORS: NumberOperator[] = ['>', '>=', '<', '<=', '='];
+export const TEXT_OPERATORS: TextOperator[] = ['contains', 'is'];
+export const SMART_PLAYLIST_SORTS: SmartPlaylistSort[] = [
+  'addedAt',
+  'name',
+  'playCount',
+  'duration',
+];
+
+/** What a rule starts as when its field is picked in the editor, in the order they're offered. */
+export const DEFAULT_RULES: Record<SmartRuleField, SmartRule> = {
+  type: { field: 'type', value: 'audio' },
+  favorite: { field: 'favorite', value: true },
+  addedWithinDays: { field: 'addedWithinDays', value: 7 },
+  duration: { field: 'duration', operator: '>', value: 20 },
+  playCount: { field: 'playCount', operator: '>=', value: 5 },
+  artist: { field: 'artist', operator: 'contains', value: '' },
+  album: { field: 'album', operator: 'contains', value: '' },
+  genre: { field: 'genre', operator: 'contains', value: '' },
+};
+
+export const SMART_RULE_FIELDS = Object.keys(DEFAULT_RULES) as SmartRuleField[];
+
+const DAY_MILLIS = 24 * 60 * 60 * 1000;
+
+export const smartPlaylistStore = createPersistedStore<SmartPlaylistState>({
+  key: 'smart-playlists',
+  version: 1,
+  initialState: {
+    playlists: [
+      {
+        id: 'favorites',
+        name: 'Favorites',
+        match: 'all',
+        rules: [DEFAULT_RULES.favorite],
+        sortBy: 'name',
+      },
+      {
+        id: 'recently-added',
+        name: 'Recently Added',
+        match: 'all',
+        rules: [{ field: 'addedWithinDays', value: 14 }],
+        sortBy: 'addedAt',
+      },
+      {
+        id: 'most-played',
+        name: 'Most Played',
+        match: 'all',
+        rules: [{ field: 'playCount', operator: '>=', value: 1 }],
+        sortBy: 'playCount',
+        limit: 25,
+      },
+    ],
+  },
+});
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+function compareNumbers(actual: number, operator: NumberOperator, expected: number): boolean {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+export function matchesRule(file: MediaFile, rule: SmartRule, now = Date.now()): boolean {
+  switch (rule.field) {
+    case 'type':
+      return file.type === rule.value;
+    case 'favorite':
+      return !!file.favorite === rule.value;
+    case 'addedWithinDays':
+      return now - file.addedAt.getTime() <= rule.value * DAY_MILLIS;
+    case 'duration':
+      // Files that haven't been played yet have no known duration.
+      return (
+        file.duration !== undefined &&
+        compareNumbers(file.duration / 60000, rule.operator, rule.value)
+      );
+    case 'playCount':
+      return compareNumbers(file.playCount ?? 0, rule.operator, rule.value);
+    default: {
+      const actual = file.tags?.[rule.field]?.toLowerCase();
+      const expected = rule.value.trim().toLowerCase();
+      if (!actual) return false;
+      return rule.operator === 'is' ? actual === expected : actual.includes(expected);
+    }
+  }
+}
+
+function compareFiles(a: MediaFile, b: MediaFile, sortBy: SmartPlaylistSort): number {
+  switch (sortBy) {
+    case 'name':
+      return getDisplayTitle(a).localeCompare(getDisplayTitle(b));
+    case 'playCount':
+      return (b.playCount ?? 0) - (a.playCount ?? 0);
+    case 'duration':
+      return (b.duration ?? 0) - (a.duration ?? 0);
+    default:
+      return b.addedAt.getTime() - a.addedAt.getTime();
+  }
+}
+
+/** The files in the library that `playlist` currently selects, sorted and limited. */
+export function getSmartPlaylistFiles(
+  files: MediaFile[],
+  playlist: SmartPlaylist,
+  now = Date.now()
+): MediaFile[] {
+  const { rules, match, sortBy, limit } = playlist;
+  const matches = (file: MediaFile) =>
+    match === 'all'
+      ? rules.every((rule) => matchesRule(file, rule, now))
+      : rules.some((rule) => matchesRule(file, rule, now));
+
+  const selected = files.filter(matches).sort((a, b) => compareFiles(a, b, sortBy));
+  return limit ? selected.slice(0, limit) : selected;
+}
+
+const FIELD_LABELS: Record<SmartRuleField, string> = {
+  type: 'Type',
+  favorite: 'Favorite',
+  addedWithinDays: 'Added',
+  duration: 'Duration',
+  playCount: 'Play count',
+  artist: 'Artist',
+  album: 'Album',
+  genre: 'Genre',
+};
+
+export function getRuleFieldLabel(field: SmartRuleField): string {
+  return FIELD_LABELS[field];
+}
+
+/** "Type is audio", "Added in the last 7 days", "Duration > 20 min". */
+export function describeRule(rule: SmartRule): string {
+  switch (rule.field) {
+    case 'type':
+      return `Type is ${rule.value}`;
+    case 'favorite':
+      return rule.value ? 'Favorite' : 'Not favorite';
+    case 'addedWithinDays':
+      return `Added in the last ${rule.value} ${rule.value === 1 ? 'day' : 'days'}`;
+    case 'duration':
+      return `Duration ${rule.operator} ${rule.value} min`;
+    case 'playCount':
+      return `Play count ${rule.operator} ${rule.value}`;
+    default:
+      return `${FIELD_LABELS[rule.field]} ${rule.operator} "${rule.value}"`;
+  }
+}
+
+export function describeSmartPlaylist(playlist: SmartPlaylist): string {
+  if (playlist.rules.length === 0) return 'Everything';
+  return playlist.rules.map(describeRule).join(playlist.match === 'all' ? ' and ' : ' or ');
+}
+
+export function saveSmartPlaylist(playlist: Omit<SmartPlaylist, 'id'> & { id?: string }): string {
+  const id = playlist.id ?? createId();
+  smartPlaylistStore.setState((prev) => {
+    const saved = { ...playlist, id };
+    const exists = prev.playlists.some((existing) => existing.id === id);
+    return {
+      playlists: exists
+        ? prev.playlists.map((existing) => (existing.id === id ? saved : existing))
+        : [...prev.playlists, saved],
+    };
+  });
+  return id;
+}
+
+export function deleteSmartPlaylist(id: string) {
+  smartPlaylistStore.setState((prev) => ({
+    playlists: prev.playlists.filter((playlist) => playlist.id !== id),
+  }));
+}
@@ -0,0 +1,37 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+const STORAGE_PREFIX = 'media-player';
+
+const fileUriFor = (key: string) =>
+  `${FileSystem.documentDirectory}${STORAGE_PREFIX}-${key}.json`;
+
+// Web builds have no document directory, so fall back to localStorage there.
+export async function readItem(key: string): Promise<string | null> {
+  if (Platform.OS === 'web') {
+    return globalThis.localStorage?.getItem(`${STORAGE_PREFIX}:${key}`) ?? null;
+  }
+
+  const uri = fileUriFor(key);
+  const info = await FileSystem.getInfoAsync(uri);
+  if (!info.exists) return null;
+  return FileSystem.readAsStringAsync(uri);
+}
+
+export async function writeItem(key: string, value: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    globalThis.localStorage?.setItem(`${STORAGE_PREFIX}:${key}`, value);
+    return;
+  }
+
+  await FileSystem.writeAsStringAsync(fileUriFor(key), value);
+}
+
+export async function removeItem(key: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    globalThis.localStorage?.removeItem(`${STORAGE_PREFIX}:${key}`);
+    return;
+  }
+
+  await FileSystem.deleteAsync(fileUriFor(key), { idempotent: true });
+}
@@ -0,0 +1,117 @@
+import { createPersistedStore } from './createPersistedStore';
+import { fileExists, getBaseName, getDirectoryUri, readTextFile } from './files';
+import {
+  detectSubtitleFormat,
+  parseSubtitles,
+  SubtitleCue,
+  SUBTITLE_EXTENSIONS,
+} from './subtitles';
+
+export interface SubtitleAppearance {
+  fontSize: number;
+  color: string;
+  backgroundColor: string;
+  /** Distance of the subtitle block from the bottom, as a percentage of the video height. */
+  verticalPosition: number;
+}
+
+export interface SubtitleSource {
+  name: string;
+  uri: string;
+}
+
+export interface SubtitleState {
+  enabled: boolean;
+  appearance: SubtitleAppearance;
+  /** Previously loaded subtitle files, keyed by lower-cased basename. */
+  sidecars: Record<string, SubtitleSource>;
+}
+
+export const DEFAULT_SUBTITLE_APPEARANCE: SubtitleAppearance = {
+  fontSize: 18,
+  color: '#FFFFFF',
+  backgroundColor: 'rgba(0,0,0,0.6)',
+  verticalPosition: 8,
+};
+
+export const subtitleStore = createPersistedStore<SubtitleState>({
+  key: 'subtitles',
+  version: 1,
+  initialState: {
+    enabled: true,
+    appearance: DEFAULT_SUBTITLE_APPEARANCE,
+    sidecars: {},
+  },
+});
+
+const sidecarKey = (fileName: string) => getBaseName(fileName).toLowerCase();
+
+export function setSubtitlesEnabled(enabled: boolean) {
+  subtitleStore.setState((prev) => ({ ...prev, enabled }));
+}
+
+export function updateSubtitleAppearance(changes: Partial<SubtitleAppearance>) {
+  subtitleStore.setState((prev) => ({
+    ...prev,
+    appearance: { ...prev.appearance, ...changes },
+  }));
+}
+
+/**
+ * Remembers a subtitle file under its own basename and under the media file
+ * it was loaded for, so either can be matched automatically next time.
+ */
+export function rememberSubtitle(mediaName: string, source: SubtitleSource) {
+  subtitleStore.setState((prev) => ({
+    ...prev,
+    sidecars: {
+      ...prev.sidecars,
+      [sidecarKey(source.name)]: source,
+      [sidecarKey(mediaName)]: source,
+    },
+  }));
+}
+
+export function forgetSubtitle(mediaName: string) {
+  subtitleStore.setState((prev) => {
+    const { [sidecarKey(mediaName)]: _removed, ...sidecars } = prev.sidecars;
+    return { ...prev, sidecars };
+  });
+}
+
+/**
+ * The subtitles picked for the media before, else a subtitle file with the same
+ * basename next to it. Picked media is copied into the cache on its own, so
+ * nothing sits next to it there; picking the file by hand is the main path,
+ * and the search only helps media opened from its own folder.
+ */
+export async function findSidecarSubtitle(
+  mediaName: string,
+  mediaUri: string
+): Promise<SubtitleSource | null> {
+  await subtitleStore.hydrate();
+  const remembered = subtitleStore.getState().sidecars[sidecarKey(mediaName)];
+  if (remembered) return remembered;
+
+  const baseName = getBaseName(mediaName);
+  const directory = getDirectoryUri(mediaUri);
+
+  for (const extension of Object.keys(SUBTITLE_EXTENSIONS)) {
+    const name = `${baseName}.${extension}`;
+    const uri = `${directory}${encodeURIComponent(name)}`;
+    if (await fileExists(uri)) {
+      return { name, uri };
+    }
+  }
+
+  return null;
+}
+
+export async function loadSubtitleCues(source: SubtitleSource): Promise<SubtitleCue[]> {
+  const content = await readTextFile(source.uri);
+  const format = detectSubtitleFormat(source.name, content);
+  if (!format) {
+    throw new Error(`Unsupported subtitle format: ${source.name}`);
+  }
+  return parseSubtitles(content, format);
+}
@@ -0,0 +1,219 @@
+import { mergeSpans } from './markup';
+import { parseTimestamp, sortCues } from './timing';
+import { SubtitleCue, SubtitleSpan } from './types';
+
+interface AssStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  color?: string;
+  alignment: number;
+}
+
+const DEFAULT_STYLE: AssStyle = {
+  bold: false,
+  italic: false,
+  underline: false,
+  alignment: 2,
+};
+
+const DEFAULT_STYLE_FORMAT = [
+  'name', 'fontname', 'fontsize', 'primarycolour', 'secondarycolour', 'outlinecolour',
+  'backcolour', 'bold', 'italic', 'underline', 'strikeout', 'scalex', 'scaley', 'spacing',
+  'angle', 'borderstyle', 'outline', 'shadow', 'alignment', 'marginl', 'marginr', 'marginv',
+  'encoding',
+];
+
+const DEFAULT_EVENT_FORMAT = [
+  'layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text',
+];
+
+/**
+ * Parses ASS and SSA scripts. Only the styling that maps onto a plain text
+ * overlay is kept: bold, italic, underline, primary colour and alignment.
+ * Positioning, animation and drawing commands are ignored.
+ */
+export function parseAss(content: string): SubtitleCue[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const styles: Record<string, AssStyle> = {};
+  const cues: SubtitleCue[] = [];
+
+  let section = '';
+  let isLegacySsa = false;
+  let styleFormat = DEFAULT_STYLE_FORMAT;
+  let eventFormat = DEFAULT_EVENT_FORMAT;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+
+    const sectionMatch = /^\[(.+)\]$/.exec(line);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      if (section === 'v4 styles') isLegacySsa = true;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') {
+        styleFormat = splitFormat(value);
+      } else if (key === 'style') {
+        const fields = splitFields(value, styleFormat.length);
+        const get = (name: string) => fields[styleFormat.indexOf(name)];
+        styles[get('name') ?? 'Default'] = {
+          bold: isAssTrue(get('bold')),
+          italic: isAssTrue(get('italic')),
+          underline: isAssTrue(get('underline')),
+          color: parseAssColor(get('primarycolour')),
+          alignment: normaliseAlignment(parseInt(get('alignment') ?? '2', 10), isLegacySsa),
+        };
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = splitFormat(value);
+      } else if (key === 'dialogue') {
+        const fields = splitFields(value, eventFormat.length);
+        const get = (name: string) => fields[eventFormat.indexOf(name)];
+
+        const start = parseTimestamp(get('start') ?? '');
+        const end = parseTimestamp(get('end') ?? '');
+        if (start === null || end === null) continue;
+
+        const baseStyle = styles[(get('style') ?? '').replace(/^\*/, '')] ?? styles.Default ?? DEFAULT_STYLE;
+        const { spans, alignment } = parseAssText(get('text') ?? '', baseStyle);
+        if (spans.length === 0) continue;
+
+        cues.push({ start, end, spans, ...alignmentToPlacement(alignment) });
+      }
+    }
+  }
+
+  return sortCues(cues);
+}
+
+function parseAssText(text: string, baseStyle: AssStyle) {
+  const spans: SubtitleSpan[] = [];
+  let style: AssStyle = { ...baseStyle };
+  let alignment = baseStyle.alignment;
+
+  const pattern = /\{([^}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (chunk: string) => {
+    const cleaned = chunk.replace(/\\N/gi, '\n').replace(/\\h/g, ' ');
+    if (cleaned) {
+      spans.push({
+        text: cleaned,
+        bold: style.bold || undefined,
+        italic: style.italic || undefined,
+        underline: style.underline || undefined,
+        color: style.color,
+      });
+    }
+  };
+
+  while ((match = pattern.exec(text))) {
+    push(text.slice(lastIndex, match.index));
+    lastIndex = pattern.lastIndex;
+
+    for (const override of match[1].split('\\').slice(1)) {
+      // Anchored so that e.g. \blur, \bord and \alpha aren't read as \b and \a.
+      const tag = /^(an|a|b|i|u)(\d*)$|^(1c|c)(&H[0-9a-f]+&?)?$|^(r)(.*)$/i.exec(override.trim());
+      if (!tag) continue;
+      const name = (tag[1] ?? tag[3] ?? tag[5]).toLowerCase();
+      const arg = tag[2] ?? tag[4] ?? tag[6] ?? '';
+
+      switch (name) {
+        case 'b':
+          // \b accepts weights as well as 0/1; anything from 1 up counts as bold.
+          style.bold = arg !== '' && parseInt(arg, 10) !== 0;
+          break;
+        case 'i':
+          style.italic = arg === '1';
+          break;
+        case 'u':
+          style.underline = arg === '1';
+          break;
+        case 'c':
+        case '1c':
+          style.color = arg ? parseAssColor(arg) : baseStyle.color;
+          break;
+        case 'an':
+          alignment = parseInt(arg, 10) || alignment;
+          break;
+        case 'a':
+          alignment = normaliseAlignment(parseInt(arg, 10), true) || alignment;
+          break;
+        case 'r':
+          style = { ...baseStyle };
+          break;
+      }
+    }
+  }
+  push(text.slice(lastIndex));
+
+  const visible = mergeSpans(spans);
+  return {
+    spans: visible.some((span) => span.text.trim()) ? visible : [],
+    alignment,
+  };
+}
+
+function splitFormat(value: string): string[] {
+  return value.split(',').map((field) => field.trim().toLowerCase());
+}
+
+// The last field (Text) may itself contain commas.
+function splitFields(value: string, count: number): string[] {
+  const parts = value.split(',');
+  const fields = parts.slice(0, count - 1).map((field) => field.trim());
+  fields.push(parts.slice(count - 1).join(','));
+  return fields;
+}
+
+function isAssTrue(value: string | undefined): boolean {
+  return value !== undefined && value.trim() !== '0' && value.trim() !== '';
+}
+
+/** ASS colours are &HAABBGGRR (alpha optional); returns #RRGGBB. */
+function parseAssColor(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const hex = /&?H([0-9a-f]+)&?/i.exec(value.trim());
+  let bgr: string;
+  if (hex) {
+    bgr = hex[1].padStart(6, '0').slice(-6);
+  } else if (/^-?\d+$/.test(value.trim())) {
+    // SSA v4 scripts store colours as decimal BGR integers.
+    bgr = (parseInt(value, 10) >>> 0).toString(16).padStart(6, '0').slice(-6);
+  } else {
+    return undefined;
+  }
+  return `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toUpperCase();
+}
+
+/**
+ * SSA uses 1-3 for bottom, 5-7 for top and 9-11 for middle; ASS uses the
+ * numpad layout (1-3 bottom, 4-6 middle, 7-9 top). Converts to the latter.
+ */
+function normaliseAlignment(value: number, legacy: boolean): number {
+  if (!value) return 2;
+  if (!legacy) return value;
+  if (value >= 9) return value - 5;
+  if (value >= 5) return value + 2;
+  return value;
+}
+
+export function alignmentToPlacement(alignment: number): Pick<SubtitleCue, 'placement' | 'align'> {
+  const row = Math.ceil(alignment / 3);
+  const column = (alignment - 1) % 3;
+  return {
+    placement: row === 3 ? 'top' : row === 2 ? 'middle' : undefined,
+    align: column === 0 ? 'left' : column === 2 ? 'right' : undefined,
+  };
+}
@@ -0,0 +1,40 @@
+import { parseAss } from './ass';
+import { parseSrt } from './srt';
+import { parseVtt } from './vtt';
+import { SubtitleCue, SubtitleFormat } from './types';
+
+export * from './types';
+export { findActiveCues, parseTimestamp } from './timing';
+
+export const SUBTITLE_EXTENSIONS: Record<string, SubtitleFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  ass: 'ass',
+  ssa: 'ass',
+};
+
+/** Picks a format from the file extension, falling back to sniffing the content. */
+export function detectSubtitleFormat(fileName: string, content: string): SubtitleFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (SUBTITLE_EXTENSIONS[extension]) {
+    return SUBTITLE_EXTENSIONS[extension];
+  }
+
+  const head = content.trimStart().slice(0, 200);
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(head)) return 'ass';
+  if (/\d{2}:\d{2}:\d{2},\d{3}\s*-->/.test(head)) return 'srt';
+  return null;
+}
+
+export function parseSubtitles(content: string, format: SubtitleFormat): SubtitleCue[] {
+  const text = content.replace(/^﻿/, '');
+  switch (format) {
+    case 'srt':
+      return parseSrt(text);
+    case 'vtt':
+      return parseVtt(text);
+    case 'ass':
+      return parseAss(text);
+  }
+}
@@ -0,0 +1,101 @@
+import { SubtitleSpan } from './types';
+
+type SpanStyle = Omit<SubtitleSpan, 'text'>;
+
+const TAG = /<\s*(\/)?\s*([a-zA-Z0-9.]+)([^>]*)>/g;
+const FONT_COLOR = /color\s*=\s*["']?([^"'\s>]+)/i;
+
+/**
+ * Turns the HTML-like markup used by SRT and WebVTT cue text into styled
+ * spans. Only <b>, <i>, <u> and <font color> affect styling; other tags such
+ * as WebVTT voice, class and karaoke timestamp tags are dropped.
+ */
+export function parseCueMarkup(text: string): SubtitleSpan[] {
+  const spans: SubtitleSpan[] = [];
+  const stack: { tag: string; style: SpanStyle }[] = [];
+  const current = (): SpanStyle => stack[stack.length - 1]?.style ?? {};
+
+  const push = (chunk: string) => {
+    const decoded = decodeEntities(chunk);
+    if (decoded) spans.push({ ...current(), text: decoded });
+  };
+
+  // Some SRT files carry ASS-style override blocks such as {\an8}.
+  const source = text.replace(/\{\\[^}]*\}/g, '');
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TAG.lastIndex = 0;
+  while ((match = TAG.exec(source))) {
+    push(source.slice(lastIndex, match.index));
+    lastIndex = TAG.lastIndex;
+
+    const [, closing, rawName, attributes] = match;
+    const tag = rawName.split('.')[0].toLowerCase();
+
+    if (closing) {
+      const index = stack.map((entry) => entry.tag).lastIndexOf(tag);
+      if (index !== -1) stack.splice(index);
+      continue;
+    }
+
+    const style = { ...current() };
+    switch (tag) {
+      case 'b':
+        style.bold = true;
+        break;
+      case 'i':
+        style.italic = true;
+        break;
+      case 'u':
+        style.underline = true;
+        break;
+      case 'font': {
+        const color = FONT_COLOR.exec(attributes);
+        if (color) style.color = color[1];
+        break;
+      }
+      case 'c':
+      case 'v':
+      case 'lang':
+      case 'ruby':
+      case 'rt':
+        break;
+      default:
+        // Timestamp tags (<00:00:01.000>) and unknown tags never get closed.
+        continue;
+    }
+    stack.push({ tag, style });
+  }
+  push(source.slice(lastIndex));
+
+  return mergeSpans(spans);
+}
+
+export function mergeSpans(spans: SubtitleSpan[]): SubtitleSpan[] {
+  return spans.reduce<SubtitleSpan[]>((merged, span) => {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.bold === span.bold &&
+      previous.italic === span.italic &&
+      previous.underline === span.underline &&
+      previous.color === span.color
+    ) {
+      previous.text += span.text;
+    } else {
+      merged.push({ ...span });
+    }
+    return merged;
+  }, []);
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,36 @@
+import { alignmentToPlacement } from './ass';
+import { parseCueMarkup } from './markup';
+import { parseTimestamp, sortCues } from './timing';
+import { SubtitleCue } from './types';
+
+const TIMING = /^\s*(\S+)\s*-->\s*(\S+)/;
+
+export function parseSrt(content: string): SubtitleCue[] {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line, index) => index > 0 || line.trim());
+    // The numeric counter is optional in practice, so look for the timing line.
+    const timingIndex = lines.findIndex((line) => TIMING.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, startText, endText] = TIMING.exec(lines[timingIndex])!;
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+    if (start === null || end === null) continue;
+
+    const text = lines.slice(timingIndex + 1).join('\n').trim();
+    if (!text) continue;
+
+    const alignment = /\{\\an(\d)\}/.exec(text);
+    cues.push({
+      start,
+      end,
+      spans: parseCueMarkup(text),
+      ...(alignment ? alignmentToPlacement(parseInt(alignment[1], 10)) : {}),
+    });
+  }
+
+  return sortCues(cues);
+}
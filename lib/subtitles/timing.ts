@@ -0,0 +1,70 @@
+import { SubtitleCue } from './types';
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/;
+
+/**
+ * Parses `HH:MM:SS,mmm` (SRT), `[HH:]MM:SS.mmm` (WebVTT) and `H:MM:SS.cc`
+ * (ASS) timestamps into milliseconds. Returns null for anything else.
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  // "5" is half a second in ASS centiseconds just as in milliseconds.
+  const millis = Math.round(parseFloat(`0.${fraction}`) * 1000);
+  return (
+    parseInt(hours, 10) * 3600000 +
+    parseInt(minutes, 10) * 60000 +
+    parseInt(seconds, 10) * 1000 +
+    millis
+  );
+}
+
+// For each cue, the latest end of it and every cue before it, cached per cue list.
+const latestEnds = new WeakMap<SubtitleCue[], number[]>();
+
+function getLatestEnds(cues: SubtitleCue[]): number[] {
+  let ends = latestEnds.get(cues);
+  if (!ends) {
+    ends = [];
+    let latest = -Infinity;
+    for (const cue of cues) {
+      latest = Math.max(latest, cue.end);
+      ends.push(latest);
+    }
+    latestEnds.set(cues, ends);
+  }
+  return ends;
+}
+
+/** Cues must be sorted by start time. Overlapping cues are all returned. */
+export function findActiveCues(cues: SubtitleCue[], positionMillis: number): SubtitleCue[] {
+  // Binary search for the first cue that starts after the position, then walk
+  // back collecting every cue that is still on screen, until no earlier cue can be.
+  let low = 0;
+  let high = cues.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cues[mid].start <= positionMillis) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const latest = getLatestEnds(cues);
+  const active: SubtitleCue[] = [];
+  for (let i = low - 1; i >= 0 && latest[i] > positionMillis; i--) {
+    if (cues[i].end > positionMillis) {
+      active.unshift(cues[i]);
+    }
+  }
+  return active;
+}
+
+export function sortCues(cues: SubtitleCue[]): SubtitleCue[] {
+  return cues
+    .filter((cue) => cue.end > cue.start)
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
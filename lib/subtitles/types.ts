@@ -0,0 +1,18 @@
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface SubtitleSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  spans: SubtitleSpan[];
+  /** Where the cue asks to be drawn; cues without one use the user's position. */
+  placement?: 'top' | 'middle' | 'bottom';
+  align?: 'left' | 'center' | 'right';
+}
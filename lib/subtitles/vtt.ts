@@ -0,0 +1,58 @@
+import { parseCueMarkup } from './markup';
+import { parseTimestamp, sortCues } from './timing';
+import { SubtitleCue } from './types';
+
+const TIMING = /^\s*(\S+)\s+-->\s+(\S+)(.*)$/;
+
+export function parseVtt(content: string): SubtitleCue[] {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((line, index) => index > 0 || line.trim());
+    const first = lines[0]?.trim() ?? '';
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(first)) continue;
+
+    // An optional cue identifier may precede the timing line.
+    const timingIndex = lines.findIndex((line) => TIMING.test(line));
+    if (timingIndex === -1 || timingIndex > 1) continue;
+
+    const [, startText, endText, settings] = TIMING.exec(lines[timingIndex])!;
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText);
+    if (start === null || end === null) continue;
+
+    const text = lines.slice(timingIndex + 1).join('\n').trim();
+    if (!text) continue;
+
+    cues.push({ start, end, spans: parseCueMarkup(text), ...parseCueSettings(settings) });
+  }
+
+  return sortCues(cues);
+}
+
+function parseCueSettings(settings: string): Pick<SubtitleCue, 'placement' | 'align'> {
+  const result: Pick<SubtitleCue, 'placement' | 'align'> = {};
+
+  for (const setting of settings.trim().split(/\s+/)) {
+    const [name, value] = setting.split(':');
+    if (!value) continue;
+
+    if (name === 'line') {
+      const line = value.split(',')[0];
+      if (line.endsWith('%')) {
+        const percent = parseFloat(line);
+        result.placement = percent < 33 ? 'top' : percent > 66 ? 'bottom' : 'middle';
+      } else {
+        // Positive line numbers count from the top, negative from the bottom.
+        result.placement = parseInt(line, 10) >= 0 ? 'top' : 'bottom';
+      }
+    } else if (name === 'align') {
+      if (value === 'left' || value === 'start') result.align = 'left';
+      if (value === 'right' || value === 'end') result.align = 'right';
+      if (value === 'center' || value === 'middle') result.align = 'center';
+    }
+  }
+
+  return result;
+}
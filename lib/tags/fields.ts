@@ -0,0 +1,98 @@
+import { AudioTags, ReplayGain } from './types';
+
+/** The genres defined by ID3v1, which numeric genre references in every format index into. */
+export const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop',
+  'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap',
+  'Reggae', 'Rock', 'Techno', 'Industrial', 'Alternative', 'Ska', 'Death Metal', 'Pranks',
+  'Soundtrack', 'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance',
+  'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop',
+  'Instrumental Rock', 'Ethnic', 'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic',
+  'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta', 'Top 40',
+  'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave',
+  'Psychedelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk', 'Acid Jazz',
+  'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+/** "3/12" -> { number: 3, total: 12 } */
+export function parseTrackNumber(value: string | undefined): { number?: number; total?: number } {
+  const match = value?.trim().match(/^(\d+)(?:\s*\/\s*(\d+))?/);
+  if (!match) return {};
+  return {
+    number: parseInt(match[1], 10) || undefined,
+    total: match[2] ? parseInt(match[2], 10) || undefined : undefined,
+  };
+}
+
+/** Takes the year out of "2004", "2004-05-17" or "2004-05-17T12:00:00". */
+export function parseYear(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(\d{4})/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/** Resolves ID3v2's "(17)", "17" and "(17)Rock" forms to a name. */
+export function resolveGenre(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  const match = text.match(/^\((\d+)\)(.*)$/) ?? text.match(/^(\d+)()$/);
+  if (!match) return text;
+  return match[2].trim() || ID3V1_GENRES[parseInt(match[1], 10)] || undefined;
+}
+
+/** Runs the reader for one frame or field, so a malformed one is skipped instead of the whole tag. */
+export function tryRead<T>(read: () => T): T | undefined {
+  try {
+    return read();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Trims and drops empty values, so missing and blank fields look the same. */
+export function cleanText(value: string | undefined): string | undefined {
+  const text = value?.replace(/\0/g, '').trim();
+  return text || undefined;
+}
+
+/** "-6.54 dB" -> -6.54 */
+function parseNumber(value: string | undefined): number | undefined {
+  const number = parseFloat(value?.trim() ?? '');
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Collects the REPLAYGAIN_* fields, which every format stores as text under
+ * the same names. Opus files carry R128 gains instead: Q7.8 fixed point,
+ * relative to -23 LUFS rather than ReplayGain's -18.
+ */
+export function readReplayGain(get: (name: string) => string | undefined): ReplayGain | undefined {
+  const r128 = (name: string) => {
+    const value = parseNumber(get(name));
+    return value === undefined ? undefined : value / 256 + 5;
+  };
+  const replayGain: ReplayGain = {
+    trackGain: parseNumber(get('REPLAYGAIN_TRACK_GAIN')) ?? r128('R128_TRACK_GAIN'),
+    trackPeak: parseNumber(get('REPLAYGAIN_TRACK_PEAK')),
+    albumGain: parseNumber(get('REPLAYGAIN_ALBUM_GAIN')) ?? r128('R128_ALBUM_GAIN'),
+    albumPeak: parseNumber(get('REPLAYGAIN_ALBUM_PEAK')),
+  };
+  const found = Object.entries(replayGain).filter(([, value]) => value !== undefined);
+  return found.length > 0 ? (Object.fromEntries(found) as ReplayGain) : undefined;
+}
+
+/** Fills the gaps in `primary` from `fallback`. */
+export function mergeTags(primary: AudioTags, fallback: AudioTags): AudioTags {
+  return {
+    title: primary.title ?? fallback.title,
+    artist: primary.artist ?? fallback.artist,
+    album: primary.album ?? fallback.album,
+    albumArtist: primary.albumArtist ?? fallback.albumArtist,
+    trackNumber: primary.trackNumber ?? fallback.trackNumber,
+    trackTotal: primary.trackTotal ?? fallback.trackTotal,
+    year: primary.year ?? fallback.year,
+    genre: primary.genre ?? fallback.genre,
+    replayGain: primary.replayGain ?? fallback.replayGain,
+    pictures: primary.pictures.length > 0 ? primary.pictures : fallback.pictures,
+  };
+}
@@ -0,0 +1,262 @@
+import { ByteSource } from '@/lib/files';
+import {
+  decodeLatin1,
+  decodeUtf16,
+  decodeUtf8,
+  readAscii,
+  readSyncsafe,
+  readUint24,
+  readUint32,
+  trimNulls,
+} from '@/lib/binary';
+import {
+  cleanText,
+  ID3V1_GENRES,
+  mergeTags,
+  parseTrackNumber,
+  parseYear,
+  readReplayGain,
+  resolveGenre,
+  tryRead,
+} from './fields';
+import { AudioTags, TagPicture } from './types';
+
+/** Tags this big are broken or mostly padding around a huge picture we don't want anyway. */
+const MAX_TAG_SIZE = 16 * 1024 * 1024;
+
+const ID3V1_SIZE = 128;
+
+export interface Id3Frame {
+  /** The v2.3 id, even for v2.2 frames we know. */
+  id: string;
+  data: Uint8Array;
+}
+
+// v2.2 uses three-letter frame ids; map the ones we read to their v2.3 names.
+const V22_FRAME_IDS: Record<string, string> = {
+  TT2: 'TIT2',
+  TP1: 'TPE1',
+  TP2: 'TPE2',
+  TAL: 'TALB',
+  TRK: 'TRCK',
+  TYE: 'TYER',
+  TCO: 'TCON',
+  TXX: 'TXXX',
+  ULT: 'USLT',
+  SLT: 'SYLT',
+  PIC: 'APIC',
+};
+
+/** Undoes unsynchronisation: every 0xFF 0x00 pair was written for a plain 0xFF. */
+function resynchronise(bytes: Uint8Array): Uint8Array {
+  const out = new Uint8Array(bytes.length);
+  let length = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i];
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+}
+
+export function decodeText(encoding: number, bytes: Uint8Array): string {
+  switch (encoding) {
+    case 1:
+      return decodeUtf16(bytes);
+    case 2:
+      return decodeUtf16(bytes, false);
+    case 3:
+      return decodeUtf8(bytes);
+    default:
+      return decodeLatin1(bytes);
+  }
+}
+
+/** Length of a NUL-terminated string in the given encoding, not counting the terminator. */
+export function terminatedLength(encoding: number, bytes: Uint8Array, offset: number): number {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i - offset;
+  }
+  return bytes.length - offset;
+}
+
+/** v2.4 text frames can hold several NUL-separated values; the first is what we show. */
+function readTextFrame(data: Uint8Array): string | undefined {
+  if (data.length < 2) return undefined;
+  const encoding = data[0];
+  const length = terminatedLength(encoding, data, 1);
+  return cleanText(decodeText(encoding, data.subarray(1, 1 + length)));
+}
+
+/** User-defined text frames pair a description, such as REPLAYGAIN_TRACK_GAIN, with a value. */
+function readUserTextFrame(data: Uint8Array): [string, string] | null {
+  if (data.length < 2) return null;
+  const encoding = data[0];
+  const descriptionLength = terminatedLength(encoding, data, 1);
+  const description = decodeText(encoding, data.subarray(1, 1 + descriptionLength));
+  const valueStart = 1 + descriptionLength + (encoding === 1 || encoding === 2 ? 2 : 1);
+  const valueLength = terminatedLength(encoding, data, valueStart);
+  const value = cleanText(decodeText(encoding, data.subarray(valueStart, valueStart + valueLength)));
+  return value ? [trimNulls(description).toUpperCase(), value] : null;
+}
+
+function readPictureFrame(data: Uint8Array, isV22: boolean): TagPicture | null {
+  const encoding = data[0];
+  let offset = 1;
+  let mimeType: string;
+  if (isV22) {
+    const format = readAscii(data, offset, 3).toLowerCase();
+    mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+    offset += 3;
+  } else {
+    const length = terminatedLength(0, data, offset);
+    mimeType = decodeLatin1(data.subarray(offset, offset + length)).toLowerCase() || 'image/jpeg';
+    offset += length + 1;
+  }
+  const type = data[offset++];
+  const descriptionLength = terminatedLength(encoding, data, offset);
+  const description = decodeText(encoding, data.subarray(offset, offset + descriptionLength));
+  offset += descriptionLength + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= data.length) return null;
+
+  // Some taggers write just "jpg" or "png" instead of a MIME type.
+  if (!mimeType.includes('/')) {
+    mimeType = mimeType === 'png' ? 'image/png' : 'image/jpeg';
+  }
+  return { mimeType, type, description: trimNulls(description), data: data.subarray(offset) };
+}
+
+function readFrames(tag: Uint8Array, major: number): Id3Frame[] {
+  const frames: Id3Frame[] = [];
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  let offset = 0;
+
+  while (offset + headerLength <= tag.length) {
+    const id = readAscii(tag, offset, idLength);
+    // Padding, or garbage after the last frame.
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    let size: number;
+    if (major === 2) {
+      size = readUint24(tag, offset + 3);
+    } else if (major === 4) {
+      size = readSyncsafe(tag, offset + 4);
+    } else {
+      size = readUint32(tag, offset + 4);
+    }
+    const start = offset + headerLength;
+    if (size <= 0 || start + size > tag.length) break;
+
+    let data = tag.subarray(start, start + size);
+    if (major === 4) {
+      const formatFlags = tag[offset + 9];
+      // Compressed or encrypted frames can't be read without zlib; skip them.
+      if (formatFlags & 0x0c) {
+        offset = start + size;
+        continue;
+      }
+      if (formatFlags & 0x02) data = resynchronise(data);
+      // A data length indicator adds four bytes in front of the content.
+      if (formatFlags & 0x01) data = data.subarray(4);
+    }
+
+    frames.push({ id: major === 2 ? V22_FRAME_IDS[id] ?? id : id, data });
+    offset = start + size;
+  }
+  return frames;
+}
+
+export interface Id3Tag {
+  /** 2, 3 or 4; some frames are laid out differently in v2.2. */
+  major: number;
+  frames: Id3Frame[];
+}
+
+/** The ID3v2 tag at the start of `source`, or null if it has none. */
+export async function readId3Frames(source: ByteSource): Promise<Id3Tag | null> {
+  const header = await source.read(0, 10);
+  if (readAscii(header, 0, 3) !== 'ID3') return null;
+
+  const major = header[3];
+  const flags = header[5];
+  const size = readSyncsafe(header, 6);
+  if (major < 2 || major > 4 || size > MAX_TAG_SIZE) return null;
+
+  let tag = await source.read(10, size);
+  // In v2.2 and v2.3 unsynchronisation applies to the whole tag.
+  if (flags & 0x80 && major < 4) tag = resynchronise(tag);
+  if (flags & 0x40 && major > 2) {
+    const extendedSize = major === 4 ? readSyncsafe(tag, 0) : readUint32(tag, 0) + 4;
+    tag = tag.subarray(extendedSize);
+  }
+
+  return { major, frames: readFrames(tag, major) };
+}
+
+async function readId3v2(source: ByteSource): Promise<AudioTags | null> {
+  const id3 = await readId3Frames(source);
+  if (!id3) return null;
+  const { major, frames } = id3;
+
+  const text = (id: string) => {
+    const frame = frames.find((item) => item.id === id);
+    return frame ? tryRead(() => readTextFrame(frame.data)) : undefined;
+  };
+
+  const userText = new Map<string, string>();
+  for (const frame of frames) {
+    const entry = frame.id === 'TXXX' ? tryRead(() => readUserTextFrame(frame.data)) : null;
+    if (entry && !userText.has(entry[0])) userText.set(...entry);
+  }
+
+  const track = parseTrackNumber(text('TRCK'));
+  return {
+    title: text('TIT2'),
+    artist: text('TPE1'),
+    album: text('TALB'),
+    albumArtist: text('TPE2'),
+    trackNumber: track.number,
+    trackTotal: track.total,
+    year: parseYear(text('TDRC') ?? text('TYER')),
+    genre: resolveGenre(text('TCON')),
+    replayGain: readReplayGain((name) => userText.get(name)),
+    pictures: frames
+      .filter((frame) => frame.id === 'APIC')
+      .map((frame) => tryRead(() => readPictureFrame(frame.data, major === 2)))
+      .filter((picture): picture is TagPicture => !!picture),
+  };
+}
+
+/** The fixed 128-byte tag at the end of the file. */
+async function readId3v1(source: ByteSource): Promise<AudioTags | null> {
+  if (source.size < ID3V1_SIZE) return null;
+  const tag = await source.read(source.size - ID3V1_SIZE, ID3V1_SIZE);
+  if (readAscii(tag, 0, 3) !== 'TAG') return null;
+
+  const field = (offset: number, length: number) =>
+    cleanText(decodeLatin1(tag.subarray(offset, offset + length)));
+  // ID3v1.1 steals the last two comment bytes for a zero and the track number.
+  const hasTrack = tag[125] === 0 && tag[126] !== 0;
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    album: field(63, 30),
+    year: parseYear(field(93, 4)),
+    trackNumber: hasTrack ? tag[126] : undefined,
+    genre: ID3V1_GENRES[tag[127]],
+    pictures: [],
+  };
+}
+
+/** Reads ID3v2, filling anything it lacks from an ID3v1 tag at the end. */
+export async function parseId3Tags(source: ByteSource): Promise<AudioTags | null> {
+  // A broken ID3v2 tag still leaves the ID3v1 one, and the other way round.
+  const [v2, v1] = await Promise.all([
+    readId3v2(source).catch(() => null),
+    readId3v1(source).catch(() => null),
+  ]);
+  if (!v2 || !v1) return v2 ?? v1;
+
+  return mergeTags(v2, v1);
+}
@@ -0,0 +1,143 @@
+import { openByteSource, ByteSource } from '@/lib/files';
+import { readAscii, readSyncsafe } from '@/lib/binary';
+import { getMediaFile, MediaFile, updateMediaFile } from '@/lib/mediaLibrary';
+import { loadLoudnessIntoLibrary } from '@/lib/loudness';
+import { saveArtwork } from '@/lib/artwork';
+import { parseId3Tags } from './id3';
+import { parseFlacTags, parseOggTags } from './vorbis';
+import { parseMp4Tags } from './mp4';
+import { AudioTags, FRONT_COVER, MediaTags, TagFormat, TagPicture } from './types';
+
+export * from './types';
+
+const MP4_BOX_TYPES = ['ftyp', 'moov', 'mdat', 'free', 'wide', 'skip'];
+
+/** Sniffs the format from the first bytes, after any ID3v2 tag a FLAC file may start with. */
+export async function detectTagFormat(source: ByteSource): Promise<TagFormat | null> {
+  const header = await source.read(0, 12);
+  if (readAscii(header, 0, 4) === 'fLaC') return 'flac';
+  if (readAscii(header, 0, 4) === 'OggS') return 'ogg';
+  if (MP4_BOX_TYPES.includes(readAscii(header, 4, 4))) return 'mp4';
+  if (readAscii(header, 0, 3) === 'ID3') {
+    const after = await source.read(10 + readSyncsafe(header, 6), 4);
+    return readAscii(after, 0, 4) === 'fLaC' ? 'flac' : 'id3';
+  }
+  // No ID3v2 tag, but MP3s can still carry ID3v1 at the end.
+  return 'id3';
+}
+
+export async function parseTags(source: ByteSource): Promise<AudioTags | null> {
+  switch (await detectTagFormat(source)) {
+    case 'flac':
+      return parseFlacTags(await skipId3(source));
+    case 'ogg':
+      return parseOggTags(source);
+    case 'mp4':
+      return parseMp4Tags(source);
+    case 'id3':
+      return parseId3Tags(source);
+    default:
+      return null;
+  }
+}
+
+/** A view of `source` past its ID3v2 tag, if it has one. */
+async function skipId3(source: ByteSource): Promise<ByteSource> {
+  const header = await source.read(0, 10);
+  if (readAscii(header, 0, 3) !== 'ID3') return source;
+  const skip = 10 + readSyncsafe(header, 6);
+  return {
+    size: source.size - skip,
+    read: (offset, length) => source.read(offset + skip, length),
+  };
+}
+
+export async function readTags(uri: string): Promise<AudioTags | null> {
+  return parseTags(await openByteSource(uri));
+}
+
+/** The front cover if there is one, else whatever picture came first. */
+export function pickCoverPicture(pictures: TagPicture[]): TagPicture | undefined {
+  return pictures.find((picture) => picture.type === FRONT_COVER) ?? pictures[0];
+}
+
+export function toMediaTags({ pictures, ...tags }: AudioTags): MediaTags {
+  // Drop the fields that weren't found so the stored record stays small.
+  return Object.fromEntries(
+    Object.entries(tags).filter(([, value]) => value !== undefined)
+  ) as MediaTags;
+}
+
+const reading = new Set<string>();
+
+/**
+ * Reads the tags of a local audio file once and stores them, with the cover
+ * saved as the file's thumbnail. Files without tags, or whose tags can't be
+ * read, get an empty record so they aren't read again.
+ */
+export async function loadTagsIntoLibrary(file: MediaFile): Promise<void> {
+  if (file.type !== 'audio' || file.remote || file.tags || reading.has(file.id)) return;
+  reading.add(file.id);
+  try {
+    let tags: AudioTags | null = null;
+    try {
+      tags = await readTags(file.uri);
+    } catch (error) {
+      console.error('Error reading tags:', error);
+    }
+
+    const cover = tags && pickCoverPicture(tags.pictures);
+    let thumbnail: string | null = null;
+    try {
+      thumbnail = cover ? await saveArtwork(file, cover) : null;
+    } catch (error) {
+      console.error('Error saving artwork:', error);
+    }
+
+    await updateMediaFile(file.id, {
+      tags: tags ? toMediaTags(tags) : {},
+      ...(thumbnail && { thumbnail }),
+    });
+  } finally {
+    reading.delete(file.id);
+  }
+}
+
+const restoring = new Set<string>();
+
+/**
+ * Saves the cover again for a record whose web cache entry was evicted. Tried
+ * once per session; if the cover can't be saved again the thumbnail is dropped.
+ */
+export async function restoreArtwork(file: MediaFile): Promise<void> {
+  if (file.remote || restoring.has(file.id)) return;
+  restoring.add(file.id);
+  let thumbnail: string | null = null;
+  try {
+    const tags = await readTags(file.uri);
+    const cover = tags && pickCoverPicture(tags.pictures);
+    thumbnail = cover ? await saveArtwork(file, cover) : null;
+  } catch (error) {
+    console.error('Error restoring artwork:', error);
+  }
+  await updateMediaFile(file.id, { thumbnail: thumbnail ?? undefined });
+}
+
+/**
+ * Reads one file at a time so a large pick doesn't load every file at once.
+ * Files whose tags have no ReplayGain get their loudness measured as well.
+ */
+export async function loadTagsForFiles(files: MediaFile[]): Promise<void> {
+  for (const file of files) {
+    try {
+      await loadTagsIntoLibrary(file);
+    } catch (error) {
+      console.error('Error reading tags:', error);
+    }
+    try {
+      await loadLoudnessIntoLibrary(getMediaFile(file.id) ?? file);
+    } catch (error) {
+      console.error('Error measuring loudness:', error);
+    }
+  }
+}
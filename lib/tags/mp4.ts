@@ -0,0 +1,107 @@
+import { ByteSource } from '@/lib/files';
+import { decodeUtf8, readAscii, readUint16, readUint32 } from '@/lib/binary';
+import { Box, childBoxes, findBox, parseBoxHeader, readMovieBox } from '@/lib/mp4Boxes';
+import {
+  cleanText,
+  ID3V1_GENRES,
+  parseYear,
+  readReplayGain,
+  resolveGenre,
+  tryRead,
+} from './fields';
+import { AudioTags, FRONT_COVER, TagPicture } from './types';
+
+// `data` atom type indicator for PNG cover art; anything else is taken to be JPEG.
+const DATA_TYPE_PNG = 14;
+
+interface DataAtom {
+  type: number;
+  value: Uint8Array;
+}
+
+/** Every `ilst` item wraps its values in `data` atoms: 4 bytes of type, 4 of locale. */
+function readDataAtoms(bytes: Uint8Array, item: Box): DataAtom[] {
+  return childBoxes(bytes, item)
+    .filter((box) => box.type === 'data' && box.end - box.start >= 8)
+    .map((box) => ({
+      type: readUint32(bytes, box.start) & 0xffffff,
+      value: bytes.subarray(box.start + 8, box.end),
+    }));
+}
+
+/**
+ * Freeform `----` items name themselves: a `mean` namespace, a `name` and
+ * the usual `data`. Both are full boxes, so the text starts 4 bytes in.
+ */
+function readFreeformItem(bytes: Uint8Array, item: Box): [string, string] | null {
+  const children = childBoxes(bytes, item);
+  const name = children.find((box) => box.type === 'name');
+  const value = readDataAtoms(bytes, item)[0]?.value;
+  if (!name || !value) return null;
+  const text = cleanText(decodeUtf8(value));
+  return text ? [decodeUtf8(bytes.subarray(name.start + 4, name.end)).toUpperCase(), text] : null;
+}
+
+/**
+ * `meta` is a full box in MP4 but a plain container in QuickTime files, so
+ * look for where its first child, `hdlr`, actually starts.
+ */
+function metaChildren(bytes: Uint8Array, meta: Box): Box {
+  const isPlain = readAscii(bytes, meta.start + 4, 4) === 'hdlr';
+  return { ...meta, start: isPlain ? meta.start : meta.start + 4 };
+}
+
+export async function parseMp4Tags(source: ByteSource): Promise<AudioTags | null> {
+  const bytes = await readMovieBox(source);
+  if (!bytes) return null;
+  const moov = parseBoxHeader(bytes, 0, bytes.length);
+  if (!moov) return null;
+
+  const meta = findBox(bytes, moov, ['udta', 'meta']);
+  const ilst = meta && findBox(bytes, metaChildren(bytes, meta), ['ilst']);
+  if (!ilst) return null;
+
+  const items = new Map<string, DataAtom[]>();
+  const freeform = new Map<string, string>();
+  for (const item of childBoxes(bytes, ilst)) {
+    if (item.type === '----') {
+      const entry = tryRead(() => readFreeformItem(bytes, item));
+      if (entry && !freeform.has(entry[0])) freeform.set(...entry);
+    } else {
+      items.set(item.type, tryRead(() => readDataAtoms(bytes, item)) ?? []);
+    }
+  }
+  const text = (type: string) => {
+    const value = items.get(type)?.[0]?.value;
+    return value ? cleanText(decodeUtf8(value)) : undefined;
+  };
+
+  // Track numbers are binary: two padding bytes, the number, then the total.
+  const trkn = items.get('trkn')?.[0]?.value;
+  // `gnre` holds an ID3v1 genre index plus one.
+  const gnre = items.get('gnre')?.[0]?.value;
+
+  const pictures: TagPicture[] = (items.get('covr') ?? [])
+    .filter((atom) => atom.value.length > 0)
+    .map((atom) => ({
+      mimeType: atom.type === DATA_TYPE_PNG ? 'image/png' : 'image/jpeg',
+      type: FRONT_COVER,
+      description: '',
+      data: atom.value,
+    }));
+
+  return {
+    title: text('©nam'),
+    artist: text('©ART'),
+    album: text('©alb'),
+    albumArtist: text('aART'),
+    trackNumber: trkn && trkn.length >= 4 ? readUint16(trkn, 2) || undefined : undefined,
+    trackTotal: trkn && trkn.length >= 6 ? readUint16(trkn, 4) || undefined : undefined,
+    year: parseYear(text('©day')),
+    genre:
+      resolveGenre(text('©gen')) ??
+      (gnre && gnre.length >= 2 ? ID3V1_GENRES[readUint16(gnre, 0) - 1] : undefined),
+    replayGain: readReplayGain((name) => freeform.get(name)),
+    pictures,
+  };
+}
@@ -0,0 +1,35 @@
+export type TagFormat = 'id3' | 'flac' | 'ogg' | 'mp4';
+
+export interface TagPicture {
+  mimeType: string;
+  /** ID3/FLAC picture type; 3 is the front cover. */
+  type: number;
+  description: string;
+  data: Uint8Array;
+}
+
+/** Gains in dB relative to the ReplayGain reference level; peaks as linear sample values. */
+export interface ReplayGain {
+  trackGain?: number;
+  trackPeak?: number;
+  albumGain?: number;
+  albumPeak?: number;
+}
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  trackNumber?: number;
+  trackTotal?: number;
+  year?: number;
+  genre?: string;
+  replayGain?: ReplayGain;
+  pictures: TagPicture[];
+}
+
+export const FRONT_COVER = 3;
+
+/** What is kept on the library record; pictures are saved to disk separately. */
+export type MediaTags = Omit<AudioTags, 'pictures'>;
@@ -0,0 +1,191 @@
+import { ByteSource, decodeBase64 } from '@/lib/files';
+import {
+  decodeLatin1,
+  decodeUtf8,
+  readAscii,
+  readUint24,
+  readUint32,
+  readUint32LE,
+} from '@/lib/binary';
+import {
+  cleanText,
+  parseTrackNumber,
+  parseYear,
+  readReplayGain,
+  resolveGenre,
+  tryRead,
+} from './fields';
+import { AudioTags, TagPicture } from './types';
+
+/** Comment packets bigger than this hold pictures we'd rather not load into memory. */
+const MAX_COMMENT_SIZE = 16 * 1024 * 1024;
+
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+/** Comment names are case-insensitive; the first value for a name wins. */
+type Comments = Map<string, string>;
+
+function readComments(bytes: Uint8Array): { comments: Comments; pictures: TagPicture[] } {
+  const comments: Comments = new Map();
+  const pictures: TagPicture[] = [];
+
+  const vendorLength = readUint32LE(bytes, 0);
+  let offset = 4 + vendorLength;
+  const count = readUint32LE(bytes, offset);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = readUint32LE(bytes, offset);
+    offset += 4;
+    const entry = bytes.subarray(offset, offset + length);
+    offset += length;
+
+    const separator = entry.indexOf(0x3d); // '='
+    if (separator <= 0) continue;
+    const name = decodeLatin1(entry.subarray(0, separator)).toUpperCase();
+
+    // Ogg files carry their cover art as a base64 FLAC picture block.
+    if (name === 'METADATA_BLOCK_PICTURE') {
+      try {
+        const picture = readFlacPicture(decodeBase64(decodeLatin1(entry.subarray(separator + 1))));
+        if (picture) pictures.push(picture);
+      } catch {
+        // Not valid base64; ignore the picture rather than the whole tag.
+      }
+    } else if (!comments.has(name)) {
+      comments.set(name, decodeUtf8(entry.subarray(separator + 1)));
+    }
+  }
+  return { comments, pictures };
+}
+
+function readFlacPicture(bytes: Uint8Array): TagPicture | null {
+  if (bytes.length < 32) return null;
+  const type = readUint32(bytes, 0);
+  let offset = 4;
+  const mimeLength = readUint32(bytes, offset);
+  const mimeType = readAscii(bytes, offset + 4, mimeLength).toLowerCase() || 'image/jpeg';
+  offset += 4 + mimeLength;
+  const descriptionLength = readUint32(bytes, offset);
+  const description = decodeUtf8(bytes.subarray(offset + 4, offset + 4 + descriptionLength));
+  // Width, height, colour depth and palette size are of no use to us.
+  offset += 4 + descriptionLength + 16;
+  const dataLength = readUint32(bytes, offset);
+  offset += 4;
+  if (offset + dataLength > bytes.length) return null;
+  return { mimeType, type, description, data: bytes.subarray(offset, offset + dataLength) };
+}
+
+function toTags({ comments, pictures }: ReturnType<typeof readComments>): AudioTags {
+  const get = (name: string) => cleanText(comments.get(name));
+  const track = parseTrackNumber(get('TRACKNUMBER'));
+  const total = parseTrackNumber(get('TRACKTOTAL') ?? get('TOTALTRACKS')).number;
+  return {
+    title: get('TITLE'),
+    artist: get('ARTIST'),
+    album: get('ALBUM'),
+    albumArtist: get('ALBUMARTIST') ?? get('ALBUM ARTIST'),
+    trackNumber: track.number,
+    trackTotal: track.total ?? total,
+    year: parseYear(get('DATE') ?? get('YEAR')),
+    genre: resolveGenre(get('GENRE')),
+    replayGain: readReplayGain(get),
+    pictures,
+  };
+}
+
+/** FLAC keeps its tags in metadata blocks ahead of the audio. */
+export async function parseFlacTags(source: ByteSource): Promise<AudioTags | null> {
+  let offset = 4; // "fLaC"
+  let comments: ReturnType<typeof readComments> | null = null;
+  const pictures: TagPicture[] = [];
+
+  while (offset + 4 <= source.size) {
+    const header = await source.read(offset, 4);
+    if (header.length < 4) break;
+    const isLast = (header[0] & 0x80) !== 0;
+    const type = header[0] & 0x7f;
+    const length = readUint24(header, 1);
+    offset += 4;
+
+    if (type === FLAC_VORBIS_COMMENT && length <= MAX_COMMENT_SIZE) {
+      const bytes = await source.read(offset, length);
+      comments = tryRead(() => readComments(bytes)) ?? comments;
+    } else if (type === FLAC_PICTURE && length <= MAX_COMMENT_SIZE) {
+      const bytes = await source.read(offset, length);
+      const picture = tryRead(() => readFlacPicture(bytes));
+      if (picture) pictures.push(picture);
+    }
+    offset += length;
+    if (isLast) break;
+  }
+
+  if (!comments && pictures.length === 0) return null;
+  return toTags({
+    comments: comments?.comments ?? new Map(),
+    pictures: [...pictures, ...(comments?.pictures ?? [])],
+  });
+}
+
+/**
+ * Reassembles the first packets of the first logical stream. Packets span
+ * pages whenever a segment is a full 255 bytes.
+ */
+async function readOggPackets(source: ByteSource, count: number): Promise<Uint8Array[]> {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  let serial: number | null = null;
+  let offset = 0;
+
+  while (packets.length < count && offset + 27 <= source.size) {
+    const header = await source.read(offset, 27);
+    if (readAscii(header, 0, 4) !== 'OggS') break;
+    const pageSerial = readUint32LE(header, 14);
+    const segmentCount = header[26];
+    const segments = await source.read(offset + 27, segmentCount);
+    const bodyLength = segments.reduce((sum, size) => sum + size, 0);
+    const bodyStart = offset + 27 + segmentCount;
+    offset = bodyStart + bodyLength;
+
+    if (serial === null) serial = pageSerial;
+    if (pageSerial !== serial) continue;
+
+    const body = await source.read(bodyStart, bodyLength);
+    let position = 0;
+    for (const size of segments) {
+      pending.push(body.subarray(position, position + size));
+      pendingLength += size;
+      position += size;
+      if (pendingLength > MAX_COMMENT_SIZE) return packets;
+      if (size < 255) {
+        const packet = new Uint8Array(pendingLength);
+        let at = 0;
+        for (const part of pending) {
+          packet.set(part, at);
+          at += part.length;
+        }
+        packets.push(packet);
+        pending = [];
+        pendingLength = 0;
+        if (packets.length === count) break;
+      }
+    }
+  }
+  return packets;
+}
+
+/** Vorbis and Opus both put a comment header in their second packet. */
+export async function parseOggTags(source: ByteSource): Promise<AudioTags | null> {
+  const [, commentPacket] = await readOggPackets(source, 2);
+  if (!commentPacket) return null;
+
+  if (commentPacket[0] === 0x03 && readAscii(commentPacket, 1, 6) === 'vorbis') {
+    return toTags(readComments(commentPacket.subarray(7)));
+  }
+  if (readAscii(commentPacket, 0, 8) === 'OpusTags') {
+    return toTags(readComments(commentPacket.subarray(8)));
+  }
+  return null;
+}
@@ -0,0 +1,144 @@
+import { Platform } from 'react-native';
+import { createPersistedStore } from './createPersistedStore';
+import { openByteSource } from './files';
+import {
+  decodeWithWebAudio,
+  getSamplePeak,
+  getWavFrameCount,
+  isReadableWav,
+  readWavFormat,
+  readWavFrames,
+} from './audioSamples';
+import { getMediaKey, MediaFile } from './mediaLibrary';
+
+/** How many bars the overview is drawn with. */
+export const WAVEFORM_BARS = 120;
+
+/** Peaks are stored as whole numbers up to this, to keep the cache small. */
+const PEAK_SCALE = 100;
+const MAX_ENTRIES = 300;
+
+/**
+ * Decoding resamples to this rate, which is plenty for an overview and keeps a
+ * long track's decoded samples to a few hundred megabytes at most.
+ */
+const DECODE_SAMPLE_RATE = 8000;
+
+/** Bytes read per bar when sampling a WAV file instead of reading all of it. */
+const WAV_WINDOW_SIZE = 16 * 1024;
+
+interface SavedWaveform {
+  peaks: number[];
+  updatedAt: number;
+}
+
+export interface WaveformState {
+  waveforms: Record<string, SavedWaveform>;
+}
+
+export const waveformStore = createPersistedStore<WaveformState>({
+  key: 'waveforms',
+  version: 1,
+  initialState: { waveforms: {} },
+});
+
+/** Cached peaks for `file`, scaled to 0–1, or undefined if not computed yet. */
+export function getCachedWaveform(
+  state: WaveformState,
+  file: Pick<MediaFile, 'name' | 'size' | 'type' | 'uri' | 'remote'>
+): number[] | undefined {
+  return state.waveforms[getMediaKey(file)]?.peaks.map((peak) => peak / PEAK_SCALE);
+}
+
+/** The loudest sample in each of `bars` equal slices, relative to the loudest overall. */
+export function computePeaks(channels: Float32Array[], bars = WAVEFORM_BARS): number[] {
+  const length = channels[0]?.length ?? 0;
+  const peaks: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * length) / bars);
+    const end = Math.floor(((bar + 1) * length) / bars);
+    peaks.push(getSamplePeak(channels, start, end));
+  }
+  return normalizePeaks(peaks);
+}
+
+function normalizePeaks(peaks: number[]): number[] {
+  const max = Math.max(...peaks, 0);
+  return max > 0 ? peaks.map((peak) => peak / max) : peaks;
+}
+
+/**
+ * Native builds can't decode compressed audio, but WAV is plain samples. A
+ * window at the start of each bar is read rather than the whole file.
+ */
+async function readWavPeaks(uri: string, bars = WAVEFORM_BARS): Promise<number[] | null> {
+  const source = await openByteSource(uri);
+  const format = await readWavFormat(source);
+  if (!format || !isReadableWav(format)) return null;
+
+  const frames = getWavFrameCount(format);
+  if (frames === 0) return null;
+  const frameSize = (format.bitsPerSample / 8) * format.channels;
+  const windowFrames = Math.max(1, Math.floor(WAV_WINDOW_SIZE / frameSize));
+
+  const peaks: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const startFrame = Math.floor((bar * frames) / bars);
+    const count = Math.min(windowFrames, Math.floor(((bar + 1) * frames) / bars) - startFrame);
+    peaks.push(getSamplePeak(await readWavFrames(source, format, startFrame, count)));
+  }
+  return normalizePeaks(peaks);
+}
+
+async function computeWaveform(file: MediaFile): Promise<number[] | null> {
+  if (Platform.OS === 'web') {
+    const decoded = await decodeWithWebAudio(file.uri, DECODE_SAMPLE_RATE);
+    return decoded && computePeaks(decoded.channels);
+  }
+  return readWavPeaks(file.uri);
+}
+
+const computing = new Map<string, Promise<number[] | null>>();
+
+/**
+ * Computes and caches the waveform of a local file. Resolves to null when
+ * the file can't be decoded on this platform.
+ */
+export async function loadWaveform(file: MediaFile): Promise<number[] | null> {
+  if (file.remote) return null;
+  await waveformStore.hydrate();
+  const cached = getCachedWaveform(waveformStore.getState(), file);
+  if (cached) return cached;
+
+  const key = getMediaKey(file);
+  const pending = computing.get(key);
+  if (pending) return pending;
+
+  const promise = computeWaveform(file)
+    .then((peaks) => {
+      if (peaks) saveWaveform(key, peaks);
+      return peaks;
+    })
+    .finally(() => computing.delete(key));
+  computing.set(key, promise);
+  return promise;
+}
+
+function saveWaveform(key: string, peaks: number[]) {
+  waveformStore.setState((prev) => {
+    const waveforms = {
+      ...prev.waveforms,
+      [key]: { peaks: peaks.map((peak) => Math.round(peak * PEAK_SCALE)), updatedAt: Date.now() },
+    };
+
+    const keys = Object.keys(waveforms);
+    if (keys.length > MAX_ENTRIES) {
+      keys
+        .sort((a, b) => waveforms[a].updatedAt - waveforms[b].updatedAt)
+        .slice(0, keys.length - MAX_ENTRIES)
+        .forEach((stale) => delete waveforms[stale]);
+    }
+
+    return { waveforms };
+  });
+}
@@ -0,0 +1,88 @@
+import { Platform } from 'react-native';
+import { EQ_FREQUENCIES, EqualizerSettings } from './equalizer';
+
+/**
+ * The Web Audio nodes a media element plays through once it has been routed
+ * into the shared AudioContext.
+ */
+export interface MediaElementGraph {
+  context: AudioContext;
+  source: MediaElementAudioSourceNode;
+  preamp: GainNode;
+  /** One filter per equalizer band, in series. */
+  filters: BiquadFilterNode[];
+  analyser: AnalyserNode;
+}
+
+const FFT_SIZE = 2048;
+/** Roughly an octave wide, matching the spacing of the bands. */
+const BAND_Q = 1.41;
+/** Time constant for gain changes, short enough to feel instant without clicks. */
+const GAIN_SMOOTHING = 0.015;
+
+let context: AudioContext | null = null;
+// An element can only ever be given one source node, so graphs live as long as their element.
+const graphs = new WeakMap<HTMLMediaElement, MediaElementGraph>();
+
+export function isWebAudioSupported(): boolean {
+  return Platform.OS === 'web' && typeof AudioContext !== 'undefined';
+}
+
+function getContext(): AudioContext | null {
+  if (!isWebAudioSupported()) return null;
+  if (!context) context = new AudioContext();
+  return context;
+}
+
+/**
+ * Routes `element` through the equalizer and analyser. Once routed the
+ * element is only audible through the context, which browsers start
+ * suspended until the user interacts with the page.
+ */
+export function getMediaElementGraph(element: HTMLMediaElement): MediaElementGraph | null {
+  const existing = graphs.get(element);
+  if (existing) return existing;
+
+  const audioContext = getContext();
+  if (!audioContext) return null;
+
+  const source = audioContext.createMediaElementSource(element);
+  const preamp = audioContext.createGain();
+  // Shelves at the ends so the outer bands lift everything beyond them too.
+  const filters = EQ_FREQUENCIES.map((frequency, index) => {
+    const filter = audioContext.createBiquadFilter();
+    filter.type =
+      index === 0 ? 'lowshelf' : index === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = BAND_Q;
+    filter.gain.value = 0;
+    return filter;
+  });
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0.8;
+
+  const chain: AudioNode[] = [source, preamp, ...filters, analyser, audioContext.destination];
+  chain.slice(1).forEach((node, index) => chain[index].connect(node));
+
+  const graph = { context: audioContext, source, preamp, filters, analyser };
+  graphs.set(element, graph);
+  return graph;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/** Applies an equalizer curve to `graph`, or flattens it when `settings` is null. */
+export function applyEqualizer(graph: MediaElementGraph, settings: EqualizerSettings | null) {
+  const now = graph.context.currentTime;
+  graph.preamp.gain.setTargetAtTime(dbToGain(settings?.preamp ?? 0), now, GAIN_SMOOTHING);
+  graph.filters.forEach((filter, index) => {
+    filter.gain.setTargetAtTime(settings?.gains[index] ?? 0, now, GAIN_SMOOTHING);
+  });
+}
+
+export async function resumeWebAudio(): Promise<void> {
+  if (context?.state === 'suspended') {
+    await context.resume();
+  }
+}